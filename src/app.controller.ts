@@ -4,31 +4,35 @@ import {
   Param,
   ParseIntPipe,
   UseFilters,
-  UseInterceptors,
 } from '@nestjs/common';
 import { CustomForbiddenException } from '@exceptions/forbidden.exception';
 import { HttpExceptionFilter } from '@filters/http-exception.filter';
 import { CatsService } from '@cats/cats.service';
-import { LoggingInterceptor } from '@interceptors/logging.interceptor';
+import { RawResponse } from '@decorators/raw-response.decorator';
 
 /**
  * Binding interceptors
  * In order to set up the interceptor, we use the @UseInterceptors() decorator imported from the @nestjs/common package.
  * Like pipes and guards, interceptors can be controller-scoped, method-scoped, or global-scoped.
- * Using the below construction, each route handler defined in Controller will use LoggingInterceptor.
+ * Using the construction @UseInterceptors(LoggingInterceptor) on a controller,
+ * each route handler defined in the controller would use the LoggingInterceptor.
  *
- * Note that we passed the LoggingInterceptor type (instead of an instance),
+ * Note that we pass the LoggingInterceptor type (instead of an instance),
  * leaving responsibility for instantiation to the framework and enabling dependency injection.
  * As with pipes, guards, and exception filters, we can also pass an in-place instance.
  *
  * If we want to restrict the interceptor's scope to a single method, we simply apply the decorator at the method level.
+ * The LoggingInterceptor feeds the request metrics of every route, so it's bound globally instead (see AppModule).
  */
 @Controller()
-@UseInterceptors(LoggingInterceptor)
 export class AppController {
   constructor(private catsService: CatsService) {}
 
+  /**
+   * The greeting is sent as plain text, without the envelope of the TransformInterceptor.
+   */
   @Get()
+  @RawResponse()
   getHello(): string {
     return 'hello';
   }
@@ -66,10 +70,14 @@ export class AppController {
    * - ParseEnumPipe
    * - DefaultValuePipe
    * - ParseFilePipe
+   *
+   * The route parameter is restricted to digits by a regular expression (:id(\\d+)).
+   * Otherwise this route would catch every path with a single segment,
+   * e.g. GET /metrics of the MetricsController, whose routes are registered after the ones of the AppModule.
    * @param id
    * @returns
    */
-  @Get(':id')
+  @Get(':id(\\d+)')
   async findOne(@Param('id', ParseIntPipe) id: number) {
     return this.catsService.findOne(id);
   }
@@ -1,8 +1,107 @@
 import { CatsModule } from '@cats/cats.module';
 import { MiddlewareConsumer, NestModule, RequestMethod } from '@nestjs/common';
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 import { AppController } from '@root/app.controller';
 import { LoggerMiddleware } from '@root/logger.middleware';
+import { CatsModuleOptions } from '@cats/interfaces/cats-module-options.interface';
+import { CATS_EXCEPTION_MAPPINGS } from '@cats/cats.exception-mappings';
+import { AuthModule } from '@auth/auth.module';
+import {
+  AuthModuleOptions,
+  SigningKey,
+} from '@auth/interfaces/auth-module-options.interface';
+import { randomBytes } from 'crypto';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { LoggingModule } from '@logging/logging.module';
+import { RequestTimeoutException } from '@nestjs/common';
+import { TimeoutInterceptor } from '@interceptors/timeout.interceptor';
+import { ErrorsInterceptor } from '@interceptors/error.interceptor';
+import { TransformInterceptor } from '@interceptors/transform.interceptor';
+import { DeprecationInterceptor } from '@interceptors/deprecation.interceptor';
+import { ApiVersionDeprecation } from '@interceptors/interfaces/api-version-deprecation.interface';
+import {
+  DEPRECATED_API_VERSIONS,
+  ERROR_MAPPINGS,
+  REQUEST_TIMEOUT,
+} from '@interceptors/interceptors.constants';
+import { ErrorMapping } from '@interceptors/interfaces/error-mapping.interface';
+import { ProblemDetailsFilter } from '@filters/problem-details.filter';
+import { EXPOSE_ERROR_DETAILS } from '@filters/filters.constants';
+import { AbortError } from '@root/utils/abort';
+import { ConfigModule } from '@config/config.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { HealthModule } from '@health/health.module';
+import { MetricsModule } from '@metrics/metrics.module';
+import { CatsPersistenceHealthIndicator } from '@cats/cats.health';
+import { LoggingInterceptor } from '@interceptors/logging.interceptor';
+import { AppConfig } from '@config/app-config';
+import { OpenApiModule } from '@openapi/openapi.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { GraphQLApiModule } from '@graphql/graphql-api.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { AuditModule } from '@audit/audit.module';
+import { AuditHealthIndicator } from '@audit/audit.health';
+
+/**
+ * The persistence layer of the CatsModule is selected by the configuration (see AppConfig),
+ * so the same build can run with the in-memory store in tests and with a file or database elsewhere.
+ */
+function catsOptions({ cats }: AppConfig): CatsModuleOptions {
+  const maxCatsPerOwner = cats.maxPerOwner;
+  switch (cats.persistence) {
+    case 'json':
+      return {
+        persistence: {
+          driver: 'json',
+          path: cats.storagePath ?? 'data/cats.json',
+        },
+        maxCatsPerOwner,
+      };
+    case 'sqlite':
+      return {
+        persistence: {
+          driver: 'sqlite',
+          path: cats.storagePath ?? 'data/cats.db',
+        },
+        maxCatsPerOwner,
+      };
+    default:
+      return { persistence: { driver: 'memory' }, maxCatsPerOwner };
+  }
+}
+
+/**
+ * The AuthModule is configured by the auth section of the AppConfig (AUTH_* variables).
+ * Without signing keys, a random key is generated, so tokens don't survive a restart.
+ */
+function authOptions({ auth }: AppConfig): AuthModuleOptions {
+  const keys: SigningKey[] = auth.signingKeys?.length
+    ? auth.signingKeys
+    : [{ kid: 'ephemeral', secret: randomBytes(32).toString('hex') }];
+  return {
+    keys,
+    activeKid: auth.activeKid ?? keys[0].kid,
+    issuer: auth.issuer,
+    audience: auth.audience,
+    expiresIn: auth.tokenTtl,
+    users: auth.users,
+  };
+}
+
+/**
+ * Errors which aren't HttpExceptions are turned into HttpExceptions by the ErrorsInterceptor
+ * according to this table. Any other error results in an internal server error.
+ * The exceptions of the CatsService are listed, as the AppController uses it as well.
+ */
+const errorMappings: ErrorMapping[] = [
+  ...CATS_EXCEPTION_MAPPINGS,
+  {
+    error: AbortError,
+    toException: () => new RequestTimeoutException('The request was cancelled'),
+  },
+];
 
 /**
  * Each application has at least one module, a root module.
@@ -18,10 +117,94 @@ import { LoggerMiddleware } from '@root/logger.middleware';
   controllers: [AppController],
 
   // providers: the providers that will be instantiated by the Nest injector and that may be shared at least across this module
-  providers: [],
+  //            The TimeoutInterceptor is bound globally, REQUEST_TIMEOUT (milliseconds) is its default timeout.
+  //            Routes may override it with @Timeout().
+  providers: [
+    {
+      provide: REQUEST_TIMEOUT,
+      useFactory: (config: AppConfig) => config.http.requestTimeout,
+      inject: [AppConfig],
+    },
+    { provide: APP_INTERCEPTOR, useClass: TimeoutInterceptor },
+    //          The LoggingInterceptor logs the time spent in the route handlers and feeds the request metrics.
+    { provide: APP_INTERCEPTOR, useClass: LoggingInterceptor },
+    //          Errors are mapped by the ErrorsInterceptor and rendered as problem details by the ProblemDetailsFilter.
+    //          Outside of production, responses to unexpected errors include the error message and stack trace.
+    { provide: ERROR_MAPPINGS, useValue: errorMappings },
+    { provide: APP_INTERCEPTOR, useClass: ErrorsInterceptor },
+    //          Successful responses are wrapped in an envelope with metadata by the TransformInterceptor.
+    { provide: APP_INTERCEPTOR, useClass: TransformInterceptor },
+    //          Responses of deprecated API versions announce their sunset with the Deprecation and Sunset headers.
+    //          Version 1 is deprecated in favour of version 2 and removed after its sunset (API_V1_SUNSET).
+    {
+      provide: DEPRECATED_API_VERSIONS,
+      useFactory: (
+        config: AppConfig,
+      ): Record<string, ApiVersionDeprecation> => ({
+        '1': { sunset: config.deprecation.v1Sunset },
+      }),
+      inject: [AppConfig],
+    },
+    { provide: APP_INTERCEPTOR, useClass: DeprecationInterceptor },
+    {
+      provide: EXPOSE_ERROR_DETAILS,
+      useValue: process.env.NODE_ENV !== 'production',
+    },
+    { provide: APP_FILTER, useClass: ProblemDetailsFilter },
+  ],
 
   // imports: the list of imported modules that export the providers which are required in this module
-  imports: [CatsModule],
+  //          The ConfigModule is global, so the other modules read the AppConfig without importing it.
+  imports: [
+    ConfigModule.forRoot(),
+    CatsModule.forRootAsync({
+      useFactory: catsOptions,
+      inject: [AppConfig],
+    }),
+    AuthModule.forRootAsync({
+      useFactory: authOptions,
+      inject: [AppConfig],
+    }),
+    ResponseCacheModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.cache,
+      inject: [AppConfig],
+    }),
+    LoggingModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.logging,
+      inject: [AppConfig],
+    }),
+    ThrottleModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.throttle,
+      inject: [AppConfig],
+    }),
+    StorageModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.storage,
+      inject: [AppConfig],
+    }),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.idempotency,
+      inject: [AppConfig],
+    }),
+    GraphQLApiModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.graphql,
+      inject: [AppConfig],
+    }),
+    AuditModule.forRootAsync({
+      useFactory: (config: AppConfig) => config.audit,
+      inject: [AppConfig],
+    }),
+    HealthModule.forRoot({
+      readiness: [CatsPersistenceHealthIndicator, AuditHealthIndicator],
+    }),
+    MetricsModule.forRoot(),
+    OpenApiModule.forRoot({
+      title: 'Cats API',
+      version: '0.0.1',
+      description:
+        'Authenticate with POST /auth/login and send the access_token as bearer token.',
+    }),
+  ],
 
   // exports: the subset of providers that are provided by this module and should be available
   //          in other modules which import this module.
@@ -76,11 +259,13 @@ export class AppModule implements NestModule {
    * simply provide a comma separated list inside the apply() method:
    * consumer.apply(cors(), helmet(), logger).forRoutes(CatsController);
    *
+   * The LoggerMiddleware is applied to all routes, so every request gets a request id and an access log entry.
+   *
    * @param consumer
    */
   configure(consumer: MiddlewareConsumer) {
     consumer
       .apply(LoggerMiddleware)
-      .forRoutes({ path: 'cats', method: RequestMethod.GET });
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
   }
 }
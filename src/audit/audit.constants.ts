@@ -0,0 +1 @@
+export const AUDIT_OPTIONS = 'AUDIT_OPTIONS';
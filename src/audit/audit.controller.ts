@@ -0,0 +1,38 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AuditService } from '@audit/audit.service';
+import { AuditEntryDto } from '@audit/dto/audit-entry.dto';
+import { ListAuditQueryDto } from '@audit/dto/list-audit-query.dto';
+import { AuditEntry } from '@audit/interfaces/audit-entry.interface';
+import { AuthGuard } from '@guards/auth.guard';
+import { RolesGuard } from '@guards/roles.guard';
+import { Roles } from '@decorators/roles.decorator';
+import { ApiResponse } from '@decorators/api-response.decorator';
+import { CustomValidationPipe } from '@pipes/custom-validation.pipe';
+
+/**
+ * The audit trail of the cats, for admins only.
+ *
+ * GET /audit lists the latest entries first and can be narrowed down by the actor (a user id), the cat
+ * and a time range (from inclusive, to exclusive):
+ *
+ * GET /audit?actor=1&catId=42&from=2024-01-01T00:00:00Z&to=2024-02-01T00:00:00Z
+ *
+ * The trail is read-only, there are no routes to change or remove entries.
+ */
+@Controller('audit')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles('admin')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiResponse({ type: AuditEntryDto, isArray: true })
+  async findAll(
+    @Query(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    query: ListAuditQueryDto,
+  ): Promise<AuditEntry[]> {
+    return this.auditService.find(query);
+  }
+}
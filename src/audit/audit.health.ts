@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { AuditService } from '@audit/audit.service';
+import { AuditStore } from '@audit/audit.store';
+import { HealthIndicator } from '@health/health-indicator';
+import { HealthCheckResult } from '@health/interfaces/health-report.interface';
+
+/**
+ * Tells the readiness probe whether the AuditStore can store entries.
+ * Changes are still made while the store fails, but they are missing from the trail,
+ * the number of entries lost so far is reported along with the status.
+ */
+@Injectable()
+export class AuditHealthIndicator extends HealthIndicator {
+  readonly name = 'audit';
+
+  constructor(
+    private readonly auditStore: AuditStore,
+    private readonly auditService: AuditService,
+  ) {
+    super();
+  }
+
+  async check(signal: AbortSignal): Promise<HealthCheckResult> {
+    await this.auditStore.ping(signal);
+    return { status: 'up', lostEntries: this.auditService.lostEntries };
+  }
+}
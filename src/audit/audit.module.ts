@@ -0,0 +1,66 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { AUDIT_OPTIONS } from '@audit/audit.constants';
+import { AuditController } from '@audit/audit.controller';
+import { AuditHealthIndicator } from '@audit/audit.health';
+import { AuditService } from '@audit/audit.service';
+import { AuditStore } from '@audit/audit.store';
+import { InMemoryAuditStore } from '@audit/in-memory-audit.store';
+import { JsonLinesAuditStore } from '@audit/json-lines-audit.store';
+import {
+  AuditModuleAsyncOptions,
+  AuditOptions,
+} from '@audit/interfaces/audit-options.interface';
+
+/**
+ * The store is selected by the options, like the CatsRepository by the CatsModule.
+ */
+const auditStoreProvider: Provider = {
+  provide: AuditStore,
+  useFactory: ({ path }: AuditOptions): AuditStore =>
+    path ? new JsonLinesAuditStore(path) : new InMemoryAuditStore(),
+  inject: [AUDIT_OPTIONS],
+};
+
+/**
+ * Records the changes of the cats (see AuditService) and serves the trail at GET /audit.
+ * The module relies on the global EventBus and AuthModule, and on the RequestContext of the LoggingModule
+ * for the actor and request id of the entries.
+ *
+ * AuditModule.forRoot({ path: 'data/audit.jsonl' })
+ */
+@Module({
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    auditStoreProvider,
+    // Looked up by the HealthModule for the readiness probe
+    AuditHealthIndicator,
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {
+  static forRoot(options: AuditOptions = {}): DynamicModule {
+    return {
+      module: AuditModule,
+      providers: [{ provide: AUDIT_OPTIONS, useValue: options }],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: AuditModuleAsyncOptions): DynamicModule {
+    return {
+      module: AuditModule,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: AUDIT_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+      ],
+    };
+  }
+}
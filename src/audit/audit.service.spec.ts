@@ -0,0 +1,119 @@
+import { Logger } from '@nestjs/common';
+import { AuditService } from '@audit/audit.service';
+import { InMemoryAuditStore } from '@audit/in-memory-audit.store';
+import { EventBus } from '@events/event-bus';
+import { RequestContext } from '@logging/request-context';
+
+describe('AuditService', () => {
+  const tom = {
+    id: 1,
+    name: 'Tom',
+    age: 3,
+    breed: 'Tabby',
+    owner: '1',
+    version: 1,
+  };
+  const query = { limit: 50, offset: 0 };
+  let eventBus: EventBus;
+  let requestContext: RequestContext;
+  let auditStore: InMemoryAuditStore;
+  let auditService: AuditService;
+
+  beforeEach(() => {
+    eventBus = new EventBus({ replaySize: 10 });
+    requestContext = new RequestContext();
+    auditStore = new InMemoryAuditStore();
+    auditService = new AuditService(eventBus, auditStore, requestContext);
+    auditService.onModuleInit();
+  });
+
+  afterEach(() => {
+    auditService.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('records the changed members with the actor and request of the change', async () => {
+    const updated = { ...tom, age: 4, version: 2 };
+    requestContext.run(
+      {
+        requestId: 'req-1',
+        user: { id: '1', username: 'alice', roles: ['admin'] },
+      },
+      () => eventBus.publish('cat.updated', { cat: updated, previous: tom }),
+    );
+
+    expect(await auditService.find(query)).toEqual([
+      {
+        id: 1,
+        occurredAt: expect.any(String),
+        actor: '1',
+        action: 'cat.updated',
+        catId: 1,
+        changes: {
+          age: { before: 3, after: 4 },
+          version: { before: 1, after: 2 },
+        },
+        requestId: 'req-1',
+      },
+    ]);
+  });
+
+  it('records created and deleted cats with all their members', async () => {
+    eventBus.publish('cat.created', { cat: tom });
+    eventBus.publish('cat.deleted', { cat: tom });
+    eventBus.publish('photo.created', { id: 1 });
+
+    const [deleted, created] = await auditService.find(query);
+    expect(created).toMatchObject({
+      action: 'cat.created',
+      actor: null,
+      requestId: null,
+      changes: { name: { after: 'Tom' }, owner: { after: '1' } },
+    });
+    expect(deleted).toMatchObject({
+      action: 'cat.deleted',
+      changes: { name: { before: 'Tom' }, version: { before: 1 } },
+    });
+    expect(deleted.changes.id).toBeUndefined();
+  });
+
+  it('filters by actor, cat and time range', async () => {
+    const run = (userId: string, cat: typeof tom) =>
+      requestContext.run(
+        {
+          requestId: userId,
+          user: { id: userId, username: userId, roles: [] },
+        },
+        () => eventBus.publish('cat.created', { cat }),
+      );
+    run('1', tom);
+    run('2', { ...tom, id: 2 });
+    run('2', tom);
+
+    const ids = async (criteria: object) =>
+      (await auditService.find({ ...query, ...criteria })).map(({ id }) => id);
+    expect(await ids({ actor: '2' })).toEqual([3, 2]);
+    expect(await ids({ catId: 1 })).toEqual([3, 1]);
+    expect(await ids({ actor: '2', catId: 1 })).toEqual([3]);
+    expect(await ids({ from: new Date(Date.now() + 60_000) })).toEqual([]);
+    expect(await ids({ to: new Date(Date.now() + 60_000), limit: 1 })).toEqual([
+      3,
+    ]);
+  });
+
+  it('counts the entries which could not be stored', async () => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    jest
+      .spyOn(auditStore, 'append')
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    eventBus.publish('cat.created', { cat: tom });
+    await new Promise(setImmediate);
+    expect(auditService.lostEntries).toBe(1);
+
+    eventBus.publish('cat.deleted', { cat: tom });
+    await new Promise(setImmediate);
+    expect(auditService.lostEntries).toBe(1);
+    expect(await auditService.find(query)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { AuditStore } from '@audit/audit.store';
+import {
+  AuditChange,
+  AuditEntry,
+  AuditQuery,
+} from '@audit/interfaces/audit-entry.interface';
+import {
+  CAT_CREATED,
+  CAT_DELETED,
+  CAT_EVENT_TYPES,
+} from '@cats/cats.constants';
+import { Cat } from '@cats/interfaces/cat.interface';
+import {
+  CatEventPayload,
+  CatEventType,
+} from '@cats/interfaces/cat-event.interface';
+import { EventBus } from '@events/event-bus';
+import { DomainEvent } from '@events/interfaces/domain-event.interface';
+import { RequestContext } from '@logging/request-context';
+
+/**
+ * Records every change of a cat in the audit trail: who changed which cat when, and how.
+ *
+ * The service subscribes to the cat events of the EventBus, so the CatsService doesn't know about the audit,
+ * and every transport (REST, GraphQL, bulk imports) is covered. The EventBus delivers the events while
+ * the CatsService publishes them, that is within the request which made the change.
+ * The actor and the request id are therefore taken from the RequestContext.
+ *
+ * Appending happens in the background. A failure is logged, but doesn't fail the change, which is already stored.
+ * The lost entries are counted and reported by the readiness probe, which checks the store itself (see AuditHealthIndicator).
+ */
+@Injectable()
+export class AuditService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditService.name);
+  private subscription?: Subscription;
+  private lost = 0;
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly auditStore: AuditStore,
+    @Optional()
+    private readonly requestContext?: RequestContext,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.eventBus
+      .events()
+      .pipe(
+        filter((event): event is DomainEvent<CatEventPayload> =>
+          CAT_EVENT_TYPES.includes(event.type as CatEventType),
+        ),
+      )
+      .subscribe((event) => this.record(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * @param query
+   * @returns the matching entries, the latest first
+   */
+  async find(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.auditStore.find(query);
+  }
+
+  /**
+   * The number of entries which couldn't be stored since the application started.
+   */
+  get lostEntries(): number {
+    return this.lost;
+  }
+
+  private record({ type, occurredAt, payload }: DomainEvent<CatEventPayload>) {
+    const action = type as CatEventType;
+    const [before, after] =
+      action === CAT_CREATED
+        ? [undefined, payload.cat]
+        : action === CAT_DELETED
+        ? [payload.cat, undefined]
+        : [payload.previous, payload.cat];
+    this.auditStore
+      .append({
+        occurredAt,
+        actor: this.requestContext?.user?.id ?? null,
+        action,
+        catId: payload.cat.id,
+        changes: diff(before, after),
+        requestId: this.requestContext?.requestId ?? null,
+      })
+      .catch((error) => {
+        this.lost++;
+        this.logger.error({
+          message: 'Audit entry could not be stored',
+          catId: payload.cat.id,
+          action,
+          error: error.message,
+        });
+      });
+  }
+}
+
+/**
+ * @returns the members whose values differ, the id is the subject of the entry rather than a change
+ */
+function diff(before?: Cat, after?: Cat): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const names = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  names.delete('id');
+  for (const name of names) {
+    if (before?.[name] !== after?.[name]) {
+      changes[name] = {
+        ...(before?.[name] !== undefined && { before: before[name] }),
+        ...(after?.[name] !== undefined && { after: after[name] }),
+      };
+    }
+  }
+  return changes;
+}
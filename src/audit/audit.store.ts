@@ -0,0 +1,47 @@
+import {
+  AuditEntry,
+  AuditQuery,
+} from '@audit/interfaces/audit-entry.interface';
+
+/**
+ * Keeps the audit trail. The store is append-only: entries can be added and read, but never changed or removed,
+ * so the trail can be trusted to show every change that was made.
+ */
+export abstract class AuditStore {
+  /**
+   * @returns the entry with the id assigned by the store
+   */
+  abstract append(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry>;
+
+  /**
+   * @returns the matching entries, the latest first
+   */
+  abstract find(query: AuditQuery): Promise<AuditEntry[]>;
+
+  /**
+   * Checks that entries can be stored, e.g. by the readiness check (see AuditHealthIndicator).
+   * Rejects with the cause if they can't.
+   */
+  abstract ping(signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Selects the entries of a query from all entries, for stores which hold them in memory.
+ * @param entries in the order they were appended
+ * @param query
+ */
+export function selectAuditEntries(
+  entries: AuditEntry[],
+  { actor, catId, from, to, limit, offset }: AuditQuery,
+): AuditEntry[] {
+  return entries
+    .filter(
+      (entry) =>
+        (actor === undefined || entry.actor === actor) &&
+        (catId === undefined || entry.catId === catId) &&
+        (from === undefined || new Date(entry.occurredAt) >= from) &&
+        (to === undefined || new Date(entry.occurredAt) < to),
+    )
+    .reverse()
+    .slice(offset, offset + limit);
+}
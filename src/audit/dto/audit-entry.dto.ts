@@ -0,0 +1,43 @@
+import {
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { CAT_EVENT_TYPES } from '@cats/cats.constants';
+import { CatEventType } from '@cats/interfaces/cat-event.interface';
+import {
+  AuditChange,
+  AuditEntry,
+} from '@audit/interfaces/audit-entry.interface';
+
+/**
+ * An entry of the audit trail as sent by GET /audit.
+ * Responses aren't validated, the class-validator decorators describe the members in the OpenAPI document.
+ */
+export class AuditEntryDto implements AuditEntry {
+  @IsInt()
+  id: number;
+
+  @IsISO8601()
+  occurredAt: string;
+
+  @IsOptional()
+  @IsString()
+  actor: string | null;
+
+  @IsIn(CAT_EVENT_TYPES)
+  action: CatEventType;
+
+  @IsInt()
+  catId: number;
+
+  @IsObject()
+  changes: Record<string, AuditChange>;
+
+  @IsOptional()
+  @IsString()
+  requestId: string | null;
+}
@@ -0,0 +1,42 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { AuditQuery } from '@audit/interfaces/audit-entry.interface';
+
+/**
+ * Query parameters of GET /audit, e.g. /audit?catId=1&from=2024-01-01T00:00:00Z
+ *
+ * from and to are ISO 8601 timestamps, @Type(() => Date) converts them before they are validated.
+ */
+export class ListAuditQueryDto implements AuditQuery {
+  @IsOptional()
+  @IsString()
+  actor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  catId?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 50;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset = 0;
+}
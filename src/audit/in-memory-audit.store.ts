@@ -0,0 +1,29 @@
+import { AuditStore, selectAuditEntries } from '@audit/audit.store';
+import {
+  AuditEntry,
+  AuditQuery,
+} from '@audit/interfaces/audit-entry.interface';
+
+/**
+ * Keeps the entries in memory only, they are gone once the application stops.
+ * Useful for tests and demos.
+ */
+export class InMemoryAuditStore extends AuditStore {
+  private readonly entries: AuditEntry[] = [];
+
+  async append(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    const appended = { id: this.entries.length + 1, ...entry };
+    this.entries.push(appended);
+    return { ...appended };
+  }
+
+  async find(query: AuditQuery): Promise<AuditEntry[]> {
+    return selectAuditEntries(this.entries, query).map((entry) => ({
+      ...entry,
+    }));
+  }
+
+  async ping(): Promise<void> {
+    // memory is always available
+  }
+}
@@ -0,0 +1,55 @@
+import { CatEventType } from '@cats/interfaces/cat-event.interface';
+
+/**
+ * A member of the cat before and after the change. before is missing for created cats, after for deleted ones.
+ */
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * A change of a cat, as recorded by the AuditService.
+ */
+export interface AuditEntry {
+  /**
+   * Assigned by the AuditStore, in the order the entries were appended.
+   */
+  id: number;
+  /**
+   * ISO 8601 timestamp of the change.
+   */
+  occurredAt: string;
+  /**
+   * The id of the user who made the change, null if it wasn't made on behalf of a user.
+   */
+  actor: string | null;
+  action: CatEventType;
+  catId: number;
+  /**
+   * The members which were changed, by name.
+   */
+  changes: Record<string, AuditChange>;
+  /**
+   * The id of the request which made the change (see LoggerMiddleware), to find its log entries.
+   */
+  requestId: string | null;
+}
+
+/**
+ * Selects audit entries, all criteria are optional.
+ */
+export interface AuditQuery {
+  actor?: string;
+  catId?: number;
+  /**
+   * Entries which occurred at or after this point in time.
+   */
+  from?: Date;
+  /**
+   * Entries which occurred before this point in time.
+   */
+  to?: Date;
+  limit: number;
+  offset: number;
+}
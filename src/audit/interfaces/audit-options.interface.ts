@@ -0,0 +1,15 @@
+import { ModuleMetadata } from '@nestjs/common';
+
+export interface AuditOptions {
+  /**
+   * The JSON Lines file the entries are appended to. Without it, they are kept in memory only
+   * and are gone once the application stops.
+   */
+  path?: string;
+}
+
+export interface AuditModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (...args: any[]) => AuditOptions | Promise<AuditOptions>;
+  inject?: any[];
+}
@@ -0,0 +1,154 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonLinesAuditStore } from '@audit/json-lines-audit.store';
+
+describe('JsonLinesAuditStore', () => {
+  let directory: string;
+  let path: string;
+  const query = { limit: 50, offset: 0 };
+  const entry = {
+    occurredAt: '2024-01-01T00:00:00.000Z',
+    actor: '1',
+    action: 'cat.created' as const,
+    catId: 1,
+    changes: { name: { after: 'Tom' } },
+    requestId: null,
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'audit-'));
+    path = join(directory, 'data', 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('appends one line per entry and reads them in another instance', async () => {
+    const store = new JsonLinesAuditStore(path);
+    await store.append(entry);
+    await store.append({ ...entry, catId: 2 });
+
+    expect((await readFile(path, 'utf8')).split('\n')).toHaveLength(3);
+    expect(await new JsonLinesAuditStore(path).find(query)).toEqual([
+      { id: 2, ...entry, catId: 2 },
+      { id: 1, ...entry },
+    ]);
+  });
+
+  it('cuts off an incomplete last line', async () => {
+    await fs.mkdir(join(directory, 'data'));
+    await writeFile(
+      path,
+      `${JSON.stringify({ id: 1, ...entry })}\n{"id":2,"occurredAt":"2024-`,
+    );
+    const store = new JsonLinesAuditStore(path);
+
+    expect(await store.find(query)).toEqual([{ id: 1, ...entry }]);
+    await store.append({ ...entry, catId: 2 });
+
+    expect(await new JsonLinesAuditStore(path).find(query)).toEqual([
+      { id: 2, ...entry, catId: 2 },
+      { id: 1, ...entry },
+    ]);
+  });
+
+  it('cuts off what a failed append has written', async () => {
+    const store = new JsonLinesAuditStore(path);
+    await store.append(entry);
+    const appendFile = fs.appendFile;
+    jest
+      .spyOn(fs, 'appendFile')
+      .mockImplementationOnce(async (file, data: string) => {
+        await appendFile(file, data.slice(0, 20));
+        throw Object.assign(new Error('no space left on device'), {
+          code: 'ENOSPC',
+        });
+      });
+
+    await expect(store.append({ ...entry, catId: 2 })).rejects.toThrow(
+      'no space left on device',
+    );
+    await store.append({ ...entry, catId: 3 });
+
+    expect(await new JsonLinesAuditStore(path).find(query)).toEqual([
+      { id: 2, ...entry, catId: 3 },
+      { id: 1, ...entry },
+    ]);
+  });
+
+  it('cuts off the line of a failed append before the next one if it could not be cut right away', async () => {
+    const store = new JsonLinesAuditStore(path);
+    await store.append(entry);
+    const appendFile = fs.appendFile;
+    jest
+      .spyOn(fs, 'appendFile')
+      .mockImplementationOnce(async (file, data: string) => {
+        await appendFile(file, data.slice(0, 20));
+        throw new Error('no space left on device');
+      });
+    jest
+      .spyOn(fs, 'truncate')
+      .mockRejectedValueOnce(new Error('input/output error'));
+
+    await expect(store.append({ ...entry, catId: 2 })).rejects.toThrow();
+    await store.append({ ...entry, catId: 3 });
+
+    expect(
+      (await readFile(path, 'utf8'))
+        .split('\n')
+        .map((line) => line && JSON.parse(line).id),
+    ).toEqual([1, 2, '']);
+  });
+
+  it('skips lines in the middle of the file which are no JSON', async () => {
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    await fs.mkdir(join(directory, 'data'));
+    await writeFile(
+      path,
+      [
+        JSON.stringify({ id: 1, ...entry }),
+        '{"id":2,"occurredAt":"2024-{"id":3}',
+        JSON.stringify({ id: 3, ...entry }),
+        '',
+      ].join('\n'),
+    );
+    const store = new JsonLinesAuditStore(path);
+
+    expect((await store.find(query)).map(({ id }) => id)).toEqual([3, 1]);
+    expect((await store.append(entry)).id).toBe(4);
+    expect(warn).toHaveBeenCalledWith(expect.objectContaining({ skipped: 1 }));
+  });
+
+  it('reads the file again after a failed read', async () => {
+    const store = new JsonLinesAuditStore(path);
+    await store.append(entry);
+    const reopened = new JsonLinesAuditStore(path);
+    jest
+      .spyOn(fs, 'readFile')
+      .mockRejectedValueOnce(
+        Object.assign(new Error('permission denied'), { code: 'EACCES' }),
+      );
+
+    await expect(reopened.find(query)).rejects.toThrow('permission denied');
+
+    expect(await reopened.find(query)).toEqual([{ id: 1, ...entry }]);
+  });
+
+  it('checks on every ping whether entries can be stored', async () => {
+    const store = new JsonLinesAuditStore(path);
+    // a file where the directory should be
+    await writeFile(join(directory, 'data'), '');
+
+    await expect(store.ping()).rejects.toThrow();
+
+    await rm(join(directory, 'data'));
+    await expect(store.ping()).resolves.toBeUndefined();
+    await store.append(entry);
+    await expect(store.ping()).resolves.toBeUndefined();
+  });
+});
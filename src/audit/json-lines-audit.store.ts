@@ -0,0 +1,153 @@
+import { Logger } from '@nestjs/common';
+import { constants, promises as fs } from 'fs';
+import { dirname } from 'path';
+import { AuditStore, selectAuditEntries } from '@audit/audit.store';
+import {
+  AuditEntry,
+  AuditQuery,
+} from '@audit/interfaces/audit-entry.interface';
+import { throwIfAborted } from '@root/utils/abort';
+
+/**
+ * Appends the entries to a JSON Lines file, one entry per line.
+ *
+ * The file is only ever appended to, never rewritten, which matches the append-only nature of the trail:
+ * entries which were written stay untouched, even if the application crashes while writing the next one.
+ * It's read once on first access and kept in memory afterwards, to answer queries.
+ * A failed append (e.g. a full disk) may leave an incomplete line. The file is cut back to its size before the append,
+ * before anything else is appended, so the next entry starts on a line of its own.
+ * A crash while appending may leave an incomplete last line as well, which is cut off when the file is read.
+ * The entry of such a line was never reported as stored. Lines which still can't be parsed are skipped and logged,
+ * so a damaged line doesn't make the whole trail unreadable.
+ * If the file can't be read, it's read again on the next access.
+ *
+ * Appends are queued, so the ids are assigned in the order of the lines.
+ */
+export class JsonLinesAuditStore extends AuditStore {
+  private readonly logger = new Logger(JsonLinesAuditStore.name);
+  private entries: Promise<AuditEntry[]>;
+  private queue: Promise<unknown> = Promise.resolve();
+  /**
+   * The size of the complete lines in bytes, undefined until the file has been read.
+   */
+  private size: number;
+  /**
+   * Whether a failed append left bytes after size, which have to be cut off before the next append.
+   */
+  private torn = false;
+
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  async append(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    const result = this.queue.then(async () => {
+      const entries = await this.load();
+      const appended = {
+        id: (entries[entries.length - 1]?.id ?? 0) + 1,
+        ...entry,
+      };
+      const line = `${JSON.stringify(appended)}\n`;
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      if (this.torn) {
+        await this.cutOff();
+      }
+      try {
+        await fs.appendFile(this.path, line, 'utf8');
+      } catch (error) {
+        this.torn = true;
+        // if the file can't be cut right away, it's cut before the next append
+        await this.cutOff().catch(() => undefined);
+        throw error;
+      }
+      this.size += Buffer.byteLength(line, 'utf8');
+      entries.push(appended);
+      return { ...appended };
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async find(query: AuditQuery): Promise<AuditEntry[]> {
+    return selectAuditEntries(await this.load(), query).map((entry) => ({
+      ...entry,
+    }));
+  }
+
+  /**
+   * The file has to be readable and writable, or its directory writable if there is no file yet.
+   */
+  async ping(signal?: AbortSignal): Promise<void> {
+    await this.load();
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.access(this.path, constants.W_OK).catch((error) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return fs.access(dirname(this.path), constants.W_OK);
+    });
+    throwIfAborted(signal);
+  }
+
+  /**
+   * Removes what a failed append has written of its line.
+   */
+  private async cutOff(): Promise<void> {
+    await fs.truncate(this.path, this.size).catch((error) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+    this.torn = false;
+  }
+
+  private load(): Promise<AuditEntry[]> {
+    if (!this.entries) {
+      this.entries = this.read();
+      this.entries.catch(() => (this.entries = undefined));
+    }
+    return this.entries;
+  }
+
+  private async read(): Promise<AuditEntry[]> {
+    try {
+      const content = await fs.readFile(this.path, 'utf8');
+      const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+      const size = Buffer.byteLength(complete, 'utf8');
+      if (complete.length < content.length) {
+        await fs.truncate(this.path, size);
+      }
+      this.size = size;
+      return this.parse(complete);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        this.size = 0;
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private parse(content: string): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    let skipped = 0;
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      this.logger.warn({
+        message: 'Skipped audit lines which are no JSON',
+        path: this.path,
+        skipped,
+      });
+    }
+    return entries;
+  }
+}
@@ -0,0 +1 @@
+export const AUTH_MODULE_OPTIONS = 'AUTH_MODULE_OPTIONS';
@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { AccessToken, AuthService } from '@auth/auth.service';
+import { SignInDto } from '@auth/dto/sign-in.dto';
+import { CustomValidationPipe } from '@pipes/custom-validation.pipe';
+import { RawResponse } from '@decorators/raw-response.decorator';
+import { Throttle } from '@decorators/throttle.decorator';
+import { ThrottleGuard } from '@guards/throttle.guard';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private authService: AuthService) {}
+
+  /**
+   * Exchanges the credentials of a configured user for a bearer token.
+   * The token is then sent with each request in the Authorization header:
+   * Authorization: Bearer <access_token>
+   *
+   * The response has the format of an OAuth 2.0 token response, so it isn't wrapped in an envelope.
+   *
+   * The attempts are limited per IP address, which slows down guessing passwords.
+   * @param signInDto
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @RawResponse()
+  @UseGuards(ThrottleGuard)
+  @Throttle({ limit: 5, ttl: 60, strategy: 'sliding-window' })
+  async login(
+    @Body(new CustomValidationPipe()) signInDto: SignInDto,
+  ): Promise<AccessToken> {
+    const token = await this.authService.signIn(
+      signInDto.username,
+      signInDto.password,
+    );
+    if (!token) {
+      throw new UnauthorizedException('Invalid username or password');
+    }
+    return token;
+  }
+}
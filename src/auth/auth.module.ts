@@ -0,0 +1,51 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthController } from '@auth/auth.controller';
+import { AuthService } from '@auth/auth.service';
+import { AUTH_MODULE_OPTIONS } from '@auth/auth.constants';
+import {
+  AuthModuleAsyncOptions,
+  AuthModuleOptions,
+} from '@auth/interfaces/auth-module-options.interface';
+import { UsersService } from '@auth/users.service';
+
+/**
+ * The AuthModule issues tokens (POST /auth/login) and verifies them for the AuthGuard.
+ *
+ * The AuthGuard is used by controllers of other modules and is instantiated within their scope,
+ * so it needs the AuthService to be available there. Instead of importing the AuthModule everywhere,
+ * the dynamic module is registered as global module (global: true), just like a @Global() module.
+ *
+ * The JwtModule is registered without a secret, the AuthService passes the secret of the
+ * selected signing key on every call.
+ */
+@Module({
+  imports: [JwtModule.register({})],
+  controllers: [AuthController],
+  providers: [AuthService, UsersService],
+  exports: [AuthService],
+})
+export class AuthModule {
+  static forRoot(options: AuthModuleOptions): DynamicModule {
+    return {
+      module: AuthModule,
+      global: true,
+      providers: [{ provide: AUTH_MODULE_OPTIONS, useValue: options }],
+    };
+  }
+
+  static forRootAsync(options: AuthModuleAsyncOptions): DynamicModule {
+    return {
+      module: AuthModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: AUTH_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+      ],
+    };
+  }
+}
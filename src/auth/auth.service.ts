@@ -0,0 +1,107 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { AUTH_MODULE_OPTIONS } from '@auth/auth.constants';
+import { AuthModuleOptions } from '@auth/interfaces/auth-module-options.interface';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { UsersService } from '@auth/users.service';
+
+export interface AccessToken {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+}
+
+interface TokenPayload {
+  sub: string;
+  username: string;
+  roles: string[];
+}
+
+/**
+ * Raised when a token can't be verified.
+ * It's not an HttpException on purpose: the AuthGuard decides how a failure is reported to the client.
+ */
+export class InvalidTokenError extends Error {}
+
+/**
+ * Issues and verifies HMAC-signed (HS256) JSON Web Tokens.
+ * The JwtService is a thin wrapper around the jsonwebtoken library, which checks
+ * the signature, the expiry (exp), the issuer (iss) and the audience (aud) for us.
+ */
+@Injectable()
+export class AuthService {
+  constructor(
+    @Inject(AUTH_MODULE_OPTIONS) private readonly options: AuthModuleOptions,
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * @returns an access token or undefined if the credentials are wrong
+   */
+  async signIn(
+    username: string,
+    password: string,
+  ): Promise<AccessToken | undefined> {
+    const user = this.usersService.validateCredentials(username, password);
+    if (!user) {
+      return undefined;
+    }
+
+    const { activeKid, issuer, audience, expiresIn } = this.options;
+    const payload: TokenPayload = {
+      sub: user.id,
+      username: user.username,
+      roles: user.roles,
+    };
+    const accessToken = await this.jwtService.signAsync(payload, {
+      algorithm: 'HS256',
+      secret: this.secretFor(activeKid),
+      keyid: activeKid,
+      issuer,
+      audience,
+      expiresIn,
+    });
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+    };
+  }
+
+  /**
+   * The kid in the token header selects the secret to verify the signature with,
+   * which allows tokens signed with an older (but still configured) key to stay valid during a key rotation.
+   * @param token
+   * @returns the principal the token was issued for
+   */
+  async verify(token: string): Promise<Principal> {
+    const decoded = this.jwtService.decode(token, { complete: true });
+    const kid = decoded?.['header']?.kid;
+    const secret = kid && this.secretFor(kid);
+    if (!secret) {
+      throw new InvalidTokenError('Unknown signing key');
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TokenPayload>(token, {
+        algorithms: ['HS256'],
+        secret,
+        issuer: this.options.issuer,
+        audience: this.options.audience,
+      });
+    } catch (error) {
+      throw new InvalidTokenError(error.message);
+    }
+    return {
+      id: payload.sub,
+      username: payload.username,
+      roles: payload.roles ?? [],
+    };
+  }
+
+  private secretFor(kid: string): string | undefined {
+    return this.options.keys.find((key) => key.kid === kid)?.secret;
+  }
+}
@@ -0,0 +1,35 @@
+import { ModuleMetadata } from '@nestjs/common';
+import { UserRecord } from '@auth/interfaces/user-record.interface';
+
+/**
+ * A secret used to sign (HMAC) and verify tokens.
+ * The kid (key id) is written to the token header, so the matching secret can be found on verification.
+ */
+export interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+export interface AuthModuleOptions {
+  /**
+   * All keys are accepted on verification, but only the active one signs new tokens.
+   * To rotate keys, add a new key, make it active, and remove the old one once its tokens expired.
+   */
+  keys: SigningKey[];
+  activeKid: string;
+  issuer: string;
+  audience: string;
+  /**
+   * Lifetime of issued tokens in seconds.
+   */
+  expiresIn: number;
+  users: UserRecord[];
+}
+
+export interface AuthModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => AuthModuleOptions | Promise<AuthModuleOptions>;
+  inject?: any[];
+}
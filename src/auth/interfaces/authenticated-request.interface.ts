@@ -0,0 +1,6 @@
+import { Request } from 'express';
+import { Principal } from '@auth/interfaces/principal.interface';
+
+export interface AuthenticatedRequest extends Request {
+  user?: Principal;
+}
@@ -0,0 +1,14 @@
+import { Principal } from '@auth/interfaces/principal.interface';
+
+export type PolicyAction = 'read' | 'create' | 'update' | 'delete';
+
+/**
+ * A policy decides whether the principal may perform the action on the given resource.
+ * Other than roles and permissions, policies can take the attributes of the resource into account,
+ * e.g. who created it.
+ */
+export type PolicyHandler<T = unknown> = (
+  principal: Principal,
+  action: PolicyAction,
+  resource: T,
+) => boolean;
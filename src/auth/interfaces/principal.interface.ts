@@ -0,0 +1,8 @@
+/**
+ * The authenticated user, attached to the request object by the AuthGuard.
+ */
+export interface Principal {
+  id: string;
+  username: string;
+  roles: string[];
+}
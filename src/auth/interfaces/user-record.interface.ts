@@ -0,0 +1,10 @@
+/**
+ * A user of the configured user store.
+ * The password is never stored in plain text, see hashPassword() in users.service.ts.
+ */
+export interface UserRecord {
+  id: string;
+  username: string;
+  passwordHash: string;
+  roles: string[];
+}
@@ -0,0 +1,49 @@
+/**
+ * Roles inherit all roles listed here, e.g. an admin is an editor and therefore a viewer as well.
+ */
+export const ROLE_HIERARCHY: Record<string, string[]> = {
+  admin: ['editor'],
+  editor: ['viewer'],
+  viewer: [],
+};
+
+/**
+ * The permissions granted by each role, on top of the permissions of the inherited roles.
+ * Permissions are named <resource>:<action>.
+ */
+export const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: [],
+  editor: ['cats:create', 'cats:update', 'cats:delete'],
+  viewer: ['cats:read'],
+};
+
+/**
+ * @param roles the roles assigned to a user
+ * @returns the given roles plus all roles they inherit
+ */
+export function expandRoles(roles: string[]): Set<string> {
+  const expanded = new Set<string>();
+  const pending = [...roles];
+  while (pending.length > 0) {
+    const role = pending.pop();
+    if (!expanded.has(role)) {
+      expanded.add(role);
+      pending.push(...(ROLE_HIERARCHY[role] ?? []));
+    }
+  }
+  return expanded;
+}
+
+/**
+ * @param roles the roles assigned to a user
+ * @returns all permissions granted by the roles, including the inherited ones
+ */
+export function permissionsOf(roles: string[]): Set<string> {
+  const permissions = new Set<string>();
+  for (const role of expandRoles(roles)) {
+    for (const permission of ROLE_PERMISSIONS[role] ?? []) {
+      permissions.add(permission);
+    }
+  }
+  return permissions;
+}
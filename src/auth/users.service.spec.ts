@@ -0,0 +1,39 @@
+import * as crypto from 'crypto';
+import { hashPassword, UsersService } from '@auth/users.service';
+
+describe('UsersService', () => {
+  const alice = {
+    id: '1',
+    username: 'alice',
+    passwordHash: hashPassword('wonderland'),
+    roles: ['admin'],
+  };
+  const usersService = new UsersService({
+    keys: [{ kid: 'test', secret: 'secret' }],
+    activeKid: 'test',
+    issuer: 'cats-api',
+    audience: 'cats-api',
+    expiresIn: 60,
+    users: [alice],
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the user whose password matches', () => {
+    expect(usersService.validateCredentials('alice', 'wonderland')).toBe(alice);
+    expect(usersService.validateCredentials('alice', 'looking-glass')).toBe(
+      undefined,
+    );
+  });
+
+  it('hashes the password of an unknown user like the one of a known user', () => {
+    const scryptSync = jest.spyOn(crypto, 'scryptSync');
+
+    expect(usersService.validateCredentials('mallory', 'wonderland')).toBe(
+      undefined,
+    );
+    expect(scryptSync).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { AUTH_MODULE_OPTIONS } from '@auth/auth.constants';
+import { AuthModuleOptions } from '@auth/interfaces/auth-module-options.interface';
+import { UserRecord } from '@auth/interfaces/user-record.interface';
+
+const KEY_LENGTH = 64;
+
+/**
+ * Creates a password hash in the format expected by the user store: scrypt$<salt>$<hash>
+ * @param password
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+/**
+ * Verified instead of the hash of an unknown user, so the response time doesn't reveal which usernames exist.
+ * No password matches it, as it's the hash of a random password.
+ */
+const DUMMY_PASSWORD_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+/**
+ * A user store backed by the users configured for the AuthModule.
+ */
+@Injectable()
+export class UsersService {
+  constructor(
+    @Inject(AUTH_MODULE_OPTIONS) private readonly options: AuthModuleOptions,
+  ) {}
+
+  findByUsername(username: string): UserRecord | undefined {
+    return this.options.users.find((user) => user.username === username);
+  }
+
+  findById(id: string): UserRecord | undefined {
+    return this.options.users.find((user) => user.id === id);
+  }
+
+  /**
+   * @returns the user if the password matches, undefined otherwise
+   */
+  validateCredentials(
+    username: string,
+    password: string,
+  ): UserRecord | undefined {
+    const user = this.findByUsername(username);
+    const valid = this.verifyPassword(
+      password,
+      user?.passwordHash ?? DUMMY_PASSWORD_HASH,
+    );
+    return user && valid ? user : undefined;
+  }
+
+  /**
+   * timingSafeEqual() makes the comparison take the same time for every input,
+   * so the response time doesn't reveal how much of the hash matched.
+   */
+  private verifyPassword(password: string, passwordHash: string): boolean {
+    const [algorithm, salt, hash] = passwordHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    if (expected.length !== KEY_LENGTH) {
+      return false;
+    }
+    return timingSafeEqual(expected, scryptSync(password, salt, KEY_LENGTH));
+  }
+}
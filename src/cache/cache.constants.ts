@@ -0,0 +1 @@
+export const RESPONSE_CACHE_OPTIONS = 'RESPONSE_CACHE_OPTIONS';
@@ -0,0 +1,9 @@
+export interface CachedResponse {
+  /**
+   * Path and query of the request, used to invalidate the entries of a resource.
+   */
+  url: string;
+  body: unknown;
+  etag: string;
+  expiresAt: number;
+}
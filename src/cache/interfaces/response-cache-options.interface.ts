@@ -0,0 +1,24 @@
+import { ModuleMetadata } from '@nestjs/common';
+
+export interface ResponseCacheOptions {
+  /**
+   * Maximum number of cached responses. The least recently used response is evicted first.
+   */
+  maxSize: number;
+  /**
+   * Default time to live of a cached response in seconds, see @CacheTTL() to override it per route.
+   */
+  ttl: number;
+  /**
+   * Request headers which are part of the cache key, because the response depends on them.
+   */
+  varyHeaders: string[];
+}
+
+export interface ResponseCacheAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Partial<ResponseCacheOptions> | Promise<Partial<ResponseCacheOptions>>;
+  inject?: any[];
+}
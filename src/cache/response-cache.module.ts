@@ -0,0 +1,59 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { RESPONSE_CACHE_OPTIONS } from '@cache/cache.constants';
+import {
+  ResponseCacheAsyncOptions,
+  ResponseCacheOptions,
+} from '@cache/interfaces/response-cache-options.interface';
+import { ResponseCacheService } from '@cache/response-cache.service';
+
+/**
+ * Provides the store of the CacheInterceptor.
+ * The module is global, so there is a single store for the whole application
+ * and the CacheInterceptor can be bound in any module.
+ */
+const defaults: ResponseCacheOptions = {
+  maxSize: 500,
+  ttl: 60,
+  varyHeaders: ['accept', 'authorization', 'x-api-version'],
+};
+
+@Module({
+  providers: [ResponseCacheService],
+  exports: [ResponseCacheService],
+})
+export class ResponseCacheModule {
+  static forRoot(options: Partial<ResponseCacheOptions> = {}): DynamicModule {
+    return {
+      module: ResponseCacheModule,
+      global: true,
+      providers: [
+        {
+          provide: RESPONSE_CACHE_OPTIONS,
+          useValue: { ...defaults, ...options },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: ResponseCacheAsyncOptions): DynamicModule {
+    return {
+      module: ResponseCacheModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: RESPONSE_CACHE_OPTIONS,
+          useFactory: async (...args: unknown[]) => ({
+            ...defaults,
+            ...(await options.useFactory(...args)),
+          }),
+          inject: options.inject ?? [],
+        },
+      ],
+    };
+  }
+}
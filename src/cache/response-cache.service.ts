@@ -0,0 +1,63 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { RESPONSE_CACHE_OPTIONS } from '@cache/cache.constants';
+import { CachedResponse } from '@cache/interfaces/cached-response.interface';
+import { ResponseCacheOptions } from '@cache/interfaces/response-cache-options.interface';
+
+/**
+ * An in-memory LRU (least recently used) cache of responses.
+ *
+ * A Map iterates its keys in insertion order. Re-inserting an entry on every read
+ * keeps the least recently used entry at the beginning, which is evicted once the cache is full.
+ */
+@Injectable()
+export class ResponseCacheService {
+  private readonly entries = new Map<string, CachedResponse>();
+
+  constructor(
+    @Inject(RESPONSE_CACHE_OPTIONS)
+    private readonly options: ResponseCacheOptions,
+  ) {}
+
+  get defaultTtl(): number {
+    return this.options.ttl;
+  }
+
+  get varyHeaders(): string[] {
+    return this.options.varyHeaders;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CachedResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.options.maxSize) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  /**
+   * Removes all entries of the resource and its sub-resources,
+   * e.g. the path /cats removes /cats, /cats?limit=10 and /cats/1, but not /catsitters.
+   * @param path
+   */
+  invalidate(path: string): void {
+    for (const [key, { url }] of this.entries) {
+      const rest = url.slice(path.length);
+      if (url.startsWith(path) && (rest === '' || /^[/?]/.test(rest))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { parseRows, serializeCats } from '@cats/bulk/cat-formats';
+import { Cat } from '@cats/interfaces/cat.interface';
+import { InvalidImportException } from '@cats/exceptions/invalid-import.exception';
+
+async function* chunksOf<T>(...chunks: T[]) {
+  yield* chunks;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('cat formats', () => {
+  describe('parseRows', () => {
+    it('splits a JSON array across chunks, with brackets and quotes in strings', async () => {
+      const rows = await collect(
+        parseRows(
+          chunksOf('[{"name":"Tom ]\\"', '[,"},', ' {"name":"Kit', 'ty"} ]'),
+          'json',
+        ),
+      );
+
+      expect(rows).toEqual([
+        { row: 1, value: { name: 'Tom ]"[,' } },
+        { row: 2, value: { name: 'Kitty' } },
+      ]);
+    });
+
+    it('rejects content which is not a single JSON array', async () => {
+      await expect(
+        collect(parseRows(chunksOf('[{"name":"Tom"}'), 'json')),
+      ).rejects.toThrow(InvalidImportException);
+      await expect(
+        collect(parseRows(chunksOf('[1] 2'), 'json')),
+      ).rejects.toThrow(InvalidImportException);
+      await expect(
+        collect(parseRows(chunksOf('[1,,2]'), 'json')),
+      ).rejects.toThrow(InvalidImportException);
+    });
+
+    it('reports invalid JSON lines as row errors', async () => {
+      const rows = await collect(
+        parseRows(chunksOf('{"age":1}\n{"age":', '2}\r\nnope\n'), 'ndjson'),
+      );
+
+      expect(rows).toEqual([
+        { row: 1, value: { age: 1 } },
+        { row: 2, value: { age: 2 } },
+        { row: 3, error: expect.stringMatching(/^Invalid JSON/) },
+      ]);
+    });
+
+    it('decodes multi-byte characters split between chunks', async () => {
+      const bytes = Buffer.from('{"name":"Filou 🐈"}\n');
+      const rows = await collect(
+        parseRows(
+          chunksOf(bytes.subarray(0, 16), bytes.subarray(16)),
+          'ndjson',
+        ),
+      );
+
+      expect(rows).toEqual([{ row: 1, value: { name: 'Filou 🐈' } }]);
+    });
+
+    it('maps CSV records to objects named by the header', async () => {
+      const rows = await collect(
+        parseRows(
+          chunksOf(
+            'name,age\r\n"Tom, ""the"" cat",3\r\nKitty,\r\n',
+            'Filou\r\n',
+          ),
+          'csv',
+        ),
+      );
+
+      expect(rows).toEqual([
+        { row: 1, value: { name: 'Tom, "the" cat', age: '3' } },
+        { row: 2, value: { name: 'Kitty' } },
+        { row: 3, error: 'Expected 2 fields, but found 1' },
+      ]);
+    });
+  });
+
+  describe('serializeCats', () => {
+    const cats = [
+      {
+        id: 1,
+        name: 'Tom, the cat',
+        age: 3,
+        breed: 'Tabby',
+        owner: '1',
+        version: 1,
+      },
+    ];
+
+    it('writes an empty JSON array without cats', async () => {
+      expect(
+        (await collect(serializeCats(chunksOf<Cat>(), 'json'))).join(''),
+      ).toBe('[]\n');
+    });
+
+    it('quotes CSV fields with commas', async () => {
+      expect(
+        (await collect(serializeCats(chunksOf(...cats), 'csv'))).join(''),
+      ).toBe(
+        'id,name,age,breed,origin,owner\r\n1,"Tom, the cat",3,Tabby,,1\r\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { StringDecoder } from 'string_decoder';
+import { Cat } from '@cats/interfaces/cat.interface';
+import { InvalidImportException } from '@cats/exceptions/invalid-import.exception';
+
+/**
+ * The formats of bulk imports and exports:
+ * - json: a single JSON array of objects
+ * - ndjson: one JSON object per line (JSON Lines)
+ * - csv: comma separated values with a header row naming the members (RFC 4180)
+ */
+export type CatFormat = 'json' | 'ndjson' | 'csv';
+
+export const CAT_FORMATS: CatFormat[] = ['json', 'ndjson', 'csv'];
+
+export const CAT_FORMAT_MEDIA_TYPES: Record<CatFormat, string> = {
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv',
+};
+
+/**
+ * The members of an exported cat, which are the columns of a CSV export.
+ */
+const EXPORTED_MEMBERS: (keyof Cat)[] = [
+  'id',
+  'name',
+  'age',
+  'breed',
+  'origin',
+  'owner',
+];
+
+/**
+ * A row of an upload, either parsed into a value or with the reason why it couldn't be parsed.
+ */
+export interface ParsedRow {
+  row: number;
+  value?: unknown;
+  error?: string;
+}
+
+/**
+ * @param contentType the Content-Type header of an upload
+ * @returns the format or undefined if the media type isn't supported
+ */
+export function formatOfMediaType(contentType = ''): CatFormat | undefined {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (mediaType === 'application/jsonl') {
+    return 'ndjson';
+  }
+  return CAT_FORMATS.find(
+    (format) => CAT_FORMAT_MEDIA_TYPES[format] === mediaType,
+  );
+}
+
+/**
+ * Parses an upload row by row while it's being received, so only the current row is held in memory.
+ *
+ * A row which can't be parsed (e.g. a line of invalid JSON) is yielded with an error, the following rows are still read.
+ * If the upload as a whole is broken (e.g. the JSON array isn't closed), an InvalidImportException is thrown.
+ * @param chunks the raw upload, e.g. the request stream
+ * @param format
+ */
+export function parseRows(
+  chunks: AsyncIterable<Buffer | string>,
+  format: CatFormat,
+): AsyncIterable<ParsedRow> {
+  const text = decode(chunks);
+  switch (format) {
+    case 'json':
+      return parseJsonArray(text);
+    case 'ndjson':
+      return parseJsonLines(text);
+    case 'csv':
+      return parseCsv(text);
+  }
+}
+
+/**
+ * Serializes the cats one by one, so an export is sent while the cats are still being read.
+ * @param cats
+ * @param format
+ */
+export async function* serializeCats(
+  cats: AsyncIterable<Cat>,
+  format: CatFormat,
+): AsyncIterable<string> {
+  let first = true;
+  if (format === 'json') {
+    yield '[';
+  } else if (format === 'csv') {
+    yield `${EXPORTED_MEMBERS.join(',')}\r\n`;
+  }
+  for await (const cat of cats) {
+    switch (format) {
+      case 'json':
+        yield `${first ? '' : ','}\n${JSON.stringify(cat)}`;
+        break;
+      case 'ndjson':
+        yield `${JSON.stringify(cat)}\n`;
+        break;
+      case 'csv':
+        yield `${EXPORTED_MEMBERS.map((member) => csvField(cat[member])).join(
+          ',',
+        )}\r\n`;
+        break;
+    }
+    first = false;
+  }
+  if (format === 'json') {
+    yield first ? ']\n' : '\n]\n';
+  }
+}
+
+/**
+ * Multi-byte characters may be split between two chunks, the decoder holds back the incomplete bytes.
+ */
+async function* decode(
+  chunks: AsyncIterable<Buffer | string>,
+): AsyncIterable<string> {
+  const decoder = new StringDecoder('utf8');
+  for await (const chunk of chunks) {
+    yield typeof chunk === 'string' ? chunk : decoder.write(chunk);
+  }
+  yield decoder.end();
+}
+
+async function* lines(text: AsyncIterable<string>): AsyncIterable<string> {
+  let pending = '';
+  for await (const chunk of text) {
+    const parts = (pending + chunk).split('\n');
+    pending = parts.pop();
+    yield* parts;
+  }
+  yield pending;
+}
+
+async function* parseJsonLines(
+  text: AsyncIterable<string>,
+): AsyncIterable<ParsedRow> {
+  let row = 0;
+  for await (const line of lines(text)) {
+    if (line.trim() === '') {
+      continue;
+    }
+    row++;
+    yield parseJson(line, row);
+  }
+}
+
+/**
+ * Splits the top-level array into its elements by tracking the nesting depth and string literals,
+ * each element is then parsed by JSON.parse().
+ */
+async function* parseJsonArray(
+  text: AsyncIterable<string>,
+): AsyncIterable<ParsedRow> {
+  let state: 'before' | 'inside' | 'after' = 'before';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let element = '';
+  let row = 0;
+  for await (const chunk of text) {
+    for (const character of chunk) {
+      if (state !== 'inside') {
+        if (/\s/.test(character)) {
+          continue;
+        }
+        if (state === 'before' && character === '[') {
+          state = 'inside';
+          continue;
+        }
+        throw new InvalidImportException(
+          state === 'before'
+            ? 'The upload has to be a JSON array'
+            : 'Unexpected content after the JSON array',
+        );
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (character === '\\') {
+          escaped = true;
+        } else if (character === '"') {
+          inString = false;
+        }
+      } else if (depth === 0 && (character === ',' || character === ']')) {
+        if (element.trim() !== '') {
+          row++;
+          yield parseJson(element, row);
+        } else if (character === ',' || row > 0) {
+          throw new InvalidImportException(
+            `Missing element after row ${row} of the JSON array`,
+          );
+        }
+        element = '';
+        state = character === ']' ? 'after' : 'inside';
+        continue;
+      } else if (character === '"') {
+        inString = true;
+      } else if (character === '{' || character === '[') {
+        depth++;
+      } else if (character === '}' || character === ']') {
+        depth--;
+      }
+      element += character;
+    }
+  }
+  if (state !== 'after') {
+    throw new InvalidImportException('The JSON array is incomplete');
+  }
+}
+
+function parseJson(text: string, row: number): ParsedRow {
+  try {
+    return { row, value: JSON.parse(text) };
+  } catch (error) {
+    return { row, error: `Invalid JSON: ${error.message}` };
+  }
+}
+
+/**
+ * The first record names the members, each following record becomes an object with these members.
+ * Empty fields are left out, so they are reported as missing rather than as an empty string or 0.
+ */
+async function* parseCsv(
+  text: AsyncIterable<string>,
+): AsyncIterable<ParsedRow> {
+  let header: string[];
+  let row = 0;
+  for await (const record of csvRecords(text)) {
+    if (record.length === 1 && record[0] === '') {
+      continue;
+    }
+    if (!header) {
+      header = record.map((name) => name.trim());
+      continue;
+    }
+    row++;
+    if (record.length !== header.length) {
+      yield {
+        row,
+        error: `Expected ${header.length} fields, but found ${record.length}`,
+      };
+      continue;
+    }
+    const value: Record<string, string> = {};
+    header.forEach((name, index) => {
+      if (record[index] !== '') {
+        value[name] = record[index];
+      }
+    });
+    yield { row, value };
+  }
+  if (!header) {
+    throw new InvalidImportException('The CSV file has no header');
+  }
+}
+
+/**
+ * Splits CSV text into records of fields. Fields in double quotes may contain commas, line breaks
+ * and double quotes, which are escaped by doubling them ("").
+ */
+async function* csvRecords(
+  text: AsyncIterable<string>,
+): AsyncIterable<string[]> {
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let quoteSeen = false;
+  for await (const chunk of text) {
+    for (const character of chunk) {
+      if (quoted) {
+        if (character === '"') {
+          quoted = false;
+          quoteSeen = true;
+        } else {
+          field += character;
+        }
+        continue;
+      }
+      if (character === '"') {
+        // a doubled quote inside a quoted field
+        if (quoteSeen) {
+          field += '"';
+        }
+        quoted = true;
+      } else if (character === ',') {
+        record.push(field);
+        field = '';
+      } else if (character === '\n') {
+        record.push(field.replace(/\r$/, ''));
+        yield record;
+        record = [];
+        field = '';
+      } else {
+        field += character;
+      }
+      quoteSeen = false;
+    }
+  }
+  if (quoted) {
+    throw new InvalidImportException('A quoted CSV field is not closed');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field.replace(/\r$/, ''));
+    yield record;
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,170 @@
+import { Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CatsService } from '@cats/cats.service';
+import { ImportCatDto } from '@cats/dto/import-cat.dto';
+import { CatInput } from '@cats/interfaces/cat.interface';
+import {
+  ImportMode,
+  ImportReport,
+  RowError,
+} from '@cats/interfaces/import-report.interface';
+import { ImportRejectedException } from '@cats/exceptions/import-rejected.exception';
+import {
+  CatFormat,
+  ParsedRow,
+  parseRows,
+  serializeCats,
+} from '@cats/bulk/cat-formats';
+import { toFieldErrors } from '@pipes/custom-validation.pipe';
+import { throwIfAborted } from '@root/utils/abort';
+
+/**
+ * Best-effort imports are stored in batches of this size while the upload is still being read.
+ */
+const BATCH_SIZE = 100;
+
+interface ValidRow {
+  row: number;
+  input: CatInput;
+}
+
+/**
+ * Imports and exports cats in bulk, see cat-formats.ts for the supported formats.
+ *
+ * The rows of an import are validated one by one against the ImportCatDto, the CreateCatDto of POST /cats plus the origin.
+ * Members which aren't part of the DTO are ignored rather than rejected, so an export can be imported again
+ * (the id and the owner are assigned anew). The rows which pass the validation are handed to CatsService.createMany(),
+ * which checks the domain rules (e.g. unique names).
+ *
+ * - best-effort: the rows are created in batches while the upload is read, failed rows are skipped.
+ * - atomic: the valid rows are collected until the upload has been read completely. If any row fails,
+ *   nothing is created and an ImportRejectedException carries the report.
+ *   The domain rules are only checked once all rows passed the validation.
+ */
+@Injectable()
+export class CatsBulkService {
+  constructor(private readonly catsService: CatsService) {}
+
+  /**
+   * @param upload the raw upload, e.g. the request stream
+   * @param format
+   * @param owner the id of the importing user, who becomes the owner of the cats
+   * @param mode
+   * @param signal
+   * @returns a report with the number of created cats and the errors of the failed rows
+   */
+  async import(
+    upload: AsyncIterable<Buffer | string>,
+    format: CatFormat,
+    owner: string,
+    mode: ImportMode,
+    signal?: AbortSignal,
+  ): Promise<ImportReport> {
+    const report: ImportReport = {
+      mode,
+      rows: 0,
+      created: 0,
+      failed: 0,
+      errors: [],
+    };
+    let batch: ValidRow[] = [];
+    for await (const parsed of parseRows(upload, format)) {
+      throwIfAborted(signal);
+      report.rows++;
+      const result = await this.validate(parsed, format);
+      if (Array.isArray(result)) {
+        report.failed++;
+        report.errors.push(...result);
+        continue;
+      }
+      batch.push({ row: parsed.row, input: result });
+      if (mode === 'best-effort' && batch.length >= BATCH_SIZE) {
+        await this.createBatch(batch, owner, false, report, signal);
+        batch = [];
+      }
+    }
+
+    if (mode === 'best-effort' || report.failed === 0) {
+      await this.createBatch(batch, owner, mode === 'atomic', report, signal);
+    }
+    // the domain errors of a batch are found after the validation errors of later rows
+    report.errors.sort((a, b) => a.row - b.row);
+    if (mode === 'atomic' && report.failed > 0) {
+      throw new ImportRejectedException(report);
+    }
+    return report;
+  }
+
+  /**
+   * @param format
+   * @param signal
+   * @returns the serialized cats, which are read from the repository while they are being sent
+   */
+  export(format: CatFormat, signal?: AbortSignal): AsyncIterable<string> {
+    return serializeCats(this.catsService.iterate(signal), format);
+  }
+
+  /**
+   * @returns the input of the cat, or the errors of the row
+   */
+  private async validate(
+    { row, value, error }: ParsedRow,
+    format: CatFormat,
+  ): Promise<CatInput | RowError[]> {
+    if (error !== undefined) {
+      return [{ row, code: 'MALFORMED_ROW', message: error }];
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return [
+        { row, code: 'MALFORMED_ROW', message: 'A row has to be an object' },
+      ];
+    }
+    // CSV fields are strings, the types of the DTO's members decide how they are converted
+    const dto = plainToInstance(ImportCatDto, value, {
+      enableImplicitConversion: format === 'csv',
+    });
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) {
+      return toFieldErrors(errors).map(({ property, constraint, message }) => ({
+        row,
+        property,
+        code: constraint,
+        message,
+      }));
+    }
+    return {
+      name: dto.name,
+      age: dto.age,
+      breed: dto.breed,
+      origin: dto.origin,
+    };
+  }
+
+  private async createBatch(
+    batch: ValidRow[],
+    owner: string,
+    atomic: boolean,
+    report: ImportReport,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (batch.length === 0) {
+      return;
+    }
+    const { created, failures } = await this.catsService.createMany(
+      batch.map(({ input }) => input),
+      owner,
+      atomic,
+      signal,
+    );
+    report.created += created.length;
+    report.failed += failures.length;
+    report.errors.push(
+      ...failures.map(({ index, error }) => ({
+        row: batch[index].row,
+        code: error.code,
+        message: error.message,
+      })),
+    );
+  }
+}
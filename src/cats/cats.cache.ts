@@ -0,0 +1,42 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { ResponseCacheService } from '@cache/response-cache.service';
+import { CatsController } from '@cats/cats.controller';
+import { CAT_EVENT_TYPES } from '@cats/cats.constants';
+import { CatEventType } from '@cats/interfaces/cat-event.interface';
+import { EventBus } from '@events/event-bus';
+
+/**
+ * Removes the cached responses of the CatsController whenever a cat changes.
+ *
+ * The CacheInterceptor only sees the requests of its own controller, while cats are changed
+ * by GraphQL mutations and bulk imports as well. The cat events of the EventBus cover every transport,
+ * and they are delivered while the change is made, so the next GET doesn't find a stale body or ETag.
+ */
+@Injectable()
+export class CatsCacheInvalidator implements OnModuleInit, OnModuleDestroy {
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly eventBus: EventBus,
+    private readonly cache: ResponseCacheService,
+  ) {}
+
+  onModuleInit() {
+    const paths: string[] = Reflect.getMetadata(PATH_METADATA, CatsController);
+    this.subscription = this.eventBus
+      .events()
+      .pipe(
+        filter((event) => CAT_EVENT_TYPES.includes(event.type as CatEventType)),
+      )
+      .subscribe(() =>
+        paths.forEach((path) => this.cache.invalidate(`/${path}`)),
+      );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+}
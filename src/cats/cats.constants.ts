@@ -0,0 +1,20 @@
+import { CatEventType } from '@cats/interfaces/cat-event.interface';
+
+export const CATS_MODULE_OPTIONS = 'CATS_MODULE_OPTIONS';
+
+/**
+ * Every user may create 10 cats per minute, over REST and GraphQL alike.
+ */
+export const CREATE_LIMIT = { limit: 10, ttl: 60 };
+
+/**
+ * The types of the domain events published by the CatsService, see CatEventPayload.
+ */
+export const CAT_CREATED: CatEventType = 'cat.created';
+export const CAT_UPDATED: CatEventType = 'cat.updated';
+export const CAT_DELETED: CatEventType = 'cat.deleted';
+export const CAT_EVENT_TYPES: CatEventType[] = [
+  CAT_CREATED,
+  CAT_UPDATED,
+  CAT_DELETED,
+];
@@ -2,16 +2,84 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Patch,
+  Delete,
   Body,
+  Param,
+  Query,
+  Req,
+  Res,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
   UseGuards,
-  SetMetadata,
+  UseInterceptors,
+  UseFilters,
+  Version,
+  StreamableFile,
+  UnsupportedMediaTypeException,
+  Sse,
+  Headers,
+  MessageEvent,
 } from '@nestjs/common';
+import { Readable } from 'stream';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
 import { CreateCatDto } from '@cats/dto/create-cat.dto';
+import { UpdateCatDto } from '@cats/dto/update-cat.dto';
+import { ListCatsQueryDto } from '@cats/dto/list-cats-query.dto';
+import { Page } from '@cats/interfaces/page.interface';
+import { Request, Response } from 'express';
 import { CatsService } from '@cats/cats.service';
 import { Cat } from '@cats/interfaces/cat.interface';
+import { SendCatDTO } from '@cats/dto/send-cat.dto';
+import { CreateCatV2Dto } from '@cats/dto/create-cat-v2.dto';
+import { UpdateCatV2Dto } from '@cats/dto/update-cat-v2.dto';
+import { SendCatV2DTO } from '@cats/dto/send-cat-v2.dto';
+import { ImportCatsQueryDto } from '@cats/dto/import-cats-query.dto';
+import { ExportCatsQueryDto } from '@cats/dto/export-cats-query.dto';
+import { CatFeedFilterDto } from '@cats/dto/cat-feed-filter.dto';
+import { ImportReport } from '@cats/interfaces/import-report.interface';
+import { CatsBulkService } from '@cats/bulk/cats-bulk.service';
+import { CatFeedService } from '@cats/feed/cat-feed.service';
+import {
+  CAT_FORMAT_MEDIA_TYPES,
+  CAT_FORMATS,
+  formatOfMediaType,
+} from '@cats/bulk/cat-formats';
 import { CustomValidationPipe } from '@pipes/custom-validation.pipe';
+import { ParseIfMatchPipe } from '@pipes/parse-if-match.pipe';
+import { AuthGuard } from '@guards/auth.guard';
 import { RolesGuard } from '@guards/roles.guard';
+import { PoliciesGuard } from '@guards/policies.guard';
+import { ThrottleGuard } from '@guards/throttle.guard';
+import { CacheInterceptor } from '@interceptors/cache.interceptor';
+import { IdempotencyInterceptor } from '@interceptors/idempotency.interceptor';
+import { DomainExceptionFilter } from '@filters/domain-exception.filter';
 import { Roles } from '@decorators/roles.decorator';
+import { Permissions } from '@decorators/permissions.decorator';
+import { CheckPolicies } from '@decorators/check-policies.decorator';
+import { User } from '@decorators/user.decorator';
+import { Signal } from '@decorators/abort-signal.decorator';
+import { Throttle } from '@decorators/throttle.decorator';
+import { Idempotent } from '@decorators/idempotent.decorator';
+import { IfMatch } from '@decorators/if-match.decorator';
+import { ApiResponse } from '@decorators/api-response.decorator';
+import { CacheTTL } from '@decorators/cache-ttl.decorator';
+import { RawResponse } from '@decorators/raw-response.decorator';
+import { Timeout } from '@decorators/timeout.decorator';
+import { QueryToken } from '@decorators/query-token.decorator';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { assertSortable, isOwnerOrAdmin } from '@cats/cats.policies';
+import { CREATE_LIMIT } from '@cats/cats.constants';
+import { versionETag } from '@root/utils/etag';
+
+/**
+ * Imports may take much longer than the default timeout of the TimeoutInterceptor.
+ */
+const BULK_TIMEOUT = 5 * 60_000;
 
 /**
  * Binding guards
@@ -31,10 +99,36 @@ import { Roles } from '@decorators/roles.decorator';
  * (learn more here: https://docs.nestjs.com/fundamentals/execution-context#reflection-and-metadata).
  * Nest provides the ability to attach custom metadata to route handlers through the @SetMetadata() decorator.
  * This metadata supplies our missing role data, which a smart guard needs to make decisions.
- * --> Switch to route method createWithGuard() below!
+ * --> Switch to route method create() below!
+ *
+ * Guards are executed in the order they are listed.
+ * The AuthGuard runs first and attaches the authenticated user to the request, which the RolesGuard relies on.
+ * The ThrottleGuard limits the requests per user and route. It runs before the RolesGuard,
+ * so requests which are denied count as well. Creating cats has a lower limit than the other routes.
+ *
+ * Responses of the GET routes are cached by the CacheInterceptor.
+ * Every change of a cat invalidates the cached responses, whether it's made here or through GraphQL (see CatsCacheInvalidator).
+ * Creating a cat may be retried safely with an Idempotency-Key header (see IdempotencyInterceptor),
+ * a retry gets the response of the first request instead of creating the cat twice.
+ *
+ * A single cat is sent with its version as ETag. Changing or deleting a cat requires the ETag in the If-Match header
+ * (or * to skip the check): without it the request is answered with 428, with an outdated one with 412.
+ * This way, concurrent clients don't overwrite each other's changes without noticing (optimistic concurrency).
+ *
+ * The exceptions of the CatsService are translated into HTTP responses by the DomainExceptionFilter.
+ *
+ * Versioning
+ * The handlers belong to API version 1 unless they are marked with @Version(), which overrides the version
+ * of the controller. Version 2 represents the breed as an object (see CreateCatV2Dto), so it has its own handlers
+ * for the routes sending or receiving cats. Both versions are served side by side, see apiVersioning.
+ *
+ * The routes are described by the OpenAPI document (GET /openapi.json), which is generated from these decorators.
+ * Only the returned DTOs have to be declared with @ApiResponse(), since return types are erased at runtime.
  */
-@Controller('cats')
-@UseGuards(RolesGuard)
+@Controller({ path: ['cats', 'v1/cats', 'v2/cats'], version: '1' })
+@UseGuards(AuthGuard, ThrottleGuard, RolesGuard)
+@UseInterceptors(CacheInterceptor, IdempotencyInterceptor)
+@UseFilters(DomainExceptionFilter)
 export class CatsController {
   /**
    * In Nest, thanks to TypeScript capabilities, it's extremely easy to manage dependencies
@@ -44,25 +138,27 @@ export class CatsController {
    * This dependency is resolved and passed to your controller's constructor (or assigned to the indicated property).
    * @param catsService
    */
-  constructor(private catsService: CatsService) {}
+  constructor(
+    private catsService: CatsService,
+    private catsBulkService: CatsBulkService,
+    private catFeedService: CatFeedService,
+  ) {}
 
   /**
-   * With this construction, we attached the roles metadata
-   * (roles is a key, while ['admin'] is a particular value) to the create() method.
+   * With this construction, we attach the roles metadata
+   * (roles is a key, while ['admin'] is a particular value) to a route handler:
+   *
+   * @Post()
+   * @SetMetadata('roles', ['admin'])
+   * async create(@Body() createCatDto: CreateCatDto) { ... }
+   *
    * While this works, it's not good practice to use @SetMetadata() directly in your routes.
    * Instead, create your own decorators -> roles.decorators.ts
-   * Proceed --> route method createWithGuardAndCustomRole()
-   * @param createCatDto
-   */
-  @Post()
-  @SetMetadata('roles', ['admin'])
-  async createWithGuard(@Body() createCatDto: CreateCatDto) {
-    this.catsService.create(createCatDto);
-  }
-
-  /**
-   * This approach is much cleaner and more readable, and is strongly typed.
-   * Now that we have a custom @Roles() decorator, we can use it to decorate the create() method.
+   * This approach is much cleaner and more readable, and is strongly typed:
+   *
+   * @Post()
+   * @Roles('admin')
+   * async create(@Body() createCatDto: CreateCatDto) { ... }
    *
    * When a user with insufficient privileges requests an endpoint,
    * Nest automatically returns the following response:
@@ -71,15 +167,16 @@ export class CatsController {
    *   "message": "Forbidden resource",
    *   "error": "Forbidden"
    * }
-   * @param createCatDto
-   */
-  @Post()
-  @Roles('admin')
-  async createWithGuardAndCustomRole(@Body() createCatDto: CreateCatDto) {
-    this.catsService.create(createCatDto);
-  }
-
-  /**
+   *
+   * Besides roles, routes may require fine-grained permissions with @Permissions('cats:create').
+   * Roles inherit the roles below them (admin -> editor -> viewer) and the permissions granted to those,
+   * see ROLE_HIERARCHY and ROLE_PERMISSIONS in auth/roles.ts.
+   * By default, any of the listed roles and permissions is sufficient, @Match('all') requires all of them.
+   *
+   * Only one handler may serve a route: Express calls the first handler registered for POST /cats,
+   * a second @Post() handler in the same controller would never be reached.
+   * So create() is the only handler of POST /cats, it is open to every role granted 'cats:create'.
+   *
    * Custo Pipe with Class Validator
    * We want to ensure that any incoming request to the create method contains a valid body.
    * So we have to validate the three members of the createCatDto object.
@@ -112,6 +209,7 @@ export class CatsController {
    * Pipes can be parameter-scoped, method-scoped, controller-scoped, or global-scoped.
    * In the example below, we'll bind the pipe instance to the route handler @Body() decorator
    * so that our pipe is called to validate the post body.
+   * With the whitelist and forbidNonWhitelisted options, a body with unknown members (e.g. an id) is rejected.
    *
    * Global scoped pipes
    * Since the ValidationPipe was created to be as generic as possible,
@@ -135,12 +233,494 @@ export class CatsController {
    * @param createCatDto
    */
   @Post()
-  async create(@Body(new CustomValidationPipe()) createCatDto: CreateCatDto) {
-    this.catsService.create(createCatDto);
+  @Throttle(CREATE_LIMIT)
+  @Idempotent()
+  @Permissions('cats:create')
+  @ApiResponse({ type: SendCatDTO })
+  async create(
+    @Body(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    createCatDto: CreateCatDto,
+    @User() user: Principal,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatDTO> {
+    return new SendCatDTO(
+      await this.catsService.create(createCatDto, user.id, signal),
+    );
+  }
+
+  /**
+   * Query parameters are validated by a pipe just like the body.
+   * The pipe passes the ListCatsQueryDto instance with converted numbers and default values to the handler,
+   * unknown query parameters are stripped (whitelist).
+   *
+   * The response contains a link to the next page, built from the request's path and query.
+   * The cats are returned as SendCatDTOs, which hide the owner from viewers. For the same reason,
+   * viewers can't sort the cats by their owner (see assertSortable()).
+   *
+   * Like every handler of the CatsController, it passes the request's AbortSignal to the CatsService,
+   * so the work is cancelled once the TimeoutInterceptor gave up on the request.
+   * @param query
+   * @param request
+   * @param signal
+   */
+  @Get()
+  @Permissions('cats:read')
+  @ApiResponse({ type: SendCatDTO, page: true })
+  async findAll(
+    @Query(new CustomValidationPipe({ whitelist: true }))
+    query: ListCatsQueryDto,
+    @Req() request: Request,
+    @Signal() signal: AbortSignal,
+  ): Promise<Page<SendCatDTO>> {
+    return this.findPage(query, request, signal, (cat) => new SendCatDTO(cat));
+  }
+
+  /**
+   * Imports cats from a JSON array, JSON Lines (application/x-ndjson) or CSV (text/csv) upload,
+   * selected by the Content-Type header. The upload is read from the request stream, the body parsers
+   * skip this route (see useBodyParsers()), so uploads aren't limited in size and aren't held in memory.
+   *
+   * Each row is validated like the body of POST /cats. The response reports the number of created cats and the errors
+   * of the failed rows. In the default atomic mode, a single failed row rejects the whole import with a 422,
+   * ?mode=best-effort imports the valid rows anyway.
+   *
+   * The rows have the shape of version 1 (the breed is a string), which is accepted by every version.
+   * @param query
+   * @param request
+   * @param user
+   * @param signal
+   */
+  @Post('bulk')
+  @Version(['1', '2'])
+  @Permissions('cats:create')
+  @HttpCode(HttpStatus.OK)
+  @Timeout(BULK_TIMEOUT)
+  async import(
+    @Query(new CustomValidationPipe({ whitelist: true }))
+    query: ImportCatsQueryDto,
+    @Req() request: Request,
+    @User() user: Principal,
+    @Signal() signal: AbortSignal,
+  ): Promise<ImportReport> {
+    const format = formatOfMediaType(request.headers['content-type']);
+    if (!format) {
+      throw new UnsupportedMediaTypeException(
+        `Expected one of ${CAT_FORMATS.map(
+          (format) => CAT_FORMAT_MEDIA_TYPES[format],
+        ).join(', ')}`,
+      );
+    }
+    // if a body parser has already consumed the stream (e.g. in tests without useBodyParsers()), the parsed body is used
+    const upload = request.readableEnded
+      ? Readable.from([JSON.stringify(request.body)])
+      : request;
+    return this.catsBulkService.import(
+      upload,
+      format,
+      user.id,
+      query.mode,
+      signal,
+    );
+  }
+
+  /**
+   * Streams all cats as a file in the chosen format (?format=json|ndjson|csv, JSON Lines by default).
+   * The cats are read in pages while the response is sent, so the collection is never held in memory as a whole.
+   *
+   * The export contains the owners of the cats, which only editors may see (see SendCatDTO).
+   * It isn't cached, a cached copy would have to be held in memory.
+   * @param query
+   * @param signal
+   */
+  @Get('export')
+  @Version(['1', '2'])
+  @Roles('editor')
+  @CacheTTL(0)
+  @RawResponse()
+  exportCats(
+    @Query(new CustomValidationPipe({ whitelist: true }))
+    query: ExportCatsQueryDto,
+    @Signal() signal: AbortSignal,
+  ): StreamableFile {
+    const { format } = query;
+    return new StreamableFile(
+      Readable.from(this.catsBulkService.export(format, signal)),
+      {
+        type: CAT_FORMAT_MEDIA_TYPES[format],
+        disposition: `attachment; filename="cats.${
+          format === 'ndjson' ? 'jsonl' : format
+        }"`,
+      },
+    );
+  }
+
+  /**
+   * Server-Sent Events
+   * The @Sse() decorator turns the route into an event stream (Content-Type: text/event-stream).
+   * The handler returns an Observable, each MessageEvent it emits is written to the open response:
+   *
+   * id: 42
+   * event: cat.updated
+   * data: {"occurredAt":"2024-01-01T00:00:00.000Z","cat":{"id":1,"name":"Tom",...}}
+   *
+   * As the events are named, browsers receive them with eventSource.addEventListener('cat.updated', ...).
+   * A reconnecting EventSource sends the id of the last event it received as Last-Event-ID header,
+   * the events it missed in between are sent first (as long as the EventBus still buffers them).
+   *
+   * EventSource can't send an Authorization header, so the token may be passed as ?access_token= (see @QueryToken()).
+   * The stream stays open until the client disconnects, so it has no timeout and isn't cached.
+   * Nest opens the stream before the pipes run, so an invalid filter is reported as error event rather than a 400.
+   * @param query
+   * @param lastEventId
+   * @param user
+   */
+  @Sse('stream')
+  @Permissions('cats:read')
+  @QueryToken()
+  @CacheTTL(0)
+  @RawResponse()
+  @Timeout(0)
+  stream(
+    @Query(new CustomValidationPipe({ whitelist: true }))
+    query: CatFeedFilterDto,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @User() user: Principal,
+  ): Observable<MessageEvent> {
+    return this.streamEvents(query, lastEventId, user, '1');
+  }
+
+  /**
+   * Version 2 of stream().
+   * @param query
+   * @param lastEventId
+   * @param user
+   */
+  @Sse('stream')
+  @Version('2')
+  @Permissions('cats:read')
+  @QueryToken()
+  @CacheTTL(0)
+  @RawResponse()
+  @Timeout(0)
+  streamV2(
+    @Query(new CustomValidationPipe({ whitelist: true }))
+    query: CatFeedFilterDto,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @User() user: Principal,
+  ): Observable<MessageEvent> {
+    return this.streamEvents(query, lastEventId, user, '2');
+  }
+
+  /**
+   * An unknown id results in a 404, raised by the CatsService.
+   * @param id
+   * @param response
+   * @param signal
+   */
+  @Get(':id')
+  @Permissions('cats:read')
+  @ApiResponse({ type: SendCatDTO })
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Res({ passthrough: true }) response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatDTO> {
+    return new SendCatDTO(
+      this.withETag(await this.catsService.findOne(id, signal), response),
+    );
+  }
+
+  /**
+   * PUT replaces the whole cat, so the body is validated against the full CreateCatDto.
+   * Besides the permission, the PoliciesGuard makes sure that only the owner of the cat (or an admin) changes it.
+   *
+   * Clients of version 1 don't know the origin of the breed, so it's kept instead of being removed.
+   * @param id
+   * @param createCatDto
+   * @param expectedVersion the version of the If-Match header
+   * @param response
+   * @param signal
+   */
+  @Put(':id')
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  @ApiResponse({ type: SendCatDTO })
+  async replace(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    createCatDto: CreateCatDto,
+    @IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined,
+    @Res({ passthrough: true }) response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatDTO> {
+    return new SendCatDTO(
+      this.withETag(
+        await this.catsService.update(
+          id,
+          createCatDto,
+          expectedVersion,
+          signal,
+        ),
+        response,
+      ),
+    );
+  }
+
+  /**
+   * PATCH only changes the members that are sent, see UpdateCatDto.
+   * @param id
+   * @param updateCatDto
+   * @param expectedVersion
+   * @param response
+   * @param signal
+   */
+  @Patch(':id')
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  @ApiResponse({ type: SendCatDTO })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    updateCatDto: UpdateCatDto,
+    @IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined,
+    @Res({ passthrough: true }) response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatDTO> {
+    return new SendCatDTO(
+      this.withETag(
+        await this.catsService.update(
+          id,
+          updateCatDto,
+          expectedVersion,
+          signal,
+        ),
+        response,
+      ),
+    );
+  }
+
+  /**
+   * The @HttpCode() decorator changes the default status code (200) of the route handler.
+   * @param id
+   * @param expectedVersion
+   * @param signal
+   */
+  @Delete(':id')
+  @Version(['1', '2'])
+  @Permissions('cats:delete')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('delete', isOwnerOrAdmin)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined,
+    @Signal() signal: AbortSignal,
+  ): Promise<void> {
+    return this.catsService.remove(id, expectedVersion, signal);
+  }
+
+  /**
+   * Version 2 of create().
+   * @param createCatDto
+   * @param user
+   * @param signal
+   */
+  @Post()
+  @Version('2')
+  @Throttle(CREATE_LIMIT)
+  @Idempotent()
+  @Permissions('cats:create')
+  @ApiResponse({ type: SendCatV2DTO })
+  async createV2(
+    @Body(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    createCatDto: CreateCatV2Dto,
+    @User() user: Principal,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatV2DTO> {
+    return new SendCatV2DTO(
+      await this.catsService.create(
+        CreateCatV2Dto.toInput(createCatDto),
+        user.id,
+        signal,
+      ),
+    );
   }
 
+  /**
+   * Version 2 of findAll().
+   * @param query
+   * @param request
+   * @param signal
+   */
   @Get()
-  async findAll(): Promise<Cat[]> {
-    return this.catsService.findAll();
+  @Version('2')
+  @Permissions('cats:read')
+  @ApiResponse({ type: SendCatV2DTO, page: true })
+  async findAllV2(
+    @Query(new CustomValidationPipe({ whitelist: true }))
+    query: ListCatsQueryDto,
+    @Req() request: Request,
+    @Signal() signal: AbortSignal,
+  ): Promise<Page<SendCatV2DTO>> {
+    return this.findPage(
+      query,
+      request,
+      signal,
+      (cat) => new SendCatV2DTO(cat),
+    );
+  }
+
+  /**
+   * Version 2 of findOne().
+   * @param id
+   * @param response
+   * @param signal
+   */
+  @Get(':id')
+  @Version('2')
+  @Permissions('cats:read')
+  @ApiResponse({ type: SendCatV2DTO })
+  async findOneV2(
+    @Param('id', ParseIntPipe) id: number,
+    @Res({ passthrough: true }) response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatV2DTO> {
+    return new SendCatV2DTO(
+      this.withETag(await this.catsService.findOne(id, signal), response),
+    );
+  }
+
+  /**
+   * Version 2 of replace(), which replaces the origin as well.
+   * @param id
+   * @param createCatDto
+   * @param expectedVersion
+   * @param response
+   * @param signal
+   */
+  @Put(':id')
+  @Version('2')
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  @ApiResponse({ type: SendCatV2DTO })
+  async replaceV2(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    createCatDto: CreateCatV2Dto,
+    @IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined,
+    @Res({ passthrough: true }) response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatV2DTO> {
+    return new SendCatV2DTO(
+      this.withETag(
+        await this.catsService.replace(
+          id,
+          CreateCatV2Dto.toInput(createCatDto),
+          expectedVersion,
+          signal,
+        ),
+        response,
+      ),
+    );
+  }
+
+  /**
+   * Version 2 of update().
+   * @param id
+   * @param updateCatDto
+   * @param expectedVersion
+   * @param response
+   * @param signal
+   */
+  @Patch(':id')
+  @Version('2')
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  @ApiResponse({ type: SendCatV2DTO })
+  async updateV2(
+    @Param('id', ParseIntPipe) id: number,
+    @Body(
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    updateCatDto: UpdateCatV2Dto,
+    @IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined,
+    @Res({ passthrough: true }) response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendCatV2DTO> {
+    return new SendCatV2DTO(
+      this.withETag(
+        await this.catsService.update(
+          id,
+          UpdateCatV2Dto.toInput(updateCatDto),
+          expectedVersion,
+          signal,
+        ),
+        response,
+      ),
+    );
+  }
+
+  /**
+   * Sends the version of the cat as ETag, which the client passes to If-Match when it changes the cat.
+   */
+  private withETag(cat: Cat, response: Response): Cat {
+    response.setHeader('ETag', versionETag(cat.version));
+    return cat;
+  }
+
+  private streamEvents(
+    query: CatFeedFilterDto,
+    lastEventId: string | undefined,
+    user: Principal,
+    apiVersion: string,
+  ): Observable<MessageEvent> {
+    return this.catFeedService
+      .events(query, user, apiVersion, lastEventId ?? query.lastEventId)
+      .pipe(
+        map(({ id, type, occurredAt, cat }) => ({
+          id,
+          type,
+          data: { occurredAt, cat },
+        })),
+      );
+  }
+
+  private async findPage<T>(
+    query: ListCatsQueryDto,
+    request: AuthenticatedRequest,
+    signal: AbortSignal,
+    toDto: (cat: Cat) => T,
+  ): Promise<Page<T>> {
+    assertSortable(query, request.user);
+    const page = await this.catsService.findPage(query, signal);
+    return {
+      ...page,
+      items: page.items.map(toDto),
+      links: { next: this.nextLink(request, page) },
+    };
+  }
+
+  private nextLink(request: Request, page: Page<Cat>): string | null {
+    if (!page.nextCursor) {
+      return null;
+    }
+    const url = new URL(request.originalUrl, 'http://localhost');
+    url.searchParams.delete('offset');
+    url.searchParams.set('cursor', page.nextCursor);
+    return `${url.pathname}${url.search}`;
   }
 }
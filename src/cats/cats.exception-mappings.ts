@@ -0,0 +1,42 @@
+import { HttpStatus, UnprocessableEntityException } from '@nestjs/common';
+import { CatNotFoundException } from '@cats/exceptions/cat-not-found.exception';
+import { DuplicateCatException } from '@cats/exceptions/duplicate-cat.exception';
+import { InvalidCatStateException } from '@cats/exceptions/invalid-cat-state.exception';
+import { InvalidCursorException } from '@cats/exceptions/invalid-cursor.exception';
+import { QuotaExceededException } from '@cats/exceptions/quota-exceeded.exception';
+import { InvalidImportException } from '@cats/exceptions/invalid-import.exception';
+import { ImportRejectedException } from '@cats/exceptions/import-rejected.exception';
+import { PhotoNotFoundException } from '@cats/exceptions/photo-not-found.exception';
+import { InvalidPhotoException } from '@cats/exceptions/invalid-photo.exception';
+import { VersionConflictException } from '@cats/exceptions/version-conflict.exception';
+import { mapDomainException } from '@exceptions/domain-exception.mapping';
+import { ErrorMapping } from '@interceptors/interfaces/error-mapping.interface';
+
+/**
+ * The HTTP status codes of the exceptions raised by the CatsService.
+ */
+export const CATS_EXCEPTION_MAPPINGS: ErrorMapping[] = [
+  mapDomainException(CatNotFoundException, HttpStatus.NOT_FOUND),
+  mapDomainException(DuplicateCatException, HttpStatus.CONFLICT),
+  mapDomainException(InvalidCatStateException, HttpStatus.UNPROCESSABLE_ENTITY),
+  mapDomainException(QuotaExceededException, HttpStatus.FORBIDDEN),
+  mapDomainException(InvalidCursorException, HttpStatus.BAD_REQUEST),
+  mapDomainException(InvalidImportException, HttpStatus.BAD_REQUEST),
+  mapDomainException(PhotoNotFoundException, HttpStatus.NOT_FOUND),
+  mapDomainException(InvalidPhotoException, HttpStatus.UNPROCESSABLE_ENTITY),
+  mapDomainException(VersionConflictException, HttpStatus.PRECONDITION_FAILED),
+  // the report of the rejected import becomes part of the problem details
+  {
+    error: ImportRejectedException,
+    toException: (exception: ImportRejectedException) =>
+      new UnprocessableEntityException(
+        {
+          statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+          message: exception.message,
+          code: exception.code,
+          ...exception.report,
+        },
+        { cause: exception },
+      ),
+  },
+];
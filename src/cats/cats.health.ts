@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { HealthIndicator } from '@health/health-indicator';
+import { HealthCheckResult } from '@health/interfaces/health-report.interface';
+
+/**
+ * Tells the readiness probe whether the CatsService can reach its storage.
+ */
+@Injectable()
+export class CatsPersistenceHealthIndicator extends HealthIndicator {
+  readonly name = 'persistence';
+
+  constructor(private readonly catsRepository: CatsRepository) {
+    super();
+  }
+
+  async check(signal: AbortSignal): Promise<HealthCheckResult> {
+    await this.catsRepository.ping(signal);
+    return { status: 'up' };
+  }
+}
@@ -1,6 +1,42 @@
-import { Global, Module } from '@nestjs/common';
+import { DynamicModule, Global, Module, Provider } from '@nestjs/common';
 import { CatsController } from '@cats/cats.controller';
 import { CatsService } from '@cats/cats.service';
+import { CatsBulkService } from '@cats/bulk/cats-bulk.service';
+import { CatPhotosController } from '@cats/photos/cat-photos.controller';
+import { CatPhotosService } from '@cats/photos/cat-photos.service';
+import { CatFeedService } from '@cats/feed/cat-feed.service';
+import {
+  CatFeedGateway,
+  CatFeedV1Gateway,
+  CatFeedV2Gateway,
+} from '@cats/feed/cat-feed.gateway';
+import { CatsResolver } from '@cats/cats.resolver';
+import { CatsCacheInvalidator } from '@cats/cats.cache';
+import { CATS_MODULE_OPTIONS } from '@cats/cats.constants';
+import {
+  CatsModuleAsyncOptions,
+  CatsModuleOptions,
+} from '@cats/interfaces/cats-module-options.interface';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { createCatsRepository } from '@cats/repositories/cats-repository.factory';
+import { CATS_EXCEPTION_MAPPINGS } from '@cats/cats.exception-mappings';
+import { CatsPersistenceHealthIndicator } from '@cats/cats.health';
+import { ERROR_MAPPINGS } from '@interceptors/interceptors.constants';
+
+/**
+ * Factory providers
+ * The useFactory syntax allows for creating providers dynamically.
+ * The actual provider will be supplied by the value returned from a factory function.
+ * The inject property accepts an array of providers that Nest will resolve and pass as arguments
+ * to the factory function during the instantiation process.
+ * Here, the options decide which CatsRepository implementation the CatsService gets.
+ */
+const catsRepositoryProvider: Provider = {
+  provide: CatsRepository,
+  useFactory: (options: CatsModuleOptions) =>
+    createCatsRepository(options.persistence),
+  inject: [CATS_MODULE_OPTIONS],
+};
 
 /**
  * The CatsController and CatsService belong to the same application domain.
@@ -42,11 +78,73 @@ import { CatsService } from '@cats/cats.service';
  * The imports array is generally the preferred way to make the module's API available to consumers.
  */
 @Module({
-  controllers: [CatsController],
-  providers: [CatsService],
+  controllers: [CatsController, CatPhotosController],
+  providers: [
+    CatsService,
+    CatsBulkService,
+    // Served by the GraphQLModule of the GraphQLApiModule
+    CatsResolver,
+    // Requires the FileStorage of the StorageModule
+    CatPhotosService,
+    // Require the EventBus of the EventsModule
+    CatFeedService,
+    // Served by the WebSocket adapter of the application (see main.ts)
+    CatFeedGateway,
+    CatFeedV1Gateway,
+    CatFeedV2Gateway,
+    // Requires the ResponseCacheService of the ResponseCacheModule and the EventBus
+    CatsCacheInvalidator,
+    // Looked up by the HealthModule for the readiness probe
+    CatsPersistenceHealthIndicator,
+    // The mapping table of the DomainExceptionFilter, which is bound to the CatsController and the CatsResolver
+    { provide: ERROR_MAPPINGS, useValue: CATS_EXCEPTION_MAPPINGS },
+  ],
   exports: [CatsService],
 })
-export class CatsModule {}
+export class CatsModule {
+  /**
+   * Dynamic modules
+   * The static forRoot() method returns a dynamic module, which extends (rather than overrides)
+   * the base module metadata defined in the @Module() decorator.
+   * This lets the importing module configure the CatsModule, e.g. to select the persistence layer:
+   *
+   * @Module({
+   *   imports: [CatsModule.forRoot({ persistence: { driver: 'sqlite', path: 'data/cats.db' } })],
+   * })
+   * export class AppModule {}
+   *
+   * @param options
+   */
+  static forRoot(options: CatsModuleOptions): DynamicModule {
+    return {
+      module: CatsModule,
+      providers: [
+        { provide: CATS_MODULE_OPTIONS, useValue: options },
+        catsRepositoryProvider,
+      ],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved asynchronously by a factory,
+   * which may inject providers from the imported modules (e.g. a configuration service).
+   * @param options
+   */
+  static forRootAsync(options: CatsModuleAsyncOptions): DynamicModule {
+    return {
+      module: CatsModule,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: CATS_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+        catsRepositoryProvider,
+      ],
+    };
+  }
+}
 
 /**
  * Dependency injection
@@ -0,0 +1,45 @@
+import { PolicyHandler } from '@auth/interfaces/policy-handler.interface';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { expandRoles } from '@auth/roles';
+import { Cat } from '@cats/interfaces/cat.interface';
+import {
+  ListCatsQueryDto,
+  SORTABLE_FIELDS,
+} from '@cats/dto/list-cats-query.dto';
+import { ValidationFailedException } from '@exceptions/validation-failed.exception';
+
+/**
+ * Only the user who created the cat may change it. Admins may change every cat.
+ */
+export const isOwnerOrAdmin: PolicyHandler<Cat> = (principal, action, cat) =>
+  cat.owner === principal.id || expandRoles(principal.roles).has('admin');
+
+/**
+ * The id of the owning user is only revealed to editors (and admins, who inherit the editor role).
+ */
+export const mayReadOwner = (principal?: Principal): boolean =>
+  expandRoles(principal?.roles ?? []).has('editor');
+
+/**
+ * Sorting by the owner would give the owners away to users who may not read them:
+ * by the order of the cats, and by the cursor of the next page, which contains the sort value of the last cat.
+ * So users who may not read the owner can't sort by it either, the sort parameter is rejected like an unknown field.
+ * @param query
+ * @param principal
+ */
+export function assertSortable(
+  query: ListCatsQueryDto,
+  principal?: Principal,
+): void {
+  if (query.sort !== 'owner' || mayReadOwner(principal)) {
+    return;
+  }
+  const fields = SORTABLE_FIELDS.filter((field) => field !== 'owner');
+  throw new ValidationFailedException([
+    {
+      property: 'sort',
+      constraint: 'isIn',
+      message: `sort must be one of the following values: ${fields.join(', ')}`,
+    },
+  ]);
+}
@@ -0,0 +1,142 @@
+import { UseFilters, UseGuards } from '@nestjs/common';
+import {
+  Args,
+  Int,
+  Mutation,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from '@nestjs/graphql';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { CatsService } from '@cats/cats.service';
+import {
+  assertSortable,
+  isOwnerOrAdmin,
+  mayReadOwner,
+} from '@cats/cats.policies';
+import { CREATE_LIMIT } from '@cats/cats.constants';
+import { Cat } from '@cats/interfaces/cat.interface';
+import { Page } from '@cats/interfaces/page.interface';
+import { CatModel } from '@cats/models/cat.model';
+import { CatPageModel } from '@cats/models/cat-page.model';
+import { CreateCatInput } from '@cats/dto/create-cat.input';
+import { UpdateCatInput } from '@cats/dto/update-cat.input';
+import { ListCatsArgs } from '@cats/dto/list-cats.args';
+import { MAX_LIMIT } from '@cats/dto/list-cats-query.dto';
+import { CustomValidationPipe } from '@pipes/custom-validation.pipe';
+import { AuthGuard } from '@guards/auth.guard';
+import { RolesGuard } from '@guards/roles.guard';
+import { PoliciesGuard } from '@guards/policies.guard';
+import { ThrottleGuard } from '@guards/throttle.guard';
+import { DomainExceptionFilter } from '@filters/domain-exception.filter';
+import { Permissions } from '@decorators/permissions.decorator';
+import { CheckPolicies } from '@decorators/check-policies.decorator';
+import { Throttle } from '@decorators/throttle.decorator';
+import { User } from '@decorators/user.decorator';
+import { Signal } from '@decorators/abort-signal.decorator';
+
+/**
+ * The GraphQL counterpart of the CatsController, serving the same cats through the same CatsService.
+ *
+ * A resolver provides the instructions for turning a GraphQL operation into data.
+ * @Query() and @Mutation() methods resolve the fields of the root types, @ResolveField() methods
+ * the fields of a type (here: the owner of a Cat).
+ *
+ * Guards, pipes and filters are bound like on a controller, so the rules of the REST API apply:
+ * the token is checked by the AuthGuard, the permissions by the RolesGuard, the ownership by the PoliciesGuard,
+ * and the inputs are validated with the rules of the DTOs.
+ *
+ * Mutations have no If-Match header, the version of the cat is an optional argument instead.
+ * Given, the change fails with a VERSION_CONFLICT error if the cat has been changed since.
+ */
+@Resolver(() => CatModel)
+@UseGuards(AuthGuard, ThrottleGuard, RolesGuard)
+@UseFilters(DomainExceptionFilter)
+export class CatsResolver {
+  constructor(private readonly catsService: CatsService) {}
+
+  @Query(() => CatModel, { name: 'cat' })
+  @Permissions('cats:read')
+  async findOne(
+    @Args('id', { type: () => Int }) id: number,
+    @Signal() signal: AbortSignal,
+  ): Promise<Cat> {
+    return this.catsService.findOne(id, signal);
+  }
+
+  /**
+   * A page costs its limit times the cost of a cat, so the complexity limit caps the number of cats per operation.
+   * The complexity is estimated before the arguments are validated, so a limit above the maximum counts as the maximum,
+   * and is rejected by the CustomValidationPipe like in GET /cats.
+   * Like GET /cats, only editors may sort by the owner.
+   */
+  @Query(() => CatPageModel, {
+    name: 'cats',
+    complexity: ({ args, childComplexity }) =>
+      Math.min(args.limit ?? new ListCatsArgs().limit, MAX_LIMIT) *
+      childComplexity,
+  })
+  @Permissions('cats:read')
+  async findAll(
+    @Args(new CustomValidationPipe({ whitelist: true })) args: ListCatsArgs,
+    @User() user: Principal,
+    @Signal() signal: AbortSignal,
+  ): Promise<Page<Cat>> {
+    assertSortable(args, user);
+    return this.catsService.findPage(args, signal);
+  }
+
+  @Mutation(() => CatModel)
+  @Throttle(CREATE_LIMIT)
+  @Permissions('cats:create')
+  async createCat(
+    @Args('input', new CustomValidationPipe({ whitelist: true }))
+    input: CreateCatInput,
+    @User() user: Principal,
+    @Signal() signal: AbortSignal,
+  ): Promise<Cat> {
+    return this.catsService.create(input, user.id, signal);
+  }
+
+  /**
+   * The PoliciesGuard takes the id from the arguments of the mutation.
+   */
+  @Mutation(() => CatModel)
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  async updateCat(
+    @Args('id', { type: () => Int }) id: number,
+    @Args('input', new CustomValidationPipe({ whitelist: true }))
+    input: UpdateCatInput,
+    @Args('version', { type: () => Int, nullable: true })
+    version: number | undefined,
+    @Signal() signal: AbortSignal,
+  ): Promise<Cat> {
+    return this.catsService.update(id, input, version ?? undefined, signal);
+  }
+
+  @Mutation(() => Boolean)
+  @Permissions('cats:delete')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('delete', isOwnerOrAdmin)
+  async deleteCat(
+    @Args('id', { type: () => Int }) id: number,
+    @Args('version', { type: () => Int, nullable: true })
+    version: number | undefined,
+    @Signal() signal: AbortSignal,
+  ): Promise<boolean> {
+    await this.catsService.remove(id, version ?? undefined, signal);
+    return true;
+  }
+
+  /**
+   * The id of the owning user is only revealed to editors (and admins, who inherit the editor role),
+   * everybody else gets null.
+   */
+  @ResolveField(() => String, { nullable: true })
+  owner(@Parent() cat: Cat, @User() user: Principal): string | null {
+    return mayReadOwner(user) ? cat.owner : null;
+  }
+}
@@ -0,0 +1,367 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Provider } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CatsService } from '@cats/cats.service';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { createCatsRepository } from '@cats/repositories/cats-repository.factory';
+import { CatsPersistenceOptions } from '@cats/interfaces/cats-module-options.interface';
+import { ListCatsQueryDto } from '@cats/dto/list-cats-query.dto';
+import { AbortError } from '@root/utils/abort';
+import { CATS_MODULE_OPTIONS } from '@cats/cats.constants';
+import { CatNotFoundException } from '@cats/exceptions/cat-not-found.exception';
+import { DuplicateCatException } from '@cats/exceptions/duplicate-cat.exception';
+import { InvalidCatStateException } from '@cats/exceptions/invalid-cat-state.exception';
+import { InvalidCursorException } from '@cats/exceptions/invalid-cursor.exception';
+import { QuotaExceededException } from '@cats/exceptions/quota-exceeded.exception';
+import { VersionConflictException } from '@cats/exceptions/version-conflict.exception';
+import { CatPhotosService } from '@cats/photos/cat-photos.service';
+import { EventBus } from '@events/event-bus';
+
+/**
+ * The CatsService is tested with each persistence driver, so all of them fulfill the CatsRepository contract.
+ * The JSON files are written to a temporary directory, SQLite keeps the database in memory.
+ */
+describe.each<CatsPersistenceOptions['driver']>(['memory', 'json', 'sqlite'])(
+  'CatsService (%s)',
+  (driver) => {
+    let catsService: CatsService;
+    let directory: string;
+    let files = 0;
+    const apps: TestingModule[] = [];
+    const tom = { name: 'Tom', age: 3, breed: 'Tabby' };
+    const kitty = { name: 'Kitty', age: 1, breed: 'Siamese' };
+    const leo = { name: 'Leo', age: 2, breed: 'Persian' };
+
+    /**
+     * Every repository gets a file of its own, so the services of a test don't share their cats.
+     */
+    const repositoryProvider = () => ({
+      provide: CatsRepository,
+      useFactory: () => {
+        const persistence: CatsPersistenceOptions =
+          driver === 'memory'
+            ? { driver }
+            : driver === 'json'
+            ? { driver, path: join(directory, `cats-${++files}.json`) }
+            : { driver, path: ':memory:' };
+        return createCatsRepository(persistence);
+      },
+    });
+
+    const compile = async (providers: Provider[]) => {
+      const app = await Test.createTestingModule({
+        providers: [CatsService, repositoryProvider(), ...providers],
+      }).compile();
+      apps.push(app);
+      return app.get<CatsService>(CatsService);
+    };
+
+    beforeEach(async () => {
+      directory = mkdtempSync(join(tmpdir(), 'cats-'));
+      catsService = await compile([]);
+    });
+
+    afterEach(async () => {
+      // closing the modules closes the SQLite databases
+      await Promise.all(apps.splice(0).map((app) => app.close()));
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    describe('create', () => {
+      it('should assign stable ids', async () => {
+        const created = await catsService.create(tom, 'alice');
+        const other = await catsService.create(kitty, 'alice');
+        await catsService.remove(created.id);
+
+        expect(await catsService.findOne(other.id)).toEqual(other);
+        expect((await catsService.create(leo, 'alice')).id).toBe(3);
+      });
+
+      it('should record the owner', async () => {
+        expect(await catsService.create(tom, 'alice')).toEqual({
+          id: 1,
+          ...tom,
+          owner: 'alice',
+          version: 1,
+        });
+      });
+
+      it('should not create a cat once the signal is aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(
+          catsService.create(tom, 'alice', controller.signal),
+        ).rejects.toBeInstanceOf(AbortError);
+        expect(await catsService.findAll()).toEqual([]);
+      });
+    });
+
+    describe('createMany', () => {
+      it('should report the cats breaking a rule and create the others', async () => {
+        await catsService.create(tom, 'alice');
+
+        const { created, failures } = await catsService.createMany(
+          [kitty, tom, { ...leo, age: -1 }, { ...kitty, name: 'KITTY' }, leo],
+          'alice',
+          false,
+        );
+
+        expect(created.map(({ id, name }) => [id, name])).toEqual([
+          [2, 'Kitty'],
+          [3, 'Leo'],
+        ]);
+        expect(
+          failures.map(({ index, error }) => [index, error.constructor]),
+        ).toEqual([
+          [1, DuplicateCatException],
+          [2, InvalidCatStateException],
+          [3, DuplicateCatException],
+        ]);
+      });
+
+      it('should create none of the cats if one fails in atomic mode', async () => {
+        const { created, failures } = await catsService.createMany(
+          [kitty, leo, { ...tom, name: '' }],
+          'alice',
+          true,
+        );
+
+        expect(created).toEqual([]);
+        expect(failures.map(({ index }) => index)).toEqual([2]);
+        expect(await catsService.findAll()).toEqual([]);
+      });
+    });
+
+    describe('update', () => {
+      it('should only change the given members', async () => {
+        const created = await catsService.create(tom, 'alice');
+
+        expect(await catsService.update(created.id, { age: 4 })).toEqual({
+          ...created,
+          age: 4,
+          version: 2,
+        });
+      });
+    });
+
+    describe('replace', () => {
+      it('should replace all members but the id and the owner', async () => {
+        const created = await catsService.create(tom, 'alice');
+
+        expect(await catsService.replace(created.id, leo)).toEqual({
+          id: created.id,
+          ...leo,
+          owner: 'alice',
+          version: 2,
+        });
+      });
+    });
+
+    describe('versions', () => {
+      it('should reject changes of an outdated version', async () => {
+        const created = await catsService.create(tom, 'alice');
+        await catsService.update(created.id, { age: 4 }, 1);
+
+        await expect(
+          catsService.update(created.id, { age: 5 }, 1),
+        ).rejects.toThrow(VersionConflictException);
+        await expect(catsService.replace(created.id, leo, 1)).rejects.toThrow(
+          VersionConflictException,
+        );
+        await expect(catsService.remove(created.id, 1)).rejects.toThrow(
+          VersionConflictException,
+        );
+        expect(await catsService.findOne(created.id)).toMatchObject({
+          age: 4,
+          version: 2,
+        });
+      });
+
+      it('should let only one of two concurrent changes of a version win', async () => {
+        const created = await catsService.create(tom, 'alice');
+
+        const results = await Promise.allSettled([
+          catsService.update(created.id, { age: 4 }, 1),
+          catsService.update(created.id, { age: 5 }, 1),
+        ]);
+
+        expect(results.map(({ status }) => status).sort()).toEqual([
+          'fulfilled',
+          'rejected',
+        ]);
+        expect(
+          results.find((result) => result.status === 'rejected'),
+        ).toMatchObject({ reason: expect.any(VersionConflictException) });
+        expect((await catsService.findOne(created.id)).version).toBe(2);
+      });
+
+      it('should change any version without an expected one', async () => {
+        const created = await catsService.create(tom, 'alice');
+        await catsService.update(created.id, { age: 4 });
+
+        await catsService.remove(created.id);
+
+        expect(await catsService.findAll()).toEqual([]);
+      });
+    });
+
+    describe('findPage', () => {
+      const query = (values: Partial<ListCatsQueryDto>) =>
+        Object.assign(new ListCatsQueryDto(), values);
+
+      beforeEach(async () => {
+        await catsService.create(tom, 'alice');
+        await catsService.create(kitty, 'alice');
+        await catsService.create(leo, 'alice');
+        await catsService.create({ ...tom, name: 'Tiger', age: 5 }, 'alice');
+      });
+
+      it('should filter by name prefix and age range', async () => {
+        const page = await catsService.findPage(
+          query({ namePrefix: 't', minAge: 4 }),
+        );
+
+        expect(page.items.map(({ name }) => name)).toEqual(['Tiger']);
+        expect(page.total).toBe(1);
+      });
+
+      it('should follow the cursor through the sorted cats', async () => {
+        const first = await catsService.findPage(
+          query({ limit: 3, sort: 'age', order: 'desc' }),
+        );
+        const second = await catsService.findPage(
+          query({
+            limit: 3,
+            sort: 'age',
+            order: 'desc',
+            cursor: first.nextCursor,
+          }),
+        );
+
+        expect(first.items.map(({ name }) => name)).toEqual([
+          'Tiger',
+          'Tom',
+          'Leo',
+        ]);
+        expect(second.items.map(({ name }) => name)).toEqual(['Kitty']);
+        expect(second.nextCursor).toBeNull();
+      });
+
+      it('should reject a cursor of another sort order', async () => {
+        const { nextCursor } = await catsService.findPage(query({ limit: 1 }));
+
+        await expect(
+          catsService.findPage(query({ sort: 'name', cursor: nextCursor })),
+        ).rejects.toThrow(InvalidCursorException);
+      });
+    });
+
+    describe('unknown ids', () => {
+      it('should throw a CatNotFoundException', async () => {
+        await expect(catsService.findOne(42)).rejects.toThrow(
+          CatNotFoundException,
+        );
+        await expect(catsService.update(42, { age: 4 })).rejects.toThrow(
+          CatNotFoundException,
+        );
+        await expect(catsService.replace(42, leo)).rejects.toThrow(
+          CatNotFoundException,
+        );
+        await expect(catsService.remove(42)).rejects.toThrow(
+          CatNotFoundException,
+        );
+      });
+    });
+
+    describe('remove', () => {
+      it('should delete the photos of the cat', async () => {
+        const catPhotosService = { removeAll: jest.fn() };
+        const service = await compile([
+          { provide: CatPhotosService, useValue: catPhotosService },
+        ]);
+        const created = await service.create(tom, 'alice');
+
+        await service.remove(created.id);
+
+        expect(catPhotosService.removeAll).toHaveBeenCalledWith(created.id);
+        await expect(service.remove(created.id)).rejects.toThrow(
+          CatNotFoundException,
+        );
+        expect(catPhotosService.removeAll).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('events', () => {
+      it('should publish the changes of the cats', async () => {
+        const eventBus = { publish: jest.fn() };
+        const service = await compile([
+          { provide: EventBus, useValue: eventBus },
+        ]);
+
+        const created = await service.create(tom, 'alice');
+        const updated = await service.update(created.id, { age: 4 });
+        await service.remove(created.id);
+        await expect(service.update(created.id, { age: 5 })).rejects.toThrow(
+          CatNotFoundException,
+        );
+
+        expect(eventBus.publish.mock.calls).toEqual([
+          ['cat.created', { cat: created }],
+          ['cat.updated', { cat: updated, previous: created }],
+          ['cat.deleted', { cat: updated }],
+        ]);
+      });
+    });
+
+    describe('invariants', () => {
+      it('should reject a second cat with the same name of the same owner', async () => {
+        const created = await catsService.create(tom, 'alice');
+        await catsService.create(tom, 'bob');
+        const other = await catsService.create(kitty, 'alice');
+
+        await expect(
+          catsService.create({ ...leo, name: 'TOM' }, 'alice'),
+        ).rejects.toThrow(DuplicateCatException);
+        await expect(
+          catsService.update(other.id, { name: 'Tom' }),
+        ).rejects.toThrow(DuplicateCatException);
+        expect(await catsService.replace(created.id, tom)).toEqual({
+          ...created,
+          version: 2,
+        });
+      });
+
+      it('should reject invalid cats', async () => {
+        await expect(
+          catsService.create({ ...tom, age: -1 }, 'alice'),
+        ).rejects.toThrow(InvalidCatStateException);
+        await expect(
+          catsService.create({ ...tom, name: ' ' }, 'alice'),
+        ).rejects.toThrow(InvalidCatStateException);
+        await expect(
+          catsService.create({ ...tom, name: 5 as unknown as string }, 'alice'),
+        ).rejects.toThrow(InvalidCatStateException);
+      });
+
+      it('should limit the number of cats per owner', async () => {
+        const limitedService = await compile([
+          {
+            provide: CATS_MODULE_OPTIONS,
+            useValue: { persistence: { driver }, maxCatsPerOwner: 2 },
+          },
+        ]);
+
+        await limitedService.create(tom, 'alice');
+        await limitedService.create(kitty, 'alice');
+        await limitedService.create(leo, 'bob');
+
+        await expect(limitedService.create(leo, 'alice')).rejects.toThrow(
+          QuotaExceededException,
+        );
+      });
+    });
+  },
+);
@@ -1,19 +1,457 @@
-import { Injectable } from '@nestjs/common';
-import { Cat } from '@cats/interfaces/cat.interface';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { Cat, CatInput } from '@cats/interfaces/cat.interface';
+import { ListCatsQueryDto, SortOrder } from '@cats/dto/list-cats-query.dto';
+import { Page } from '@cats/interfaces/page.interface';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import {
+  CATS_MODULE_OPTIONS,
+  CAT_CREATED,
+  CAT_DELETED,
+  CAT_UPDATED,
+} from '@cats/cats.constants';
+import { CatsModuleOptions } from '@cats/interfaces/cats-module-options.interface';
+import { CatNotFoundException } from '@cats/exceptions/cat-not-found.exception';
+import { DuplicateCatException } from '@cats/exceptions/duplicate-cat.exception';
+import { InvalidCatStateException } from '@cats/exceptions/invalid-cat-state.exception';
+import { InvalidCursorException } from '@cats/exceptions/invalid-cursor.exception';
+import { QuotaExceededException } from '@cats/exceptions/quota-exceeded.exception';
+import { VersionConflictException } from '@cats/exceptions/version-conflict.exception';
+import {
+  BatchFailure,
+  BatchResult,
+} from '@cats/interfaces/batch-result.interface';
+import { DomainException } from '@exceptions/domain.exception';
+import { CatPhotosService } from '@cats/photos/cat-photos.service';
+import {
+  CatEventPayload,
+  CatEventType,
+} from '@cats/interfaces/cat-event.interface';
+import { EventBus } from '@events/event-bus';
 
+/**
+ * Cats are stored by a server-assigned id.
+ * Ids are never reused, so removing a cat doesn't shift the ids of the remaining cats.
+ *
+ * The CatsService doesn't know how the cats are persisted,
+ * the CatsRepository implementation is selected by the CatsModule configuration.
+ *
+ * Every method accepts the AbortSignal of the request (see TimeoutInterceptor) and hands it to the repository,
+ * so nothing is written anymore after the request has timed out or the client has gone away.
+ *
+ * Changes are logged through the application's logger, which adds the id of the request to the entries.
+ * They are published on the EventBus as well (cat.created, cat.updated and cat.deleted), e.g. for the change feed.
+ *
+ * Changes are optimistic: replace(), update() and remove() accept the version of the cat the client has seen
+ * and raise a VersionConflictException if the cat has been changed since. The version is checked again by the
+ * repository when the change is stored, so a concurrent change between reading and writing is detected as well.
+ *
+ * Errors are reported with domain exceptions (see cats/exceptions) rather than HTTP exceptions,
+ * so the service can be used by other transports as well. CATS_EXCEPTION_MAPPINGS translates them for HTTP.
+ */
 @Injectable()
 export class CatsService {
-  private readonly cats: Cat[] = [];
+  private readonly logger = new Logger(CatsService.name);
 
-  create(cat: Cat) {
-    this.cats.push(cat);
+  constructor(
+    private readonly catsRepository: CatsRepository,
+    @Optional()
+    @Inject(CATS_MODULE_OPTIONS)
+    private readonly options?: CatsModuleOptions,
+    @Optional()
+    private readonly catPhotosService?: CatPhotosService,
+    @Optional()
+    private readonly eventBus?: EventBus,
+  ) {}
+
+  /**
+   * @param input
+   * @param owner the id of the user creating the cat, which is recorded for ownership checks
+   * @param signal
+   * @returns the created cat
+   */
+  async create(
+    input: CatInput,
+    owner: string,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    const candidate = {
+      name: input.name,
+      age: input.age,
+      breed: input.breed,
+      origin: input.origin,
+      owner,
+    };
+    this.assertValid(candidate);
+    const cats = await this.catsRepository.findAll(signal);
+    this.assertUnique(candidate, cats);
+    this.assertQuota(owner, cats);
+
+    const cat = await this.catsRepository.create(candidate, signal);
+    this.logger.log({ message: 'Cat created', catId: cat.id, owner });
+    this.publish(CAT_CREATED, cat);
+    return cat;
+  }
+
+  /**
+   * Creates several cats of the same owner, e.g. for a bulk import.
+   *
+   * Each cat is checked like by create(), the names have to be unique among the new cats as well
+   * and the quota counts all of them. A cat which breaks a rule is reported with its index instead of being created.
+   * The remaining cats are stored in one go (see CatsRepository.createMany()).
+   * With atomic, a single failure prevents all cats of the batch from being created.
+   * @param inputs
+   * @param owner
+   * @param atomic
+   * @param signal
+   */
+  async createMany(
+    inputs: CatInput[],
+    owner: string,
+    atomic: boolean,
+    signal?: AbortSignal,
+  ): Promise<BatchResult> {
+    const cats = await this.catsRepository.findAll(signal);
+    const candidates: Omit<Cat, 'id' | 'version'>[] = [];
+    const failures: BatchFailure[] = [];
+    inputs.forEach((input, index) => {
+      const candidate = {
+        name: input.name,
+        age: input.age,
+        breed: input.breed,
+        origin: input.origin,
+        owner,
+      };
+      try {
+        this.assertValid(candidate);
+        this.assertUnique(candidate, cats);
+        this.assertQuota(owner, cats);
+      } catch (error) {
+        if (error instanceof DomainException) {
+          failures.push({ index, error });
+          return;
+        }
+        throw error;
+      }
+      candidates.push(candidate);
+      // counted by the checks of the following cats of the batch, with a placeholder id
+      cats.push({ id: -1 - index, ...candidate, version: 1 });
+    });
+    if (candidates.length === 0 || (atomic && failures.length > 0)) {
+      return { created: [], failures };
+    }
+
+    const created = await this.catsRepository.createMany(candidates, signal);
+    this.logger.log({
+      message: 'Cats created',
+      catIds: created.map(({ id }) => id),
+      owner,
+    });
+    created.forEach((cat) => this.publish(CAT_CREATED, cat));
+    return { created, failures };
+  }
+
+  async findAll(signal?: AbortSignal): Promise<Cat[]> {
+    return this.catsRepository.findAll(signal);
+  }
+
+  /**
+   * Yields all cats ordered by id, e.g. for an export. See CatsRepository.iterate().
+   * @param signal
+   */
+  iterate(signal?: AbortSignal): AsyncIterable<Cat> {
+    return this.catsRepository.iterate(signal);
+  }
+
+  /**
+   * Filters, sorts and paginates the cats.
+   *
+   * Cats with equal values in the sort field are ordered by their id,
+   * so the order is stable and a cursor always points to a unique position.
+   * Other than an offset, a cursor keeps pointing to the same position when cats are added or removed before it.
+   * @param query
+   * @param signal
+   * @returns one page of cats
+   */
+  async findPage(
+    query: ListCatsQueryDto,
+    signal?: AbortSignal,
+  ): Promise<Page<Cat>> {
+    const { limit, sort, order } = query;
+    const cats = (await this.catsRepository.findAll(signal))
+      .filter((cat) => this.matches(cat, query))
+      .sort((a, b) => this.compare(a, b, sort, order));
+
+    let offset = query.offset;
+    if (query.cursor) {
+      const position = this.decodeCursor(query.cursor, sort, order);
+      offset = cats.findIndex(
+        (cat) => this.compare(cat, position, sort, order) > 0,
+      );
+      if (offset < 0) {
+        offset = cats.length;
+      }
+    }
+
+    const items = cats.slice(offset, offset + limit);
+    const hasMore = offset + items.length < cats.length;
+    return {
+      items,
+      total: cats.length,
+      limit,
+      offset,
+      nextCursor: hasMore
+        ? this.encodeCursor(items[items.length - 1], sort, order)
+        : null,
+    };
+  }
+
+  /**
+   * An unknown id raises a CatNotFoundException, which is answered with a 404 over HTTP,
+   * instead of sending an empty body.
+   * @param id
+   * @param signal
+   * @returns the cat with the given id
+   */
+  async findOne(id: number, signal?: AbortSignal): Promise<Cat> {
+    const cat = await this.catsRepository.findOne(id, signal);
+    if (!cat) {
+      throw new CatNotFoundException(id);
+    }
+    return cat;
+  }
+
+  /**
+   * Replaces all members of an existing cat (PUT semantics), except for its owner.
+   * @param id
+   * @param input
+   * @param expectedVersion the version the cat must have, any version if undefined
+   * @param signal
+   * @returns the replaced cat
+   */
+  async replace(
+    id: number,
+    input: CatInput,
+    expectedVersion?: number,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    const existing = await this.findVersion(id, expectedVersion, signal);
+    const cat = await this.save(
+      {
+        id,
+        name: input.name,
+        age: input.age,
+        breed: input.breed,
+        origin: input.origin,
+        owner: existing.owner,
+        version: existing.version,
+      },
+      signal,
+    );
+    this.logger.log({ message: 'Cat replaced', catId: id });
+    this.publish(CAT_UPDATED, cat, existing);
+    return cat;
+  }
+
+  /**
+   * Changes only the members present in the input (PATCH semantics).
+   * @param id
+   * @param changes
+   * @param expectedVersion the version the cat must have, any version if undefined
+   * @param signal
+   * @returns the updated cat
+   */
+  async update(
+    id: number,
+    changes: Partial<CatInput>,
+    expectedVersion?: number,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    const existing = await this.findVersion(id, expectedVersion, signal);
+    const cat = await this.save(
+      {
+        ...existing,
+        ...(changes.name !== undefined && { name: changes.name }),
+        ...(changes.age !== undefined && { age: changes.age }),
+        ...(changes.breed !== undefined && { breed: changes.breed }),
+        ...(changes.origin !== undefined && { origin: changes.origin }),
+      },
+      signal,
+    );
+    this.logger.log({ message: 'Cat updated', catId: id });
+    this.publish(CAT_UPDATED, cat, existing);
+    return cat;
+  }
+
+  /**
+   * The photos of the cat are deleted along with it. They are deleted after the cat,
+   * so a failure leaves unreferenced files behind rather than a cat with missing photos.
+   * @param id
+   * @param expectedVersion the version the cat must have, any version if undefined
+   * @param signal
+   */
+  async remove(
+    id: number,
+    expectedVersion?: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const cat = await this.findVersion(id, expectedVersion, signal);
+    if (!(await this.catsRepository.remove(id, cat.version, signal))) {
+      await this.throwChanged(id, signal);
+    }
+    this.logger.log({ message: 'Cat removed', catId: id });
+    this.publish(CAT_DELETED, cat);
+    await this.catPhotosService?.removeAll(id);
+  }
+
+  private publish(type: CatEventType, cat: Cat, previous?: Cat): void {
+    this.eventBus?.publish<CatEventPayload>(type, {
+      cat,
+      ...(previous && { previous }),
+    });
+  }
+
+  /**
+   * @returns the cat with the given id, if it has the expected version
+   */
+  private async findVersion(
+    id: number,
+    expectedVersion: number | undefined,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    const cat = await this.findOne(id, signal);
+    if (expectedVersion !== undefined && cat.version !== expectedVersion) {
+      throw new VersionConflictException(id, cat.version);
+    }
+    return cat;
+  }
+
+  /**
+   * Saves a changed cat after checking it against the invariants of the domain.
+   * cat.version is the version the cat was read with, the repository stores it with the next one.
+   */
+  private async save(cat: Cat, signal?: AbortSignal): Promise<Cat> {
+    this.assertValid(cat);
+    this.assertUnique(cat, await this.catsRepository.findAll(signal));
+    const saved = await this.catsRepository.save(cat, signal);
+    if (!saved) {
+      await this.throwChanged(cat.id, signal);
+    }
+    return saved;
+  }
+
+  /**
+   * The repository refused a change, because the cat has been removed or changed since it was read.
+   */
+  private async throwChanged(id: number, signal?: AbortSignal): Promise<never> {
+    const current = await this.catsRepository.findOne(id, signal);
+    if (!current) {
+      throw new CatNotFoundException(id);
+    }
+    throw new VersionConflictException(id, current.version);
+  }
+
+  /**
+   * The CatsService doesn't rely on the callers to validate their input, the types are checked at runtime as well.
+   */
+  private assertValid(cat: Omit<Cat, 'id' | 'version'>): void {
+    const isBlank = (value: unknown) =>
+      typeof value !== 'string' || value.trim() === '';
+    if (isBlank(cat.name) || isBlank(cat.breed)) {
+      throw new InvalidCatStateException('A cat needs a name and a breed');
+    }
+    if (!Number.isInteger(cat.age) || cat.age < 0) {
+      throw new InvalidCatStateException(
+        'The age of a cat has to be a non-negative integer',
+      );
+    }
+  }
+
+  /**
+   * @param cat the new or changed cat
+   * @param cats all stored cats, the changed cat itself is skipped
+   */
+  private assertUnique(
+    cat: Omit<Cat, 'id' | 'version'> & Partial<Cat>,
+    cats: Cat[],
+  ): void {
+    const name = cat.name.toLowerCase();
+    const duplicate = cats.some(
+      (other) =>
+        other.id !== cat.id &&
+        other.owner === cat.owner &&
+        other.name.toLowerCase() === name,
+    );
+    if (duplicate) {
+      throw new DuplicateCatException(cat.name, cat.owner);
+    }
+  }
+
+  private assertQuota(owner: string, cats: Cat[]): void {
+    const limit = this.options?.maxCatsPerOwner;
+    if (
+      limit !== undefined &&
+      cats.filter((cat) => cat.owner === owner).length >= limit
+    ) {
+      throw new QuotaExceededException(owner, limit);
+    }
+  }
+
+  private matches(cat: Cat, query: ListCatsQueryDto): boolean {
+    const { breed, namePrefix, minAge, maxAge } = query;
+    return (
+      (breed === undefined ||
+        cat.breed.toLowerCase() === breed.toLowerCase()) &&
+      (namePrefix === undefined ||
+        cat.name.toLowerCase().startsWith(namePrefix.toLowerCase())) &&
+      (minAge === undefined || cat.age >= minAge) &&
+      (maxAge === undefined || cat.age <= maxAge)
+    );
+  }
+
+  private compare(
+    a: Pick<Cat, 'id'> & Partial<Cat>,
+    b: Pick<Cat, 'id'> & Partial<Cat>,
+    sort: keyof Cat,
+    order: SortOrder,
+  ): number {
+    const direction = order === 'asc' ? 1 : -1;
+    if (a[sort] < b[sort]) {
+      return -direction;
+    }
+    if (a[sort] > b[sort]) {
+      return direction;
+    }
+    return (a.id - b.id) * direction;
   }
 
-  findAll(): Cat[] {
-    return this.cats;
+  /**
+   * The cursor is the base64url encoded sort value and id of the last cat of the page.
+   * Sort field and order are part of the cursor, so it can't be used with a different sorting.
+   */
+  private encodeCursor(cat: Cat, sort: keyof Cat, order: SortOrder): string {
+    return Buffer.from(
+      JSON.stringify({ sort, order, value: cat[sort], id: cat.id }),
+    ).toString('base64url');
   }
 
-  findOne(id: number): Cat {
-    return this.cats[id];
+  private decodeCursor(
+    cursor: string,
+    sort: keyof Cat,
+    order: SortOrder,
+  ): Pick<Cat, 'id'> & Partial<Cat> {
+    let decoded: { sort: string; order: string; value: unknown; id: number };
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+      throw new InvalidCursorException('Invalid cursor');
+    }
+    if (
+      decoded?.sort !== sort ||
+      decoded.order !== order ||
+      !Number.isInteger(decoded.id)
+    ) {
+      throw new InvalidCursorException('Cursor does not match the sort order');
+    }
+    return { id: decoded.id, [sort]: decoded.value };
   }
 }
@@ -0,0 +1,13 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * Since API version 2, the breed is an object, which leaves room for more details than the name.
+ */
+export class BreedDto {
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  origin?: string;
+}
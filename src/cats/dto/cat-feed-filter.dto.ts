@@ -0,0 +1,34 @@
+import { Transform } from 'class-transformer';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { CAT_EVENT_TYPES } from '@cats/cats.constants';
+import { CatEventType } from '@cats/interfaces/cat-event.interface';
+
+/**
+ * Selects the events of the change feed, as query parameters of GET /cats/stream
+ * or as the filter of a subscription over the WebSocket (see CatFeedGateway).
+ *
+ * Without a filter, all changes of all cats are sent.
+ * The types may be given as a comma separated list in the query, e.g. ?types=cat.created,cat.deleted
+ */
+export class CatFeedFilterDto {
+  /**
+   * Matched case-insensitively, like the breed filter of GET /cats.
+   */
+  @IsOptional()
+  @IsString()
+  breed?: string;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',') : value,
+  )
+  @IsIn(CAT_EVENT_TYPES, { each: true })
+  types?: CatEventType[];
+
+  /**
+   * For clients which can't send the Last-Event-ID header, e.g. when a page is reloaded.
+   */
+  @IsOptional()
+  @IsString()
+  lastEventId?: string;
+}
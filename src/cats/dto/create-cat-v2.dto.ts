@@ -0,0 +1,32 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsString, ValidateNested } from 'class-validator';
+import { BreedDto } from '@cats/dto/breed.dto';
+import { CatInput } from '@cats/interfaces/cat.interface';
+
+/**
+ * The CreateCatDto of API version 2, with a structured breed:
+ * { "name": "Tom", "age": 3, "breed": { "name": "Siamese", "origin": "Thailand" } }
+ *
+ * Nested objects are validated with @ValidateNested(). The @Type() decorator tells class-transformer
+ * which class to instantiate for the nested object, otherwise its decorators wouldn't be known.
+ */
+export class CreateCatV2Dto {
+  @IsString()
+  name: string;
+
+  @IsInt()
+  age: number;
+
+  @ValidateNested()
+  @Type(() => BreedDto)
+  breed: BreedDto;
+
+  static toInput(dto: CreateCatV2Dto): CatInput {
+    return {
+      name: dto.name,
+      age: dto.age,
+      breed: dto.breed.name,
+      origin: dto.breed.origin,
+    };
+  }
+}
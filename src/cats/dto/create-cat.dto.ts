@@ -11,8 +11,10 @@ import { IsString, IsInt } from 'class-validator';
  * Nest can't refer to them at runtime.
  * This is important because features such as Pipes enable additional possibilities
  * when they have access to the metatype of the variable at runtime.
+ *
+ * The id, the owner and the version are not part of the DTO, they are assigned by the CatsService.
  */
-export class CreateCatDto implements Cat {
+export class CreateCatDto implements Omit<Cat, 'id' | 'owner' | 'version'> {
   @IsString()
   name: string;
 
@@ -0,0 +1,27 @@
+import { Field, InputType, Int } from '@nestjs/graphql';
+import { IsOptional, IsString } from 'class-validator';
+import { CreateCatDto } from '@cats/dto/create-cat.dto';
+
+/**
+ * The input of the createCat mutation.
+ * It extends the CreateCatDto, so it's validated by the same rules as the body of POST /cats,
+ * the @Field() decorators add the members to the GraphQL schema.
+ *
+ * Like version 2 of the REST API, it accepts the origin of the breed.
+ */
+@InputType()
+export class CreateCatInput extends CreateCatDto {
+  @Field()
+  name: string;
+
+  @Field(() => Int)
+  age: number;
+
+  @Field()
+  breed: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  origin?: string;
+}
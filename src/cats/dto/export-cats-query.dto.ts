@@ -0,0 +1,11 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { CAT_FORMATS, CatFormat } from '@cats/bulk/cat-formats';
+
+/**
+ * Query parameters of GET /cats/export.
+ */
+export class ExportCatsQueryDto {
+  @IsOptional()
+  @IsIn(CAT_FORMATS)
+  format: CatFormat = 'ndjson';
+}
@@ -0,0 +1,16 @@
+import { Transform } from 'class-transformer';
+import { IsOptional, IsString } from 'class-validator';
+import { CreateCatDto } from '@cats/dto/create-cat.dto';
+
+/**
+ * A row of a bulk import, which has the flat shape of an export: the CreateCatDto plus the origin of the breed.
+ * Exports leave the field of an unknown origin empty (CSV) or null, both are read as no origin.
+ */
+export class ImportCatDto extends CreateCatDto {
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === '' || value === null ? undefined : value,
+  )
+  @IsString()
+  origin?: string;
+}
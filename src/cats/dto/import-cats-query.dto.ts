@@ -0,0 +1,11 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ImportMode } from '@cats/interfaces/import-report.interface';
+
+/**
+ * Query parameters of POST /cats/bulk. Imports are all-or-nothing unless best-effort is requested.
+ */
+export class ImportCatsQueryDto {
+  @IsOptional()
+  @IsIn(['atomic', 'best-effort'])
+  mode: ImportMode = 'atomic';
+}
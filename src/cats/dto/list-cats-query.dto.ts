@@ -0,0 +1,77 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Cat } from '@cats/interfaces/cat.interface';
+
+export const SORTABLE_FIELDS: (keyof Cat)[] = [
+  'id',
+  'name',
+  'age',
+  'breed',
+  'owner',
+];
+
+/**
+ * The largest page which may be requested.
+ */
+export const MAX_LIMIT = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Query parameters of GET /cats.
+ *
+ * Query parameters always arrive as strings. The @Type() decorator of class-transformer
+ * tells plainToInstance() to convert them to numbers before they are validated.
+ * Properties which are not part of the query keep their initial values, which serve as defaults.
+ *
+ * Either offset or cursor can be used for pagination. The cursor is returned as nextCursor by the previous page
+ * and takes precedence over the offset.
+ *
+ * Only editors may sort by the owner, see assertSortable().
+ */
+export class ListCatsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_LIMIT)
+  limit = 20;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset = 0;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsString()
+  breed?: string;
+
+  @IsOptional()
+  @IsString()
+  namePrefix?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minAge?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxAge?: number;
+
+  @IsOptional()
+  @IsIn(SORTABLE_FIELDS)
+  sort: keyof Cat = 'id';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order: SortOrder = 'asc';
+}
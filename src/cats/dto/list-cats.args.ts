@@ -0,0 +1,37 @@
+import { ArgsType, Field, Int } from '@nestjs/graphql';
+import { ListCatsQueryDto, SortOrder } from '@cats/dto/list-cats-query.dto';
+import { Cat } from '@cats/interfaces/cat.interface';
+
+/**
+ * The arguments of the cats query, the same filters and pagination as the query parameters of GET /cats.
+ * Arguments which aren't passed keep the defaults of the ListCatsQueryDto.
+ */
+@ArgsType()
+export class ListCatsArgs extends ListCatsQueryDto {
+  @Field(() => Int, { nullable: true })
+  limit = 20;
+
+  @Field(() => Int, { nullable: true })
+  offset = 0;
+
+  @Field({ nullable: true })
+  cursor?: string;
+
+  @Field({ nullable: true })
+  breed?: string;
+
+  @Field({ nullable: true })
+  namePrefix?: string;
+
+  @Field(() => Int, { nullable: true })
+  minAge?: number;
+
+  @Field(() => Int, { nullable: true })
+  maxAge?: number;
+
+  @Field(() => String, { nullable: true })
+  sort: keyof Cat = 'id';
+
+  @Field(() => String, { nullable: true })
+  order: SortOrder = 'asc';
+}
@@ -0,0 +1,34 @@
+import { Expose, Type } from 'class-transformer';
+import { IsInt, IsString, ValidateNested } from 'class-validator';
+import { BreedDto } from '@cats/dto/breed.dto';
+import { Cat } from '@cats/interfaces/cat.interface';
+
+/**
+ * The SendCatDTO of API version 2, with a structured breed (see BreedDto).
+ */
+export class SendCatV2DTO {
+  @IsInt()
+  id: number;
+
+  @IsString()
+  name: string;
+
+  @IsInt()
+  age: number;
+
+  @ValidateNested()
+  @Type(() => BreedDto)
+  breed: BreedDto;
+
+  @Expose({ groups: ['editor'] })
+  @IsString()
+  owner: string;
+
+  constructor(cat: Cat) {
+    this.id = cat.id;
+    this.name = cat.name;
+    this.age = cat.age;
+    this.breed = { name: cat.breed, origin: cat.origin };
+    this.owner = cat.owner;
+  }
+}
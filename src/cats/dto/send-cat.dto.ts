@@ -1,3 +1,5 @@
+import { Expose } from 'class-transformer';
+import { IsInt, IsString } from 'class-validator';
 import { Cat } from '@cats/interfaces/cat.interface';
 
 /**
@@ -10,9 +12,41 @@ import { Cat } from '@cats/interfaces/cat.interface';
  * Nest can't refer to them at runtime.
  * This is important because features such as Pipes enable additional possibilities
  * when they have access to the metatype of the variable at runtime.
+ *
+ * The decorators of class-transformer control the serialization by the TransformInterceptor,
+ * which passes the roles of the user as groups. Members exposed to a group are hidden from everybody else.
+ *
+ * Responses aren't validated, the class-validator decorators describe the members in the OpenAPI document.
  */
-export class SendCatDTO implements Cat {
+export class SendCatDTO implements Omit<Cat, 'origin' | 'version'> {
+  @IsInt()
+  id: number;
+
+  @IsString()
   name: string;
+
+  @IsInt()
   age: number;
+
+  @IsString()
   breed: string;
+
+  /**
+   * The id of the owning user is only revealed to editors (and admins, who inherit the editor role).
+   */
+  @Expose({ groups: ['editor'] })
+  @IsString()
+  owner: string;
+
+  /**
+   * The members are copied one by one, so members added to the Cat later (e.g. the origin of API version 2)
+   * don't show up in this version.
+   */
+  constructor(cat: Cat) {
+    this.id = cat.id;
+    this.name = cat.name;
+    this.age = cat.age;
+    this.breed = cat.breed;
+    this.owner = cat.owner;
+  }
 }
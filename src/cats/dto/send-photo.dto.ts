@@ -0,0 +1,58 @@
+import { IsInt, IsISO8601, IsString, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { Photo } from '@cats/interfaces/photo.interface';
+
+export class DimensionsDto {
+  @IsInt()
+  width: number;
+
+  @IsInt()
+  height: number;
+}
+
+/**
+ * The metadata of a photo. The content is downloaded from GET /cats/:id/photos/:photoId.
+ *
+ * Responses aren't validated, the class-validator decorators describe the members in the OpenAPI document.
+ */
+export class SendPhotoDTO {
+  @IsString()
+  id: string;
+
+  @IsInt()
+  catId: number;
+
+  @IsString()
+  filename: string;
+
+  @IsString()
+  mimeType: string;
+
+  @IsInt()
+  size: number;
+
+  @IsInt()
+  width: number;
+
+  @IsInt()
+  height: number;
+
+  @ValidateNested()
+  @Type(() => DimensionsDto)
+  thumbnail: DimensionsDto;
+
+  @IsISO8601()
+  createdAt: string;
+
+  constructor(photo: Photo) {
+    this.id = photo.id;
+    this.catId = photo.catId;
+    this.filename = photo.filename;
+    this.mimeType = photo.mimeType;
+    this.size = photo.size;
+    this.width = photo.width;
+    this.height = photo.height;
+    this.thumbnail = { ...photo.thumbnail };
+    this.createdAt = photo.createdAt;
+  }
+}
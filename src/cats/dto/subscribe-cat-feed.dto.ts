@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import { IsOptional, IsString, ValidateNested } from 'class-validator';
+import { CatFeedFilterDto } from '@cats/dto/cat-feed-filter.dto';
+
+/**
+ * The data of a subscribe message of the WebSocket change feed (see CatFeedGateway).
+ * A new subscription replaces the previous one:
+ *
+ * { "event": "subscribe", "data": { "filter": { "breed": "Persian" }, "lastEventId": "41" } }
+ * { "event": "unsubscribe" }
+ *
+ * Like the Last-Event-ID of SSE, lastEventId resumes a subscription after a reconnect.
+ */
+export class SubscribeCatFeedDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CatFeedFilterDto)
+  filter?: CatFeedFilterDto;
+
+  @IsOptional()
+  @IsString()
+  lastEventId?: string;
+}
@@ -0,0 +1,32 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { BreedDto } from '@cats/dto/breed.dto';
+import { CatInput } from '@cats/interfaces/cat.interface';
+
+/**
+ * The UpdateCatDto of API version 2.
+ * A breed has to carry its name, while an origin which isn't sent stays unchanged.
+ */
+export class UpdateCatV2Dto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  age?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BreedDto)
+  breed?: BreedDto;
+
+  static toInput(dto: UpdateCatV2Dto): Partial<CatInput> {
+    return {
+      name: dto.name,
+      age: dto.age,
+      breed: dto.breed?.name,
+      origin: dto.breed?.origin,
+    };
+  }
+}
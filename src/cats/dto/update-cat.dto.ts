@@ -0,0 +1,23 @@
+import { Cat } from '@cats/interfaces/cat.interface';
+import { IsString, IsInt, IsOptional } from 'class-validator';
+
+/**
+ * A PATCH request only carries the members that should change,
+ * so every member is optional here while keeping the same validation rules as CreateCatDto.
+ * The id and the owner are assigned by the server and can never be changed by the client.
+ */
+export class UpdateCatDto
+  implements Partial<Omit<Cat, 'id' | 'owner' | 'version'>>
+{
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  age?: number;
+
+  @IsOptional()
+  @IsString()
+  breed?: string;
+}
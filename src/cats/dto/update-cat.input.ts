@@ -0,0 +1,23 @@
+import { Field, InputType, Int } from '@nestjs/graphql';
+import { IsOptional, IsString } from 'class-validator';
+import { UpdateCatDto } from '@cats/dto/update-cat.dto';
+
+/**
+ * The input of the updateCat mutation, only the members that are sent are changed (like PATCH /cats/:id).
+ */
+@InputType()
+export class UpdateCatInput extends UpdateCatDto {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field(() => Int, { nullable: true })
+  age?: number;
+
+  @Field({ nullable: true })
+  breed?: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  origin?: string;
+}
@@ -0,0 +1,9 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+export class CatNotFoundException extends DomainException {
+  readonly code = 'CAT_NOT_FOUND';
+
+  constructor(readonly catId: number) {
+    super(`Cat with id ${catId} not found`);
+  }
+}
@@ -0,0 +1,12 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * The names of the cats of an owner are unique (ignoring case).
+ */
+export class DuplicateCatException extends DomainException {
+  readonly code = 'DUPLICATE_CAT';
+
+  constructor(readonly name: string, readonly owner: string) {
+    super(`The owner already has a cat named ${name}`);
+  }
+}
@@ -0,0 +1,16 @@
+import { DomainException } from '@exceptions/domain.exception';
+import { ImportReport } from '@cats/interfaces/import-report.interface';
+
+/**
+ * An atomic import was rejected, since at least one of its rows failed. None of the rows was imported.
+ * The report lists the failed rows.
+ */
+export class ImportRejectedException extends DomainException {
+  readonly code = 'IMPORT_REJECTED';
+
+  constructor(readonly report: ImportReport) {
+    super(
+      `The import was rejected, ${report.failed} of ${report.rows} rows failed`,
+    );
+  }
+}
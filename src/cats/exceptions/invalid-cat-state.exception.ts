@@ -0,0 +1,9 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * A cat would break an invariant of the domain, e.g. a negative age.
+ * Requests sent over HTTP are validated by pipes already, but other callers of the CatsService aren't.
+ */
+export class InvalidCatStateException extends DomainException {
+  readonly code = 'INVALID_CAT_STATE';
+}
@@ -0,0 +1,8 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * The cursor of a page request is malformed or was issued for another sort order.
+ */
+export class InvalidCursorException extends DomainException {
+  readonly code = 'INVALID_CURSOR';
+}
@@ -0,0 +1,9 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * The upload of a bulk import can't be read at all, e.g. a JSON document which isn't an array
+ * or a CSV file without header. Problems of single rows are reported per row instead (see ImportReport).
+ */
+export class InvalidImportException extends DomainException {
+  readonly code = 'INVALID_IMPORT';
+}
@@ -0,0 +1,8 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * The content of an uploaded photo isn't an image of the declared type.
+ */
+export class InvalidPhotoException extends DomainException {
+  readonly code = 'INVALID_PHOTO';
+}
@@ -0,0 +1,9 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+export class PhotoNotFoundException extends DomainException {
+  readonly code = 'PHOTO_NOT_FOUND';
+
+  constructor(readonly catId: number, readonly photoId: string) {
+    super(`Photo ${photoId} of cat ${catId} not found`);
+  }
+}
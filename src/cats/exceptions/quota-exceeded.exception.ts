@@ -0,0 +1,12 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * An owner can't have more cats than configured by CatsModuleOptions.maxCatsPerOwner.
+ */
+export class QuotaExceededException extends DomainException {
+  readonly code = 'QUOTA_EXCEEDED';
+
+  constructor(readonly owner: string, readonly limit: number) {
+    super(`The owner has reached the limit of ${limit} cats`);
+  }
+}
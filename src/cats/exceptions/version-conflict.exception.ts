@@ -0,0 +1,14 @@
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * The cat was changed since the client has read it, so the change would overwrite changes the client hasn't seen.
+ */
+export class VersionConflictException extends DomainException {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(readonly catId: number, readonly version: number) {
+    super(
+      `Cat with id ${catId} has been changed in the meantime, its current version is ${version}`,
+    );
+  }
+}
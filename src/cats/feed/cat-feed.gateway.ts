@@ -0,0 +1,195 @@
+import {
+  DefaultValuePipe,
+  OnModuleDestroy,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import { Subscription } from 'rxjs';
+import { WebSocket, WebSocketServer as Server } from 'ws';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { CatFeedFilterDto } from '@cats/dto/cat-feed-filter.dto';
+import { SubscribeCatFeedDto } from '@cats/dto/subscribe-cat-feed.dto';
+import { CatFeedService } from '@cats/feed/cat-feed.service';
+import { CatFeedServerMessage } from '@cats/interfaces/cat-feed-message.interface';
+import { AuthGuard } from '@guards/auth.guard';
+import { RolesGuard } from '@guards/roles.guard';
+import { WebSocketExceptionFilter } from '@filters/websocket-exception.filter';
+import { CustomValidationPipe } from '@pipes/custom-validation.pipe';
+import { Permissions } from '@decorators/permissions.decorator';
+import { QueryToken } from '@decorators/query-token.decorator';
+import { User } from '@decorators/user.decorator';
+import { DEFAULT_API_VERSION } from '@root/utils/api-version';
+import { WebSocketClient } from '@root/utils/execution-context';
+
+type FeedClient = WebSocket & WebSocketClient;
+
+/**
+ * Clients only send small subscription messages, larger messages close the connection with 1009.
+ */
+const MAX_MESSAGE_SIZE = 16 * 1024;
+
+/**
+ * The number of bytes which may wait to be sent to a client, see send().
+ */
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+
+/**
+ * Status codes of close frames (RFC 6455, section 7.4.1).
+ */
+const GOING_AWAY = 1001;
+const TRY_AGAIN_LATER = 1013;
+
+/**
+ * Gateways
+ * A gateway is a class annotated with the @WebSocketGateway() decorator. Its @SubscribeMessage() handlers
+ * receive the messages of the clients, just like route handlers receive requests.
+ * Gateways are platform-agnostic, the platform is chosen by the WebSocket adapter of the application:
+ * the WsAdapter of @nestjs/platform-ws serves them with the ws library, on the port of the HTTP server.
+ *
+ * async function bootstrap() {
+ *   const app = await NestFactory.create(AppModule);
+ *   app.useWebSocketAdapter(new WsAdapter(app));
+ *   await app.listen(3000);
+ * }
+ *
+ * The change feed of the cats over a WebSocket (ws://host/cats/feed), the counterpart of GET /cats/stream
+ * for clients which want to change their filter without reconnecting. The client subscribes with a filter
+ * (see SubscribeCatFeedDto) and receives the matching events, serialized for its roles and the API version
+ * of the path (see CatFeedServerMessage). Messages which aren't JSON or name an unknown event are ignored by the WsAdapter.
+ *
+ * Guards, pipes and filters are bound like on a controller. The WsAdapter accepts every handshake,
+ * so the AuthGuard and the RolesGuard check the token of the handshake on every message: without a token
+ * or the cats:read permission, the client gets an error message and is disconnected (see WebSocketExceptionFilter).
+ * Browsers can't set headers on WebSockets, so the token may be passed as ?access_token=.
+ */
+@WebSocketGateway({ path: '/cats/feed', maxPayload: MAX_MESSAGE_SIZE })
+@UseGuards(AuthGuard, RolesGuard)
+@UseFilters(WebSocketExceptionFilter)
+@Permissions('cats:read')
+@QueryToken()
+export class CatFeedGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
+  /**
+   * A gateway serves a single path, the versioned paths are served by the subclasses below.
+   */
+  protected readonly apiVersion: string = DEFAULT_API_VERSION;
+
+  @WebSocketServer()
+  private readonly server: Server;
+
+  private readonly subscriptions = new Map<FeedClient, Subscription>();
+
+  constructor(private readonly catFeedService: CatFeedService) {}
+
+  /**
+   * The request of the handshake is kept, as the guards find the token there (see httpRequestOf()).
+   */
+  handleConnection(client: FeedClient, request: IncomingMessage) {
+    client.request = request;
+  }
+
+  handleDisconnect(client: FeedClient) {
+    this.unsubscribe(client);
+  }
+
+  onModuleDestroy() {
+    this.server?.clients.forEach((client) => client.close(GOING_AWAY));
+  }
+
+  /**
+   * The subscribed message is sent before the first event, which may be sent right away
+   * if the EventBus still buffers events after the lastEventId.
+   * @param client
+   * @param message validated like the query of GET /cats/stream
+   * @param user
+   */
+  @SubscribeMessage('subscribe')
+  subscribe(
+    @ConnectedSocket() client: FeedClient,
+    @MessageBody(
+      new DefaultValuePipe({}),
+      new CustomValidationPipe({ whitelist: true, forbidNonWhitelisted: true }),
+    )
+    message: SubscribeCatFeedDto,
+    @User() user: Principal,
+  ): void {
+    // the client may have disconnected while the message was validated
+    if (client.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    const feedFilter = message.filter ?? new CatFeedFilterDto();
+    this.unsubscribe(client);
+    this.send(client, {
+      event: 'subscribed',
+      data: { filter: { ...feedFilter } },
+    });
+    this.subscriptions.set(
+      client,
+      this.catFeedService
+        .events(
+          feedFilter,
+          user,
+          this.apiVersion,
+          message.lastEventId ?? feedFilter.lastEventId,
+        )
+        .subscribe(({ type, ...event }) =>
+          this.send(client, { event: type, data: event }),
+        ),
+    );
+  }
+
+  @SubscribeMessage('unsubscribe')
+  unsubscribeMessage(@ConnectedSocket() client: FeedClient): void {
+    this.unsubscribe(client);
+    this.send(client, { event: 'unsubscribed' });
+  }
+
+  /**
+   * ws buffers the messages a client doesn't receive as fast as they are sent.
+   * Instead of buffering them without limit, a client which falls behind is disconnected with 1013 (try again later),
+   * it resumes the feed with the lastEventId of the last event it received.
+   */
+  private send(client: FeedClient, message: CatFeedServerMessage): void {
+    if (client.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    if (client.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+      this.unsubscribe(client);
+      client.close(TRY_AGAIN_LATER, 'Too many pending messages');
+      return;
+    }
+    client.send(JSON.stringify(message));
+  }
+
+  private unsubscribe(client: FeedClient): void {
+    this.subscriptions.get(client)?.unsubscribe();
+    this.subscriptions.delete(client);
+  }
+}
+
+/**
+ * The change feed in API version 1, ws://host/v1/cats/feed
+ */
+@WebSocketGateway({ path: '/v1/cats/feed', maxPayload: MAX_MESSAGE_SIZE })
+export class CatFeedV1Gateway extends CatFeedGateway {
+  protected readonly apiVersion = '1';
+}
+
+/**
+ * The change feed in API version 2, ws://host/v2/cats/feed
+ */
+@WebSocketGateway({ path: '/v2/cats/feed', maxPayload: MAX_MESSAGE_SIZE })
+export class CatFeedV2Gateway extends CatFeedGateway {
+  protected readonly apiVersion = '2';
+}
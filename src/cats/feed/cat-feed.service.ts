@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { Observable } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { expandRoles } from '@auth/roles';
+import { CAT_EVENT_TYPES } from '@cats/cats.constants';
+import { CatFeedFilterDto } from '@cats/dto/cat-feed-filter.dto';
+import { SendCatDTO } from '@cats/dto/send-cat.dto';
+import { SendCatV2DTO } from '@cats/dto/send-cat-v2.dto';
+import {
+  CatEventPayload,
+  CatEventType,
+} from '@cats/interfaces/cat-event.interface';
+import { CatFeedEvent } from '@cats/interfaces/cat-feed-event.interface';
+import { EventBus } from '@events/event-bus';
+import { DomainEvent } from '@events/interfaces/domain-event.interface';
+
+/**
+ * The change feed of the cats, shared by the SSE route (GET /cats/stream) and the CatFeedGateway.
+ *
+ * It selects the cat events of the EventBus which match the filter of a subscriber and serializes the cats
+ * the same way the responses of the CatsController are serialized, so the feed reveals no more than GET /cats/:id.
+ */
+@Injectable()
+export class CatFeedService {
+  constructor(private readonly eventBus: EventBus) {}
+
+  /**
+   * @param feedFilter
+   * @param user the subscriber, whose roles decide which members of the cats are sent
+   * @param apiVersion the version the cats are represented in
+   * @param lastEventId the buffered events after this id are sent first, see EventBus.events()
+   */
+  events(
+    feedFilter: CatFeedFilterDto,
+    user: Principal,
+    apiVersion: string,
+    lastEventId?: string,
+  ): Observable<CatFeedEvent> {
+    const groups = [...expandRoles(user.roles)];
+    const toDto = apiVersion === '2' ? SendCatV2DTO : SendCatDTO;
+    return this.eventBus.events(lastEventId).pipe(
+      filter((event): event is DomainEvent<CatEventPayload> =>
+        this.matches(event, feedFilter),
+      ),
+      map((event) => ({
+        id: event.id,
+        type: event.type as CatEventType,
+        occurredAt: event.occurredAt,
+        cat: instanceToPlain(new toDto(event.payload.cat), { groups }),
+      })),
+    );
+  }
+
+  private matches(event: DomainEvent, feedFilter: CatFeedFilterDto): boolean {
+    const type = event.type as CatEventType;
+    if (!CAT_EVENT_TYPES.includes(type)) {
+      return false;
+    }
+    const { breed, types } = feedFilter;
+    const { cat } = event.payload as CatEventPayload;
+    return (
+      (!types?.length || types.includes(type)) &&
+      (breed === undefined || cat.breed.toLowerCase() === breed.toLowerCase())
+    );
+  }
+}
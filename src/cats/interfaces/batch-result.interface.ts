@@ -0,0 +1,21 @@
+import { Cat } from '@cats/interfaces/cat.interface';
+import { DomainException } from '@exceptions/domain.exception';
+
+/**
+ * A cat of a batch which breaks a rule of the domain, e.g. a duplicate name.
+ */
+export interface BatchFailure {
+  /**
+   * The position of the cat in the batch.
+   */
+  index: number;
+  error: DomainException;
+}
+
+/**
+ * The outcome of CatsService.createMany().
+ */
+export interface BatchResult {
+  created: Cat[];
+  failures: BatchFailure[];
+}
@@ -0,0 +1,15 @@
+import { Cat } from '@cats/interfaces/cat.interface';
+
+export type CatEventType = 'cat.created' | 'cat.updated' | 'cat.deleted';
+
+/**
+ * The payload of the cat events. A deleted cat is sent with the state it had before it was deleted,
+ * so subscribers can tell which of their filters it matched.
+ */
+export interface CatEventPayload {
+  cat: Cat;
+  /**
+   * The state before the change, only sent with cat.updated.
+   */
+  previous?: Cat;
+}
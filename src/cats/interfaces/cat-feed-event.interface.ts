@@ -0,0 +1,15 @@
+import { CatEventType } from '@cats/interfaces/cat-event.interface';
+
+/**
+ * An event of the change feed as it's sent to the clients.
+ * The cat is serialized for the API version and the roles of the subscriber (see SendCatDTO and SendCatV2DTO).
+ */
+export interface CatFeedEvent {
+  /**
+   * The id of the event on the EventBus, which the client passes as Last-Event-ID to resume the feed.
+   */
+  id: string;
+  type: CatEventType;
+  occurredAt: string;
+  cat: Record<string, unknown>;
+}
@@ -0,0 +1,18 @@
+import { CatFeedEvent } from '@cats/interfaces/cat-feed-event.interface';
+import { ProblemDetails } from '@filters/interfaces/problem-details.interface';
+
+/**
+ * The messages the server sends over the WebSocket change feed (see CatFeedGateway), as JSON text messages
+ * in the format of Nest's WsAdapter, which the messages of the client have as well (see SubscribeCatFeedDto):
+ * the event names the message, the data carries its content.
+ *
+ * Events are sent until the client unsubscribes, named like the events of GET /cats/stream:
+ * { "event": "subscribed", "data": { "filter": { "breed": "Persian" } } }
+ * { "event": "cat.created", "data": { "id": "42", "occurredAt": "...", "cat": { ... } } }
+ * { "event": "error", "data": { "status": 400, "detail": "Validation failed", "errors": [...] } }
+ */
+export type CatFeedServerMessage =
+  | { event: 'subscribed'; data: { filter: Record<string, unknown> } }
+  | { event: 'unsubscribed' }
+  | { event: CatFeedEvent['type']; data: Omit<CatFeedEvent, 'type'> }
+  | { event: 'error'; data: ProblemDetails };
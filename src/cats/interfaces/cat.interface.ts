@@ -1,5 +1,25 @@
 export interface Cat {
+  id: number;
   name: string;
   age: number;
   breed: string;
+  /**
+   * The country the breed originates from, if known. Only available since API version 2.
+   */
+  origin?: string;
+  /**
+   * The id of the user who created the cat.
+   */
+  owner: string;
+  /**
+   * Starts at 1 and is incremented by every change of the cat.
+   * Clients send it back in the If-Match header (the ETag of the cat), so they don't overwrite changes they haven't seen.
+   */
+  version: number;
 }
+
+/**
+ * The members of a cat which are chosen by the client, while the id, the owner and the version are assigned by the server.
+ * Each API version has its own DTOs, which are converted to this shape for the CatsService.
+ */
+export type CatInput = Omit<Cat, 'id' | 'owner' | 'version'>;
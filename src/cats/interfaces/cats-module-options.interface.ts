@@ -0,0 +1,22 @@
+import { ModuleMetadata } from '@nestjs/common';
+
+export type CatsPersistenceOptions =
+  | { driver: 'memory' }
+  | { driver: 'json'; path: string }
+  | { driver: 'sqlite'; path: string };
+
+export interface CatsModuleOptions {
+  persistence: CatsPersistenceOptions;
+  /**
+   * The number of cats a single owner may have, unlimited if not set.
+   */
+  maxCatsPerOwner?: number;
+}
+
+export interface CatsModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => CatsModuleOptions | Promise<CatsModuleOptions>;
+  inject?: any[];
+}
@@ -0,0 +1,33 @@
+/**
+ * atomic: the import is rejected as a whole if a single row fails.
+ * best-effort: the valid rows are imported, the others are reported.
+ */
+export type ImportMode = 'atomic' | 'best-effort';
+
+/**
+ * A problem with a row of an import. Rows are numbered from 1, not counting the header of a CSV file.
+ */
+export interface RowError {
+  row: number;
+  /**
+   * The member of the row, if a constraint of the CreateCatDto failed.
+   */
+  property?: string;
+  /**
+   * The failed constraint (e.g. isInt), the code of the domain exception (e.g. DUPLICATE_CAT)
+   * or MALFORMED_ROW if the row couldn't be parsed.
+   */
+  code: string;
+  message: string;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  /**
+   * Number of rows read from the upload.
+   */
+  rows: number;
+  created: number;
+  failed: number;
+  errors: RowError[];
+}
@@ -0,0 +1,16 @@
+export interface Page<T> {
+  items: T[];
+  /**
+   * Number of items matching the filters, across all pages.
+   */
+  total: number;
+  limit: number;
+  offset: number;
+  /**
+   * Opaque cursor pointing behind the last item of this page, null on the last page.
+   */
+  nextCursor: string | null;
+  links?: {
+    next: string | null;
+  };
+}
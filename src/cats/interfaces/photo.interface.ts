@@ -0,0 +1,26 @@
+/**
+ * A photo of a cat. The content is kept in the FileStorage, next to this metadata.
+ */
+export interface Photo {
+  id: string;
+  catId: number;
+  /**
+   * The name of the uploaded file.
+   */
+  filename: string;
+  mimeType: string;
+  /**
+   * The size of the content in bytes.
+   */
+  size: number;
+  width: number;
+  height: number;
+  /**
+   * The dimensions clients should render the photo at in lists, see thumbnailDimensions().
+   */
+  thumbnail: { width: number; height: number };
+  /**
+   * ISO 8601 timestamp of the upload.
+   */
+  createdAt: string;
+}
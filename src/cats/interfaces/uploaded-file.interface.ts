@@ -0,0 +1,10 @@
+/**
+ * The members of a file parsed by multer (see FileInterceptor) which are used by the CatPhotosService.
+ * With the default memory storage, the content is held in the buffer.
+ */
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
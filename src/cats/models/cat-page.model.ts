@@ -0,0 +1,24 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { CatModel } from '@cats/models/cat.model';
+import { Page } from '@cats/interfaces/page.interface';
+
+/**
+ * A page of cats, see Page. There are no links, the next page is requested with the nextCursor.
+ */
+@ObjectType('CatPage')
+export class CatPageModel implements Omit<Page<CatModel>, 'links'> {
+  @Field(() => [CatModel])
+  items: CatModel[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => Int)
+  limit: number;
+
+  @Field(() => Int)
+  offset: number;
+
+  @Field(() => String, { nullable: true })
+  nextCursor: string | null;
+}
@@ -0,0 +1,30 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { Cat } from '@cats/interfaces/cat.interface';
+
+/**
+ * The Cat type of the GraphQL schema. In the code first approach, the schema is generated from classes like this one:
+ * @ObjectType() declares a type, @Field() its fields. TypeScript's number is ambiguous,
+ * so the type of integers is given explicitly with () => Int (Float is the default).
+ *
+ * The owner is resolved by the CatsResolver, which hides it from viewers like the SendCatDTO does.
+ */
+@ObjectType('Cat')
+export class CatModel implements Omit<Cat, 'owner'> {
+  @Field(() => Int)
+  id: number;
+
+  @Field()
+  name: string;
+
+  @Field(() => Int)
+  age: number;
+
+  @Field()
+  breed: string;
+
+  @Field({ nullable: true })
+  origin?: string;
+
+  @Field(() => Int)
+  version: number;
+}
@@ -0,0 +1,191 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Headers,
+  Res,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  FileTypeValidator,
+  UploadedFile,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+  UseFilters,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { pipeline } from 'stream';
+import { CatPhotosService } from '@cats/photos/cat-photos.service';
+import { PHOTO_MEDIA_TYPES } from '@cats/photos/image-metadata';
+import { SendPhotoDTO } from '@cats/dto/send-photo.dto';
+import { UploadedFile as UploadedPhoto } from '@cats/interfaces/uploaded-file.interface';
+import { isOwnerOrAdmin } from '@cats/cats.policies';
+import { AuthGuard } from '@guards/auth.guard';
+import { RolesGuard } from '@guards/roles.guard';
+import { PoliciesGuard } from '@guards/policies.guard';
+import { ThrottleGuard } from '@guards/throttle.guard';
+import { CacheInterceptor } from '@interceptors/cache.interceptor';
+import { DomainExceptionFilter } from '@filters/domain-exception.filter';
+import { Permissions } from '@decorators/permissions.decorator';
+import { CheckPolicies } from '@decorators/check-policies.decorator';
+import { CacheTTL } from '@decorators/cache-ttl.decorator';
+import { Signal } from '@decorators/abort-signal.decorator';
+import { ApiResponse } from '@decorators/api-response.decorator';
+import { parseRange } from '@root/utils/http-range';
+
+/**
+ * Photos may have up to 5 MB.
+ */
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+/**
+ * The photos of the cats.
+ *
+ * The controller shares the path of the CatsController, so the CacheInterceptor invalidates
+ * the cached lists of photos together with the cats (see CacheInterceptor.invalidate()).
+ * The photos don't depend on the API version, the routes are served by every version.
+ *
+ * File upload
+ * To handle file uploading, Nest provides a built-in module based on the multer middleware package for Express.
+ * Multer handles data posted in the multipart/form-data format, which is primarily used for uploading files
+ * via an HTTP POST request.
+ * The FileInterceptor() takes the name of the form field holding the file, and multer options.
+ * The file is then available through the @UploadedFile() decorator.
+ */
+@Controller({ path: ['cats', 'v1/cats', 'v2/cats'], version: ['1', '2'] })
+@UseGuards(AuthGuard, ThrottleGuard, RolesGuard)
+@UseInterceptors(CacheInterceptor)
+@UseFilters(DomainExceptionFilter)
+export class CatPhotosController {
+  constructor(private catPhotosService: CatPhotosService) {}
+
+  /**
+   * Uploads a photo of the cat as the field file of a multipart/form-data request.
+   *
+   * File validation
+   * The ParseFilePipe runs the given validators against the file and answers with a 400 if one of them fails.
+   * The FileTypeValidator only compares the media type sent by the client, so the CatPhotosService checks
+   * the content of the file as well.
+   * Multer stops reading at the size limit already (413), so oversized uploads aren't held in memory.
+   * @param id
+   * @param file
+   * @param signal
+   */
+  @Post(':id/photos')
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: MAX_PHOTO_SIZE, files: 1 },
+    }),
+  )
+  @ApiResponse({ type: SendPhotoDTO })
+  async upload(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: MAX_PHOTO_SIZE }),
+          new FileTypeValidator({
+            fileType: new RegExp(`^(${PHOTO_MEDIA_TYPES.join('|')})$`),
+          }),
+        ],
+      }),
+    )
+    file: UploadedPhoto,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendPhotoDTO> {
+    return new SendPhotoDTO(await this.catPhotosService.add(id, file, signal));
+  }
+
+  @Get(':id/photos')
+  @Permissions('cats:read')
+  @ApiResponse({ type: SendPhotoDTO, isArray: true })
+  async findAll(
+    @Param('id', ParseIntPipe) id: number,
+    @Signal() signal: AbortSignal,
+  ): Promise<SendPhotoDTO[]> {
+    return (await this.catPhotosService.findAll(id, signal)).map(
+      (photo) => new SendPhotoDTO(photo),
+    );
+  }
+
+  /**
+   * Streams the content of the photo.
+   *
+   * Range requests
+   * Clients may ask for a part of the photo with the Range header (e.g. Range: bytes=0-1023),
+   * to resume a download or to show the beginning of a large file early. The part is sent with 206 Partial Content
+   * and its position in the Content-Range header. A range beyond the end of the photo is answered with 416.
+   *
+   * Nest sends the returned value with the status of the route, so the response is written directly
+   * through the @Res() object of the library instead. The envelope and the cache don't apply to it.
+   * @param id
+   * @param photoId
+   * @param rangeHeader
+   * @param response
+   * @param signal
+   */
+  @Get(':id/photos/:photoId')
+  @Permissions('cats:read')
+  @CacheTTL(0)
+  async download(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('photoId', ParseUUIDPipe) photoId: string,
+    @Headers('range') rangeHeader: string | undefined,
+    @Res() response: Response,
+    @Signal() signal: AbortSignal,
+  ): Promise<void> {
+    const photo = await this.catPhotosService.findOne(id, photoId, signal);
+    const range = parseRange(rangeHeader, photo.size);
+    response.setHeader('Accept-Ranges', 'bytes');
+    if (range === null) {
+      response.setHeader('Content-Range', `bytes */${photo.size}`);
+      throw new HttpException(
+        'The range is outside of the photo',
+        HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+      );
+    }
+
+    const content = await this.catPhotosService.open(photo, range);
+    response.status(range ? HttpStatus.PARTIAL_CONTENT : HttpStatus.OK);
+    response.setHeader('Content-Type', photo.mimeType);
+    response.setHeader(
+      'Content-Length',
+      range ? range.end - range.start + 1 : photo.size,
+    );
+    if (range) {
+      response.setHeader(
+        'Content-Range',
+        `bytes ${range.start}-${range.end}/${photo.size}`,
+      );
+    }
+    response.setHeader(
+      'Content-Disposition',
+      `inline; filename="${photo.filename.replace(/["\\\r\n]/g, '_')}"`,
+    );
+    // closes the file as well when the client goes away
+    pipeline(content, response, () => undefined);
+  }
+
+  @Delete(':id/photos/:photoId')
+  @Permissions('cats:update')
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies('update', isOwnerOrAdmin)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('photoId', ParseUUIDPipe) photoId: string,
+    @Signal() signal: AbortSignal,
+  ): Promise<void> {
+    return this.catPhotosService.remove(id, photoId, signal);
+  }
+}
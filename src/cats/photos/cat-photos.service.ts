@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { Photo } from '@cats/interfaces/photo.interface';
+import { UploadedFile } from '@cats/interfaces/uploaded-file.interface';
+import { CatNotFoundException } from '@cats/exceptions/cat-not-found.exception';
+import { InvalidPhotoException } from '@cats/exceptions/invalid-photo.exception';
+import { PhotoNotFoundException } from '@cats/exceptions/photo-not-found.exception';
+import {
+  readImageMetadata,
+  thumbnailDimensions,
+} from '@cats/photos/image-metadata';
+import { FileStorage } from '@storage/file-storage';
+import { ByteRange } from '@storage/interfaces/byte-range.interface';
+
+/**
+ * Manages the photos of the cats.
+ *
+ * Each photo is stored as two files in the FileStorage: the content and its metadata as JSON,
+ * both under the prefix of the cat (cats/<id>/photos/). The metadata is written last and deleted first,
+ * so a listed photo always has its content.
+ *
+ * The service uses the CatsRepository rather than the CatsService to look up the cats,
+ * since the CatsService depends on this service to delete the photos of a removed cat.
+ */
+@Injectable()
+export class CatPhotosService {
+  private readonly logger = new Logger(CatPhotosService.name);
+
+  constructor(
+    private readonly catsRepository: CatsRepository,
+    private readonly storage: FileStorage,
+  ) {}
+
+  /**
+   * @param catId
+   * @param file the uploaded file, whose size and media type have been validated by the ParseFilePipe
+   * @param signal
+   * @returns the metadata of the stored photo
+   */
+  async add(
+    catId: number,
+    file: UploadedFile,
+    signal?: AbortSignal,
+  ): Promise<Photo> {
+    await this.assertCatExists(catId, signal);
+    const image = readImageMetadata(file.buffer);
+    if (!image || image.width === 0 || image.height === 0) {
+      throw new InvalidPhotoException('The file is not a supported image');
+    }
+    if (image.mimeType !== file.mimetype) {
+      throw new InvalidPhotoException(
+        `The file is declared as ${file.mimetype}, but it is ${image.mimeType}`,
+      );
+    }
+
+    const photo: Photo = {
+      id: randomUUID(),
+      catId,
+      filename: file.originalname,
+      mimeType: image.mimeType,
+      size: file.buffer.length,
+      width: image.width,
+      height: image.height,
+      thumbnail: thumbnailDimensions(image.width, image.height),
+      createdAt: new Date().toISOString(),
+    };
+    await this.storage.write(this.contentKey(photo), file.buffer, signal);
+    await this.storage.write(
+      this.metadataKey(catId, photo.id),
+      Buffer.from(JSON.stringify(photo)),
+      signal,
+    );
+    this.logger.log({ message: 'Photo added', catId, photoId: photo.id });
+    return photo;
+  }
+
+  /**
+   * @param catId
+   * @param signal
+   * @returns the photos of the cat, oldest first
+   */
+  async findAll(catId: number, signal?: AbortSignal): Promise<Photo[]> {
+    await this.assertCatExists(catId, signal);
+    const keys = (await this.storage.list(this.prefix(catId))).filter((key) =>
+      key.endsWith('.json'),
+    );
+    const photos = await Promise.all(keys.map((key) => this.readMetadata(key)));
+    return photos
+      .filter((photo) => photo !== undefined)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async findOne(
+    catId: number,
+    photoId: string,
+    signal?: AbortSignal,
+  ): Promise<Photo> {
+    await this.assertCatExists(catId, signal);
+    const photo = await this.readMetadata(this.metadataKey(catId, photoId));
+    if (!photo) {
+      throw new PhotoNotFoundException(catId, photoId);
+    }
+    return photo;
+  }
+
+  /**
+   * @param photo
+   * @param range the bytes to read, the whole photo if not given
+   * @returns the content of the photo
+   */
+  async open(photo: Photo, range?: ByteRange): Promise<Readable> {
+    const content = await this.storage.read(this.contentKey(photo), range);
+    if (!content) {
+      throw new PhotoNotFoundException(photo.catId, photo.id);
+    }
+    return content;
+  }
+
+  async remove(
+    catId: number,
+    photoId: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const photo = await this.findOne(catId, photoId, signal);
+    await this.storage.delete(this.metadataKey(catId, photoId));
+    await this.storage.delete(this.contentKey(photo));
+    this.logger.log({ message: 'Photo removed', catId, photoId });
+  }
+
+  /**
+   * Deletes all photos of a cat, e.g. because the cat has been removed.
+   * @param catId
+   */
+  async removeAll(catId: number): Promise<void> {
+    const keys = await this.storage.list(this.prefix(catId));
+    // metadata first, see above
+    keys.sort(
+      (a, b) => Number(b.endsWith('.json')) - Number(a.endsWith('.json')),
+    );
+    for (const key of keys) {
+      await this.storage.delete(key);
+    }
+    if (keys.length > 0) {
+      this.logger.log({ message: 'Photos removed', catId });
+    }
+  }
+
+  private async assertCatExists(
+    catId: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (!(await this.catsRepository.findOne(catId, signal))) {
+      throw new CatNotFoundException(catId);
+    }
+  }
+
+  private async readMetadata(key: string): Promise<Photo | undefined> {
+    const content = await this.storage.read(key);
+    if (!content) {
+      return undefined;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of content) {
+      chunks.push(chunk);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  }
+
+  private prefix(catId: number): string {
+    return `cats/${catId}/photos/`;
+  }
+
+  private contentKey(photo: Photo): string {
+    return `${this.prefix(photo.catId)}${photo.id}`;
+  }
+
+  private metadataKey(catId: number, photoId: string): string {
+    return `${this.prefix(catId)}${photoId}.json`;
+  }
+}
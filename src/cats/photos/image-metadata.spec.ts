@@ -0,0 +1,76 @@
+import {
+  readImageMetadata,
+  thumbnailDimensions,
+} from '@cats/photos/image-metadata';
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from('89504e470d0a1a0a', 'hex').copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+describe('image metadata', () => {
+  it('reads the dimensions of a PNG', () => {
+    expect(readImageMetadata(png(640, 480))).toEqual({
+      mimeType: 'image/png',
+      width: 640,
+      height: 480,
+    });
+  });
+
+  it('reads the dimensions of a GIF', () => {
+    const gif = Buffer.from('GIF89a\x20\x03\x58\x02', 'latin1');
+
+    expect(readImageMetadata(gif)).toEqual({
+      mimeType: 'image/gif',
+      width: 800,
+      height: 600,
+    });
+  });
+
+  it('finds the start of frame of a JPEG behind other segments', () => {
+    const jpeg = Buffer.from([
+      ...[0xff, 0xd8],
+      // APP0 with 4 bytes of payload
+      ...[0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46],
+      // SOF2 (progressive): length, precision, height, width
+      ...[0xff, 0xc2, 0x00, 0x11, 0x08, 0x01, 0xe0, 0x02, 0x80],
+    ]);
+
+    expect(readImageMetadata(jpeg)).toEqual({
+      mimeType: 'image/jpeg',
+      width: 640,
+      height: 480,
+    });
+  });
+
+  it('reads the canvas of an extended WebP', () => {
+    const webp = Buffer.alloc(30);
+    webp.write('RIFF', 0, 'latin1');
+    webp.write('WEBPVP8X', 8, 'latin1');
+    webp.writeUIntLE(1023, 24, 3);
+    webp.writeUIntLE(767, 27, 3);
+
+    expect(readImageMetadata(webp)).toEqual({
+      mimeType: 'image/webp',
+      width: 1024,
+      height: 768,
+    });
+  });
+
+  it('rejects other and truncated files', () => {
+    expect(readImageMetadata(Buffer.from('not an image'))).toBeUndefined();
+    expect(readImageMetadata(png(1, 1).subarray(0, 20))).toBeUndefined();
+    expect(readImageMetadata(Buffer.from([0xff, 0xd8]))).toBeUndefined();
+  });
+
+  it('scales thumbnails down to fit into the square', () => {
+    expect(thumbnailDimensions(1024, 768)).toEqual({ width: 256, height: 192 });
+    expect(thumbnailDimensions(100, 4000)).toEqual({ width: 6, height: 256 });
+    expect(thumbnailDimensions(64, 48)).toEqual({ width: 64, height: 48 });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * The media types of the photos which can be uploaded.
+ */
+export const PHOTO_MEDIA_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+/**
+ * Thumbnails fit into a square of this size.
+ */
+export const THUMBNAIL_SIZE = 256;
+
+export interface ImageMetadata {
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Detects the format of an image by its magic number and reads the dimensions from its header.
+ * The Content-Type of an upload is chosen by the client, so it can't be trusted on its own
+ * (see FileTypeValidator): a file renamed to photo.png is still rejected if it isn't a PNG.
+ * @param data the content of the image
+ * @returns the metadata, or undefined if the data isn't an image of a supported format
+ */
+export function readImageMetadata(data: Buffer): ImageMetadata | undefined {
+  try {
+    return readPng(data) ?? readGif(data) ?? readWebp(data) ?? readJpeg(data);
+  } catch (error) {
+    // a truncated header
+    if (
+      error.code === 'ERR_OUT_OF_RANGE' ||
+      error.code === 'ERR_BUFFER_OUT_OF_BOUNDS'
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Scales the image down to fit into a THUMBNAIL_SIZE square, keeping the aspect ratio.
+ * Images which are smaller already keep their size.
+ * @param width
+ * @param height
+ */
+export function thumbnailDimensions(
+  width: number,
+  height: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function readPng(data: Buffer): ImageMetadata | undefined {
+  // signature, then the IHDR chunk: length, type, width, height
+  if (
+    !data.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex')) ||
+    data.toString('latin1', 12, 16) !== 'IHDR'
+  ) {
+    return undefined;
+  }
+  return {
+    mimeType: 'image/png',
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+  };
+}
+
+function readGif(data: Buffer): ImageMetadata | undefined {
+  const signature = data.toString('latin1', 0, 6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    return undefined;
+  }
+  return {
+    mimeType: 'image/gif',
+    width: data.readUInt16LE(6),
+    height: data.readUInt16LE(8),
+  };
+}
+
+function readWebp(data: Buffer): ImageMetadata | undefined {
+  if (
+    data.toString('latin1', 0, 4) !== 'RIFF' ||
+    data.toString('latin1', 8, 12) !== 'WEBP'
+  ) {
+    return undefined;
+  }
+  const dimensions = (width: number, height: number) => ({
+    mimeType: 'image/webp',
+    width,
+    height,
+  });
+  switch (data.toString('latin1', 12, 16)) {
+    case 'VP8 ':
+      // lossy: 14 bit dimensions after the frame tag and start code
+      return dimensions(
+        data.readUInt16LE(26) & 0x3fff,
+        data.readUInt16LE(28) & 0x3fff,
+      );
+    case 'VP8L': {
+      // lossless: 14 bit dimensions minus one, packed after the signature byte
+      const bits = data.readUInt32LE(21);
+      return dimensions((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1);
+    }
+    case 'VP8X':
+      // extended: 24 bit canvas dimensions minus one
+      return dimensions(data.readUIntLE(24, 3) + 1, data.readUIntLE(27, 3) + 1);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * JPEG files consist of segments, the dimensions are part of the start of frame (SOFn) segment.
+ */
+function readJpeg(data: Buffer): ImageMetadata | undefined {
+  if (data.readUInt16BE(0) !== 0xffd8) {
+    return undefined;
+  }
+  let offset = 2;
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    // SOF0 - SOF15, except DHT (c4), JPG (c8) and DAC (cc)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        mimeType: 'image/jpeg',
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
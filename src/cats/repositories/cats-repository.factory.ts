@@ -0,0 +1,18 @@
+import { CatsPersistenceOptions } from '@cats/interfaces/cats-module-options.interface';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { InMemoryCatsRepository } from '@cats/repositories/in-memory-cats.repository';
+import { JsonFileCatsRepository } from '@cats/repositories/json-file-cats.repository';
+import { SqliteCatsRepository } from '@cats/repositories/sqlite-cats.repository';
+
+export function createCatsRepository(
+  options: CatsPersistenceOptions,
+): CatsRepository {
+  switch (options.driver) {
+    case 'memory':
+      return new InMemoryCatsRepository();
+    case 'json':
+      return new JsonFileCatsRepository(options.path);
+    case 'sqlite':
+      return new SqliteCatsRepository(options.path);
+  }
+}
@@ -0,0 +1,73 @@
+import { Cat } from '@cats/interfaces/cat.interface';
+
+/**
+ * The CatsRepository hides how cats are persisted from the CatsService.
+ *
+ * An abstract class is used instead of an interface, because interfaces are removed during the transpilation
+ * and therefore can't be used as injection token. The abstract class is kept at runtime,
+ * so the CatsService can simply ask for a CatsRepository in its constructor
+ * and the CatsModule decides which implementation is provided (see CatsModule.forRoot()).
+ *
+ * All methods are asynchronous, so that implementations are free to access the file system or a database.
+ * They accept an optional AbortSignal and don't start (or commit) their work once it's aborted.
+ *
+ * Changes are optimistic: save() and remove() only succeed if the cat still has the version the caller has seen.
+ * The version has to be compared and changed in one step (a transaction, a conditional UPDATE, ...),
+ * otherwise two concurrent requests could both pass the check and the second one would overwrite the first.
+ */
+export abstract class CatsRepository {
+  /**
+   * Stores a new cat and assigns a unique id and the version 1 to it.
+   * Ids are never reused, even after the cat was removed.
+   */
+  abstract create(
+    cat: Omit<Cat, 'id' | 'version'>,
+    signal?: AbortSignal,
+  ): Promise<Cat>;
+
+  /**
+   * Stores several new cats at once. Either all of them are stored or, if storing fails, none.
+   * @returns the created cats in the order of the input
+   */
+  abstract createMany(
+    cats: Omit<Cat, 'id' | 'version'>[],
+    signal?: AbortSignal,
+  ): Promise<Cat[]>;
+
+  abstract findAll(signal?: AbortSignal): Promise<Cat[]>;
+
+  /**
+   * Yields all cats ordered by id, without holding all of them in memory where the storage allows it.
+   * Cats created or removed while iterating may or may not be part of the result.
+   */
+  abstract iterate(signal?: AbortSignal): AsyncIterable<Cat>;
+
+  /**
+   * @returns the cat or undefined if there is no cat with the given id
+   */
+  abstract findOne(id: number, signal?: AbortSignal): Promise<Cat | undefined>;
+
+  /**
+   * Overwrites an existing cat, if its stored version is still cat.version, and increments the version.
+   * @returns the stored cat with its new version, or undefined if there is no cat with the given id and version
+   */
+  abstract save(cat: Cat, signal?: AbortSignal): Promise<Cat | undefined>;
+
+  /**
+   * @param id
+   * @param version the version the cat must have, any version if undefined
+   * @param signal
+   * @returns false if there is no cat with the given id and version
+   */
+  abstract remove(
+    id: number,
+    version?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean>;
+
+  /**
+   * Checks that the storage can be reached, e.g. by the readiness check (see CatsPersistenceHealthIndicator).
+   * Rejects with the cause if it can't.
+   */
+  abstract ping(signal?: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,75 @@
+import { Cat } from '@cats/interfaces/cat.interface';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { throwIfAborted } from '@root/utils/abort';
+
+/**
+ * Keeps the cats in memory only, they are gone once the application stops.
+ * Useful for tests and demos.
+ */
+export class InMemoryCatsRepository extends CatsRepository {
+  private readonly cats = new Map<number, Cat>();
+  private nextId = 1;
+
+  async create(
+    cat: Omit<Cat, 'id' | 'version'>,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    throwIfAborted(signal);
+    const created: Cat = { id: this.nextId++, ...cat, version: 1 };
+    this.cats.set(created.id, created);
+    return { ...created };
+  }
+
+  async createMany(
+    cats: Omit<Cat, 'id' | 'version'>[],
+    signal?: AbortSignal,
+  ): Promise<Cat[]> {
+    throwIfAborted(signal);
+    return Promise.all(cats.map((cat) => this.create(cat)));
+  }
+
+  async findAll(signal?: AbortSignal): Promise<Cat[]> {
+    throwIfAborted(signal);
+    return [...this.cats.values()].map((cat) => ({ ...cat }));
+  }
+
+  async *iterate(signal?: AbortSignal): AsyncIterable<Cat> {
+    for (const cat of this.cats.values()) {
+      throwIfAborted(signal);
+      yield { ...cat };
+    }
+  }
+
+  async findOne(id: number, signal?: AbortSignal): Promise<Cat | undefined> {
+    throwIfAborted(signal);
+    const cat = this.cats.get(id);
+    return cat && { ...cat };
+  }
+
+  async save(cat: Cat, signal?: AbortSignal): Promise<Cat | undefined> {
+    throwIfAborted(signal);
+    if (this.cats.get(cat.id)?.version !== cat.version) {
+      return undefined;
+    }
+    const saved = { ...cat, version: cat.version + 1 };
+    this.cats.set(cat.id, saved);
+    return { ...saved };
+  }
+
+  async remove(
+    id: number,
+    version?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    throwIfAborted(signal);
+    const cat = this.cats.get(id);
+    if (!cat || (version !== undefined && cat.version !== version)) {
+      return false;
+    }
+    return this.cats.delete(id);
+  }
+
+  async ping(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+  }
+}
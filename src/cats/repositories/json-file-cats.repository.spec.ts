@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JsonFileCatsRepository } from '@cats/repositories/json-file-cats.repository';
+
+describe('JsonFileCatsRepository', () => {
+  let directory: string;
+  let path: string;
+  let repository: JsonFileCatsRepository;
+  const tom = { name: 'Tom', age: 3, breed: 'Tabby', owner: 'alice' };
+  const kitty = { name: 'Kitty', age: 1, breed: 'Siamese', owner: 'alice' };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'cats-'));
+    path = join(directory, 'data', 'cats.json');
+    repository = new JsonFileCatsRepository(path);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes a temporary file and renames it to the target', async () => {
+    const rename = jest.spyOn(fs, 'rename');
+
+    await repository.create(tom);
+
+    expect(rename).toHaveBeenCalledWith(`${path}.${process.pid}.tmp`, path);
+    expect(await readdir(join(directory, 'data'))).toEqual(['cats.json']);
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({
+      nextId: 2,
+      cats: [{ id: 1, ...tom, version: 1 }],
+    });
+  });
+
+  it('keeps the ids stable across instances', async () => {
+    await repository.create(tom);
+    const created = await repository.create(kitty);
+    await repository.remove(created.id);
+
+    const reopened = new JsonFileCatsRepository(path);
+
+    expect(await reopened.findAll()).toEqual([{ id: 1, ...tom, version: 1 }]);
+    expect((await reopened.create(kitty)).id).toBe(3);
+  });
+
+  it('reloads the file after a failed write', async () => {
+    await repository.create(tom);
+    jest.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(repository.createMany([kitty, kitty])).rejects.toThrow(
+      'disk full',
+    );
+
+    expect(await repository.findAll()).toEqual([{ id: 1, ...tom, version: 1 }]);
+    expect((await repository.create(kitty)).id).toBe(2);
+  });
+
+  it('only saves the current version of a cat', async () => {
+    const created = await repository.create(tom);
+    const saved = await repository.save({ ...created, age: 4 });
+
+    expect(saved).toEqual({ ...created, age: 4, version: 2 });
+    expect(await repository.save({ ...created, age: 5 })).toBeUndefined();
+    expect(await repository.remove(created.id, 1)).toBe(false);
+    expect(await repository.findOne(created.id)).toEqual(saved);
+    expect(await repository.remove(created.id, 2)).toBe(true);
+  });
+
+  it('reads files written before cats had a version', async () => {
+    await fs.mkdir(join(directory, 'data'));
+    await writeFile(
+      path,
+      JSON.stringify({ nextId: 2, cats: [{ id: 1, ...tom }] }),
+    );
+
+    expect(await repository.findOne(1)).toEqual({ id: 1, ...tom, version: 1 });
+  });
+});
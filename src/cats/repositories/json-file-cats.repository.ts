@@ -0,0 +1,172 @@
+import { constants, promises as fs } from 'fs';
+import { dirname } from 'path';
+import { Cat } from '@cats/interfaces/cat.interface';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { throwIfAborted } from '@root/utils/abort';
+
+interface CatsFile {
+  nextId: number;
+  cats: Cat[];
+}
+
+/**
+ * Persists the cats in a single JSON file.
+ *
+ * The file is read once on first access and kept in memory afterwards.
+ * Every change rewrites the whole file atomically:
+ * the content is written to a temporary file next to the target, which is then renamed to the target.
+ * A rename within the same directory is atomic, so a crash never leaves a half written file behind.
+ *
+ * Changes are queued, so that concurrent requests can't interleave their read-modify-write cycles.
+ */
+export class JsonFileCatsRepository extends CatsRepository {
+  private data: Promise<CatsFile>;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  async create(
+    cat: Omit<Cat, 'id' | 'version'>,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    return this.modify(signal, (data) => {
+      const created: Cat = { id: data.nextId++, ...cat, version: 1 };
+      data.cats.push(created);
+      return { ...created };
+    });
+  }
+
+  async createMany(
+    cats: Omit<Cat, 'id' | 'version'>[],
+    signal?: AbortSignal,
+  ): Promise<Cat[]> {
+    return this.modify(signal, (data) => {
+      const created = cats.map(
+        (cat): Cat => ({ id: data.nextId++, ...cat, version: 1 }),
+      );
+      data.cats.push(...created);
+      return created.map((cat) => ({ ...cat }));
+    });
+  }
+
+  async findAll(signal?: AbortSignal): Promise<Cat[]> {
+    const { cats } = await this.load();
+    throwIfAborted(signal);
+    return cats.map((cat) => ({ ...cat }));
+  }
+
+  /**
+   * The whole file is kept in memory anyway, so this only saves copying all cats at once.
+   */
+  async *iterate(signal?: AbortSignal): AsyncIterable<Cat> {
+    const { cats } = await this.load();
+    for (const cat of [...cats]) {
+      throwIfAborted(signal);
+      yield { ...cat };
+    }
+  }
+
+  async findOne(id: number, signal?: AbortSignal): Promise<Cat | undefined> {
+    const { cats } = await this.load();
+    throwIfAborted(signal);
+    const cat = cats.find((candidate) => candidate.id === id);
+    return cat && { ...cat };
+  }
+
+  async save(cat: Cat, signal?: AbortSignal): Promise<Cat | undefined> {
+    return this.modify(signal, (data) => {
+      const index = data.cats.findIndex(({ id }) => id === cat.id);
+      if (index < 0 || data.cats[index].version !== cat.version) {
+        return undefined;
+      }
+      data.cats[index] = { ...cat, version: cat.version + 1 };
+      return { ...data.cats[index] };
+    });
+  }
+
+  async remove(
+    id: number,
+    version?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    return this.modify(signal, (data) => {
+      const index = data.cats.findIndex((cat) => cat.id === id);
+      if (
+        index < 0 ||
+        (version !== undefined && data.cats[index].version !== version)
+      ) {
+        return false;
+      }
+      data.cats.splice(index, 1);
+      return true;
+    });
+  }
+
+  /**
+   * The file has to be readable and its directory writable, as changes are written to a temporary file first.
+   */
+  async ping(signal?: AbortSignal): Promise<void> {
+    await this.load();
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.access(dirname(this.path), constants.W_OK);
+    throwIfAborted(signal);
+  }
+
+  private load(): Promise<CatsFile> {
+    if (!this.data) {
+      this.data = this.read();
+    }
+    return this.data;
+  }
+
+  /**
+   * Files written before cats had a version are read as if all cats were in their first version.
+   */
+  private async read(): Promise<CatsFile> {
+    try {
+      const data: CatsFile = JSON.parse(await fs.readFile(this.path, 'utf8'));
+      data.cats.forEach((cat) => (cat.version ??= 1));
+      return data;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return { nextId: 1, cats: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies the change to the in-memory copy and writes the result to disk.
+   * If writing fails, the in-memory copy is reloaded from disk, so it doesn't drift from the file
+   * and a change of several cats (createMany()) is undone as a whole.
+   * A change which was aborted while waiting in the queue is skipped.
+   */
+  private modify<T>(
+    signal: AbortSignal | undefined,
+    change: (data: CatsFile) => T,
+  ): Promise<T> {
+    const result = this.queue.then(async () => {
+      const data = await this.load();
+      throwIfAborted(signal);
+      const value = change(data);
+      try {
+        await this.write(data);
+      } catch (error) {
+        this.data = undefined;
+        throw error;
+      }
+      return value;
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async write(data: CatsFile): Promise<void> {
+    const temporaryPath = `${this.path}.${process.pid}.tmp`;
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(temporaryPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(temporaryPath, this.path);
+  }
+}
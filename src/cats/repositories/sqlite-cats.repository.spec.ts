@@ -0,0 +1,108 @@
+import * as Database from 'better-sqlite3';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteCatsRepository } from '@cats/repositories/sqlite-cats.repository';
+
+describe('SqliteCatsRepository', () => {
+  let directory: string;
+  let path: string;
+  const repositories: SqliteCatsRepository[] = [];
+  const tom = { name: 'Tom', age: 3, breed: 'Tabby', owner: 'alice' };
+  const kitty = { name: 'Kitty', age: 1, breed: 'Siamese', owner: 'alice' };
+
+  const open = (file = path) => {
+    const repository = new SqliteCatsRepository(file);
+    repositories.push(repository);
+    return repository;
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'cats-'));
+    path = join(directory, 'data', 'cats.db');
+  });
+
+  afterEach(async () => {
+    repositories
+      .splice(0)
+      .forEach((repository) => repository.onModuleDestroy());
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('never reuses the ids of removed cats', async () => {
+    const repository = open();
+    await repository.create(tom);
+    const created = await repository.create(kitty);
+    await repository.remove(created.id);
+    repository.onModuleDestroy();
+    repositories.pop();
+
+    const reopened = open();
+
+    expect(await reopened.findAll()).toEqual([{ id: 1, ...tom, version: 1 }]);
+    expect((await reopened.create(kitty)).id).toBe(3);
+  });
+
+  it('only saves the current version of a cat', async () => {
+    const repository = open(':memory:');
+    const created = await repository.create(tom);
+    const saved = await repository.save({ ...created, age: 4 });
+
+    expect(saved).toEqual({ ...created, age: 4, version: 2 });
+    expect(await repository.save({ ...created, age: 5 })).toBeUndefined();
+    expect(await repository.remove(created.id, 1)).toBe(false);
+    expect(await repository.findOne(created.id)).toEqual(saved);
+    expect(await repository.remove(created.id, 2)).toBe(true);
+  });
+
+  it('rolls back createMany() as a whole', async () => {
+    const repository = open(':memory:');
+
+    // the native addon keeps the SqliteError class of the first test file which loaded it, it's no Error of this one
+    await expect(
+      repository.createMany([kitty, { ...tom, name: null }]),
+    ).rejects.toMatchObject({ code: 'SQLITE_CONSTRAINT_NOTNULL' });
+
+    expect(await repository.findAll()).toEqual([]);
+  });
+
+  it('keeps the origin and leaves a missing one out', async () => {
+    const repository = open(':memory:');
+    await repository.create({ ...tom, origin: 'Egypt' });
+    await repository.create(kitty);
+
+    expect(
+      (await repository.findAll()).map((cat) => [cat.name, cat.origin]),
+    ).toEqual([
+      ['Tom', 'Egypt'],
+      ['Kitty', undefined],
+    ]);
+    expect('origin' in (await repository.findOne(2))).toBe(false);
+  });
+
+  it('adds the columns missing in databases of earlier versions', async () => {
+    open().onModuleDestroy();
+    repositories.pop();
+    const db = new Database(path);
+    db.exec('DROP TABLE cats');
+    db.exec(
+      'CREATE TABLE cats (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, age INTEGER NOT NULL, breed TEXT NOT NULL)',
+    );
+    db.prepare(
+      "INSERT INTO cats (name, age, breed) VALUES ('Tom', 3, 'Tabby')",
+    ).run();
+    db.close();
+
+    const repository = open();
+
+    expect(await repository.findAll()).toEqual([
+      { id: 1, name: 'Tom', age: 3, breed: 'Tabby', owner: '', version: 1 },
+    ]);
+    expect(
+      await repository.save({
+        ...(await repository.findOne(1)),
+        owner: 'alice',
+      }),
+    ).toMatchObject({ version: 2 });
+  });
+});
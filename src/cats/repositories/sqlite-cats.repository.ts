@@ -0,0 +1,189 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { Cat } from '@cats/interfaces/cat.interface';
+import { CatsRepository } from '@cats/repositories/cats.repository';
+import { throwIfAborted } from '@root/utils/abort';
+
+type CatRow = Omit<Cat, 'origin'> & { origin: string | null };
+
+/**
+ * Persists the cats in an embedded SQLite database.
+ *
+ * better-sqlite3 has a synchronous API, which is fine for an embedded database
+ * since the queries are executed in-process and are very fast.
+ * The methods are still asynchronous to fulfill the CatsRepository contract.
+ *
+ * AUTOINCREMENT guarantees that ids of removed cats are never reused.
+ *
+ * Providers may implement lifecycle hooks as well. Nest calls onModuleDestroy()
+ * when the application shuts down, which is the right place to close the database connection.
+ */
+export class SqliteCatsRepository
+  extends CatsRepository
+  implements OnModuleDestroy
+{
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    super();
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cats (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        age INTEGER NOT NULL,
+        breed TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        origin TEXT,
+        version INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+    this.migrate();
+  }
+
+  async create(
+    cat: Omit<Cat, 'id' | 'version'>,
+    signal?: AbortSignal,
+  ): Promise<Cat> {
+    throwIfAborted(signal);
+    const { lastInsertRowid } = this.db
+      .prepare(
+        'INSERT INTO cats (name, age, breed, owner, origin) VALUES (@name, @age, @breed, @owner, @origin)',
+      )
+      .run({ ...cat, origin: cat.origin ?? null });
+    return { id: Number(lastInsertRowid), ...cat, version: 1 };
+  }
+
+  /**
+   * The inserts run in a transaction, which is rolled back if one of them fails.
+   */
+  async createMany(
+    cats: Omit<Cat, 'id' | 'version'>[],
+    signal?: AbortSignal,
+  ): Promise<Cat[]> {
+    throwIfAborted(signal);
+    const insert = this.db.prepare(
+      'INSERT INTO cats (name, age, breed, owner, origin) VALUES (@name, @age, @breed, @owner, @origin)',
+    );
+    return this.db.transaction(() =>
+      cats.map((cat) => {
+        const { lastInsertRowid } = insert.run({
+          ...cat,
+          origin: cat.origin ?? null,
+        });
+        return { id: Number(lastInsertRowid), ...cat, version: 1 };
+      }),
+    )();
+  }
+
+  async findAll(signal?: AbortSignal): Promise<Cat[]> {
+    throwIfAborted(signal);
+    return this.db
+      .prepare('SELECT * FROM cats ORDER BY id')
+      .all()
+      .map((row: CatRow) => this.toCat(row));
+  }
+
+  /**
+   * Reads the cats in batches, each continuing after the last id of the previous one (keyset pagination).
+   * An open cursor (Statement.iterate()) would block the connection for other queries until the iteration ends,
+   * which may take as long as the client needs to download an export.
+   */
+  async *iterate(signal?: AbortSignal): AsyncIterable<Cat> {
+    const batch = this.db.prepare(
+      'SELECT * FROM cats WHERE id > ? ORDER BY id LIMIT 100',
+    );
+    let rows: CatRow[];
+    let lastId = 0;
+    do {
+      throwIfAborted(signal);
+      rows = batch.all(lastId) as CatRow[];
+      for (const row of rows) {
+        yield this.toCat(row);
+      }
+      lastId = rows[rows.length - 1]?.id;
+    } while (rows.length > 0);
+  }
+
+  async findOne(id: number, signal?: AbortSignal): Promise<Cat | undefined> {
+    throwIfAborted(signal);
+    const row = this.db.prepare('SELECT * FROM cats WHERE id = ?').get(id) as
+      | CatRow
+      | undefined;
+    return row && this.toCat(row);
+  }
+
+  /**
+   * The version is compared in the WHERE clause, so checking and incrementing it is a single statement.
+   */
+  async save(cat: Cat, signal?: AbortSignal): Promise<Cat | undefined> {
+    throwIfAborted(signal);
+    const { changes } = this.db
+      .prepare(
+        'UPDATE cats SET name = @name, age = @age, breed = @breed, owner = @owner, origin = @origin, version = version + 1 WHERE id = @id AND version = @version',
+      )
+      .run({ ...cat, origin: cat.origin ?? null });
+    return changes > 0 ? { ...cat, version: cat.version + 1 } : undefined;
+  }
+
+  async remove(
+    id: number,
+    version?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    throwIfAborted(signal);
+    const { changes } = this.db
+      .prepare(
+        'DELETE FROM cats WHERE id = @id AND (@version IS NULL OR version = @version)',
+      )
+      .run({ id, version: version ?? null });
+    return changes > 0;
+  }
+
+  /**
+   * A trivial query fails if the database can't be read, e.g. because it has been closed.
+   */
+  async ping(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    this.db.prepare('SELECT 1').get();
+  }
+
+  /**
+   * Adds the columns introduced after the table was first created to existing databases.
+   */
+  private migrate() {
+    const columns = (
+      this.db.prepare('PRAGMA table_info(cats)').all() as { name: string }[]
+    ).map(({ name }) => name);
+    if (!columns.includes('owner')) {
+      this.db.exec(
+        "ALTER TABLE cats ADD COLUMN owner TEXT NOT NULL DEFAULT ''",
+      );
+    }
+    if (!columns.includes('origin')) {
+      this.db.exec('ALTER TABLE cats ADD COLUMN origin TEXT');
+    }
+    if (!columns.includes('version')) {
+      this.db.exec(
+        'ALTER TABLE cats ADD COLUMN version INTEGER NOT NULL DEFAULT 1',
+      );
+    }
+  }
+
+  /**
+   * SQLite returns NULL for a missing origin, while the Cat leaves it out.
+   */
+  private toCat({ origin, ...cat }: CatRow): Cat {
+    return origin === null ? cat : { ...cat, origin };
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+}
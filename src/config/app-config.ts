@@ -0,0 +1,321 @@
+import 'reflect-metadata';
+import { plainToInstance, Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ServerConfig {
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(65535)
+  port = 3000;
+}
+
+export class HttpConfig {
+  /**
+   * Default timeout of the requests in milliseconds, see TimeoutInterceptor.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  requestTimeout = 5000;
+}
+
+export class CacheConfig {
+  /**
+   * Default time to live of a cached response in seconds, see ResponseCacheOptions.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  ttl = 60;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxSize = 500;
+}
+
+export class ThrottleConfig {
+  /**
+   * Default number of requests a client may send to a route within ttl seconds, see ThrottleGuard.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  limit = 100;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  ttl = 60;
+
+  @IsIn(['token-bucket', 'sliding-window'])
+  strategy: 'token-bucket' | 'sliding-window' = 'token-bucket';
+}
+
+export class SigningKeyConfig {
+  @IsString()
+  @IsNotEmpty()
+  kid: string;
+
+  @IsString()
+  @IsNotEmpty()
+  secret: string;
+}
+
+export class UserConfig {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  username: string;
+
+  /**
+   * See hashPassword() in users.service.ts.
+   */
+  @IsString()
+  @IsNotEmpty()
+  passwordHash: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  roles: string[] = [];
+}
+
+export class AuthConfig {
+  /**
+   * The keys signing the tokens. The environment variable lists kid:secret pairs separated by commas.
+   * Without keys, a random key is generated, so tokens don't survive a restart.
+   */
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value.split(',').map((entry) => {
+          const [kid, ...secret] = entry.split(':');
+          return plainToInstance(SigningKeyConfig, {
+            kid,
+            secret: secret.join(':'),
+          });
+        })
+      : value,
+  )
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SigningKeyConfig)
+  signingKeys?: SigningKeyConfig[];
+
+  /**
+   * The kid of the key signing new tokens, the first key by default.
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  activeKid?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  issuer = 'cats-api';
+
+  @IsString()
+  @IsNotEmpty()
+  audience = 'cats-api';
+
+  /**
+   * Lifetime of the tokens in seconds.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  tokenTtl = 3600;
+
+  /**
+   * The environment variable holds them as JSON array, which is left as it is if it can't be parsed,
+   * so the validation reports it. @Type() runs before @Transform(), so the parsed users are converted here.
+   */
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return plainToInstance(UserConfig, JSON.parse(value));
+    } catch {
+      return value;
+    }
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UserConfig)
+  users: UserConfig[] = [];
+}
+
+export class LoggingConfig {
+  /**
+   * The least severe level which is written.
+   */
+  @IsIn(['error', 'warn', 'log', 'debug', 'verbose'])
+  level: 'error' | 'warn' | 'log' | 'debug' | 'verbose' = 'log';
+
+  @IsIn(['json', 'pretty'])
+  format: 'json' | 'pretty' = 'json';
+}
+
+export class DeprecationConfig {
+  /**
+   * The date version 1 of the API is removed, announced by the Sunset header of its responses.
+   */
+  @Type(() => Date)
+  @IsDate()
+  v1Sunset = new Date('2027-06-30T00:00:00Z');
+}
+
+export class CatsConfig {
+  @IsIn(['memory', 'json', 'sqlite'])
+  persistence: 'memory' | 'json' | 'sqlite' = 'memory';
+
+  /**
+   * The JSON file or SQLite database file.
+   * Defaults to data/cats.json or data/cats.db, depending on the persistence.
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  storagePath?: string;
+
+  /**
+   * The number of cats a user may own, unlimited if not set.
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxPerOwner?: number;
+}
+
+export class StorageConfig {
+  /**
+   * The directory of uploaded files, e.g. the photos of the cats.
+   */
+  @IsString()
+  @IsNotEmpty()
+  directory = 'data/uploads';
+}
+
+export class IdempotencyConfig {
+  /**
+   * Seconds the responses of requests with an Idempotency-Key are replayed for.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  ttl = 24 * 60 * 60;
+
+  /**
+   * Seconds the key of a request which is still processed stays reserved.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  pendingTtl = 60;
+}
+
+export class AuditConfig {
+  /**
+   * The JSON Lines file of the audit trail, which is kept in memory only if not set.
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  path?: string;
+}
+
+export class GraphqlConfig {
+  /**
+   * The maximum nesting of the fields of a GraphQL operation.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxDepth = 8;
+
+  /**
+   * The maximum cost of a GraphQL operation, every field costs 1 and lists multiply the cost of their items.
+   */
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxComplexity = 500;
+}
+
+/**
+ * The configuration of the application.
+ *
+ * The class is the schema of the configuration as well:
+ * the members are validated by class-validator when the application starts (see loadConfig()),
+ * and the initializers are the defaults of the members which aren't configured.
+ * Like query parameters, environment variables are strings, so numbers are converted by @Type(() => Number).
+ *
+ * The class is the injection token of the configuration, too, so it's injected without @Inject():
+ * constructor(private readonly config: AppConfig) {}
+ */
+export class AppConfig {
+  @ValidateNested()
+  @Type(() => ServerConfig)
+  server = new ServerConfig();
+
+  @ValidateNested()
+  @Type(() => HttpConfig)
+  http = new HttpConfig();
+
+  @ValidateNested()
+  @Type(() => CacheConfig)
+  cache = new CacheConfig();
+
+  @ValidateNested()
+  @Type(() => ThrottleConfig)
+  throttle = new ThrottleConfig();
+
+  @ValidateNested()
+  @Type(() => AuthConfig)
+  auth = new AuthConfig();
+
+  @ValidateNested()
+  @Type(() => LoggingConfig)
+  logging = new LoggingConfig();
+
+  @ValidateNested()
+  @Type(() => DeprecationConfig)
+  deprecation = new DeprecationConfig();
+
+  @ValidateNested()
+  @Type(() => CatsConfig)
+  cats = new CatsConfig();
+
+  @ValidateNested()
+  @Type(() => StorageConfig)
+  storage = new StorageConfig();
+
+  @ValidateNested()
+  @Type(() => IdempotencyConfig)
+  idempotency = new IdempotencyConfig();
+
+  @ValidateNested()
+  @Type(() => GraphqlConfig)
+  graphql = new GraphqlConfig();
+
+  @ValidateNested()
+  @Type(() => AuditConfig)
+  audit = new AuditConfig();
+}
@@ -0,0 +1,40 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { AppConfig } from '@config/app-config';
+import { ConfigModuleOptions } from '@config/interfaces/config-module-options.interface';
+import { loadConfig } from '@config/load-config';
+
+/**
+ * Provides the AppConfig, which is loaded and validated once, when the application starts.
+ * An invalid configuration stops the application with an InvalidConfigException
+ * instead of failing on the first request which reads the broken value.
+ *
+ * The module is global, as the configuration is read everywhere.
+ * Other modules get their options from it with their forRootAsync() method, e.g.
+ *
+ * CatsModule.forRootAsync({
+ *   useFactory: (config: AppConfig) => ({ persistence: ... }),
+ *   inject: [AppConfig],
+ * })
+ */
+@Module({})
+export class ConfigModule {
+  static forRoot(options: Partial<ConfigModuleOptions> = {}): DynamicModule {
+    const resolved: ConfigModuleOptions = {
+      configFile: process.env.CONFIG_FILE ?? 'config.yaml',
+      envFile: '.env',
+      env: process.env,
+      ...options,
+    };
+    return {
+      module: ConfigModule,
+      global: true,
+      providers: [
+        {
+          provide: AppConfig,
+          useFactory: () => loadConfig(resolved),
+        },
+      ],
+      exports: [AppConfig],
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * The configuration doesn't match the schema (see AppConfig).
+ * The message lists every violation, so all of them can be fixed at once.
+ */
+export class InvalidConfigException extends Error {
+  constructor(readonly violations: string[]) {
+    super(
+      ['Invalid configuration:', ...violations.map((v) => `- ${v}`)].join('\n'),
+    );
+    this.name = InvalidConfigException.name;
+  }
+}
@@ -0,0 +1,14 @@
+export interface ConfigModuleOptions {
+  /**
+   * The YAML file with the configuration, skipped if it doesn't exist.
+   */
+  configFile: string;
+  /**
+   * The file with additional environment variables, skipped if it doesn't exist.
+   */
+  envFile: string;
+  /**
+   * The environment variables, which take precedence over both files.
+   */
+  env: Record<string, string | undefined>;
+}
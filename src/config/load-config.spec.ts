@@ -0,0 +1,119 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, parseEnvFile } from '@config/load-config';
+import { InvalidConfigException } from '@config/exceptions/invalid-config.exception';
+
+describe('loadConfig', () => {
+  let directory: string;
+  let configFile: string;
+  let envFile: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'config-'));
+    configFile = join(directory, 'config.yaml');
+    envFile = join(directory, '.env');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should fall back to the defaults', () => {
+    const config = loadConfig({ configFile, envFile, env: {} });
+
+    expect(config.server.port).toBe(3000);
+    expect(config.http.requestTimeout).toBe(5000);
+    expect(config.cache).toEqual({ ttl: 60, maxSize: 500 });
+    expect(config.cats.persistence).toBe('memory');
+  });
+
+  it('should prefer the environment over the .env file over the YAML file', () => {
+    writeFileSync(
+      configFile,
+      'server:\n  port: 4000\ncache:\n  ttl: 10\ncats:\n  persistence: json\n',
+    );
+    writeFileSync(envFile, '# local settings\nCACHE_TTL=20\nPORT="5000"\n');
+
+    const config = loadConfig({ configFile, envFile, env: { PORT: '6000' } });
+
+    expect(config.server.port).toBe(6000);
+    expect(config.cache.ttl).toBe(20);
+    expect(config.cats.persistence).toBe('json');
+  });
+
+  it('should report every violation', () => {
+    writeFileSync(configFile, 'sever:\n  port: 4000\n');
+
+    expect(() =>
+      loadConfig({
+        configFile,
+        envFile,
+        env: { PORT: '70000', CATS_PERSISTENCE: 'redis' },
+      }),
+    ).toThrow(
+      new InvalidConfigException([
+        'sever: property sever should not exist',
+        'server.port (PORT): port must not be greater than 65535',
+        'cats.persistence (CATS_PERSISTENCE): persistence must be one of the following values: memory, json, sqlite',
+      ]),
+    );
+  });
+});
+
+describe('loadConfig of the auth, logging and deprecation sections', () => {
+  const load = (env: Record<string, string>) =>
+    loadConfig({ configFile: 'missing.yaml', envFile: 'missing.env', env });
+
+  it('should parse the signing keys, users and sunset of the environment', () => {
+    const config = load({
+      AUTH_SIGNING_KEYS: '2024:old,2025:new:er',
+      AUTH_TOKEN_TTL: '600',
+      AUTH_USERS:
+        '[{"id":"1","username":"alice","passwordHash":"x","roles":["admin"]}]',
+      LOG_FORMAT: 'pretty',
+      API_V1_SUNSET: '2030-01-01T00:00:00Z',
+    });
+
+    expect(config.auth).toMatchObject({
+      signingKeys: [
+        { kid: '2024', secret: 'old' },
+        { kid: '2025', secret: 'new:er' },
+      ],
+      tokenTtl: 600,
+      users: [{ id: '1', username: 'alice', roles: ['admin'] }],
+    });
+    expect(config.logging).toEqual({ level: 'log', format: 'pretty' });
+    expect(config.deprecation.v1Sunset).toEqual(
+      new Date('2030-01-01T00:00:00Z'),
+    );
+  });
+
+  it('should report invalid values instead of passing them on', () => {
+    expect(() =>
+      load({
+        AUTH_TOKEN_TTL: 'abc',
+        AUTH_USERS: '[{"id":"1"',
+        LOG_LEVEL: 'trace',
+        API_V1_SUNSET: 'soon',
+      }),
+    ).toThrow(
+      new InvalidConfigException([
+        'auth.tokenTtl (AUTH_TOKEN_TTL): tokenTtl must not be less than 1',
+        'auth.tokenTtl (AUTH_TOKEN_TTL): tokenTtl must be an integer number',
+        'auth.users (AUTH_USERS): users must be an array',
+        'auth.users (AUTH_USERS): each value in nested property users must be either object or array',
+        'logging.level (LOG_LEVEL): level must be one of the following values: error, warn, log, debug, verbose',
+        'deprecation.v1Sunset (API_V1_SUNSET): v1Sunset must be a Date instance',
+      ]),
+    );
+  });
+});
+
+describe('parseEnvFile', () => {
+  it('should skip comments and unquote values', () => {
+    expect(
+      parseEnvFile('# comment\n\nexport A=1\nB = \'two words\'\nC="x=y"\n'),
+    ).toEqual({ A: '1', B: 'two words', C: 'x=y' });
+  });
+});
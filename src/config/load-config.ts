@@ -0,0 +1,146 @@
+import { existsSync, readFileSync } from 'fs';
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+import { parse } from 'yaml';
+import { AppConfig } from '@config/app-config';
+import { ConfigModuleOptions } from '@config/interfaces/config-module-options.interface';
+import { InvalidConfigException } from '@config/exceptions/invalid-config.exception';
+
+/**
+ * The environment variables and the members of the configuration they set.
+ */
+const ENV_VARIABLES: Record<string, string> = {
+  PORT: 'server.port',
+  AUTH_SIGNING_KEYS: 'auth.signingKeys',
+  AUTH_ACTIVE_KID: 'auth.activeKid',
+  AUTH_ISSUER: 'auth.issuer',
+  AUTH_AUDIENCE: 'auth.audience',
+  AUTH_TOKEN_TTL: 'auth.tokenTtl',
+  AUTH_USERS: 'auth.users',
+  LOG_LEVEL: 'logging.level',
+  LOG_FORMAT: 'logging.format',
+  API_V1_SUNSET: 'deprecation.v1Sunset',
+  REQUEST_TIMEOUT: 'http.requestTimeout',
+  CACHE_TTL: 'cache.ttl',
+  CACHE_MAX_SIZE: 'cache.maxSize',
+  THROTTLE_LIMIT: 'throttle.limit',
+  THROTTLE_TTL: 'throttle.ttl',
+  THROTTLE_STRATEGY: 'throttle.strategy',
+  CATS_PERSISTENCE: 'cats.persistence',
+  CATS_STORAGE_PATH: 'cats.storagePath',
+  CATS_MAX_PER_OWNER: 'cats.maxPerOwner',
+  STORAGE_DIRECTORY: 'storage.directory',
+  IDEMPOTENCY_TTL: 'idempotency.ttl',
+  IDEMPOTENCY_PENDING_TTL: 'idempotency.pendingTtl',
+  GRAPHQL_MAX_DEPTH: 'graphql.maxDepth',
+  GRAPHQL_MAX_COMPLEXITY: 'graphql.maxComplexity',
+  AUDIT_PATH: 'audit.path',
+};
+
+/**
+ * Loads the configuration from (in order of precedence)
+ * 1. the environment variables listed in ENV_VARIABLES
+ * 2. the same variables in the .env file
+ * 3. the YAML file, which mirrors the structure of AppConfig, e.g.
+ *    cats:
+ *      persistence: sqlite
+ *      storagePath: data/cats.db
+ * 4. the defaults of AppConfig
+ *
+ * Unknown members of the YAML file are reported, as they are most likely typos.
+ * @param options
+ * @returns the validated configuration
+ * @throws InvalidConfigException listing every violation
+ */
+export function loadConfig(options: ConfigModuleOptions): AppConfig {
+  const plain = readConfigFile(options.configFile);
+  const env = { ...readEnvFile(options.envFile), ...options.env };
+  const sources: Record<string, string> = {};
+  for (const [variable, path] of Object.entries(ENV_VARIABLES)) {
+    if (env[variable] !== undefined && env[variable] !== '') {
+      setPath(plain, path, env[variable]);
+      sources[path] = variable;
+    }
+  }
+
+  const config = plainToInstance(AppConfig, plain, {
+    exposeDefaultValues: true,
+  });
+  const errors = validateSync(config, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+  if (errors.length > 0) {
+    throw new InvalidConfigException(describe(errors, sources));
+  }
+  return config;
+}
+
+/**
+ * Parses the lines of a .env file: KEY=value, optionally prefixed by export and with the value in quotes.
+ * Blank lines and lines starting with # are skipped.
+ * @param content
+ * @returns the variables
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (match && !line.trim().startsWith('#')) {
+      const [, key, value] = match;
+      variables[key] = value.replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  return variables;
+}
+
+function readConfigFile(path: string): Record<string, unknown> {
+  if (!existsSync(path)) {
+    return {};
+  }
+  const content = parse(readFileSync(path, 'utf8'));
+  if (content === null || content === undefined) {
+    return {};
+  }
+  if (typeof content !== 'object' || Array.isArray(content)) {
+    throw new InvalidConfigException([`${path}: expected a mapping`]);
+  }
+  return content;
+}
+
+function readEnvFile(path: string): Record<string, string> {
+  return existsSync(path) ? parseEnvFile(readFileSync(path, 'utf8')) : {};
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split('.');
+  const last = keys.pop();
+  for (const key of keys) {
+    if (typeof target[key] !== 'object' || target[key] === null) {
+      target[key] = {};
+    }
+    target = target[key];
+  }
+  target[last] = value;
+}
+
+/**
+ * Flattens the nested validation errors into one line per violation,
+ * e.g. "server.port (PORT): port must not be greater than 65535".
+ */
+function describe(
+  errors: ValidationError[],
+  sources: Record<string, string>,
+  parent?: string,
+): string[] {
+  return errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    const source = sources[path] ? ` (${sources[path]})` : '';
+    return [
+      ...Object.values(error.constraints ?? {}).map(
+        (message) => `${path}${source}: ${message}`,
+      ),
+      ...describe(error.children ?? [], sources, path),
+    ];
+  });
+}
@@ -0,0 +1,16 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AbortableRequest } from '@interceptors/timeout.interceptor';
+import { httpRequestOf } from '@root/utils/execution-context';
+
+/**
+ * Injects the AbortSignal of the request, which is aborted by the TimeoutInterceptor
+ * once the request timed out or the client closed the connection:
+ *
+ * async findAll(@Signal() signal: AbortSignal) {
+ *   return this.catsService.findAll(signal);
+ * }
+ */
+export const Signal = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) =>
+    httpRequestOf<AbortableRequest>(ctx).signal,
+);
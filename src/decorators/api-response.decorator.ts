@@ -0,0 +1,28 @@
+import { SetMetadata, Type } from '@nestjs/common';
+
+export interface ApiResponseOptions {
+  /**
+   * The DTO returned by the route handler.
+   */
+  type: Type<unknown>;
+  /**
+   * The handler returns a Page of the DTOs, whose items become the data of the envelope.
+   */
+  page?: boolean;
+  /**
+   * The handler returns an array of the DTOs.
+   */
+  isArray?: boolean;
+}
+
+/**
+ * Declares the DTO a route handler returns, for the OpenAPI document.
+ * The return type of a method is only known to the compiler, at runtime all async handlers return a Promise:
+ *
+ * @Get(':id')
+ * @ApiResponse({ type: SendCatDTO })
+ * async findOne(): Promise<SendCatDTO> {}
+ */
+export const API_RESPONSE_KEY = 'apiResponse';
+export const ApiResponse = (options: ApiResponseOptions) =>
+  SetMetadata(API_RESPONSE_KEY, options);
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Overrides the default time to live (in seconds) of responses cached by the CacheInterceptor.
+ * A TTL of 0 disables caching for the route.
+ */
+export const CACHE_TTL_KEY = 'cacheTtl';
+export const CacheTTL = (seconds: number) =>
+  SetMetadata(CACHE_TTL_KEY, seconds);
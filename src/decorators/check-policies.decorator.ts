@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+import {
+  PolicyAction,
+  PolicyHandler,
+} from '@auth/interfaces/policy-handler.interface';
+
+export interface PolicyMetadata {
+  action: PolicyAction;
+  handlers: PolicyHandler<any>[];
+}
+
+export const CHECK_POLICIES_KEY = 'checkPolicies';
+export const CheckPolicies = (
+  action: PolicyAction,
+  ...handlers: PolicyHandler<any>[]
+) =>
+  SetMetadata<string, PolicyMetadata>(CHECK_POLICIES_KEY, { action, handlers });
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Marks a route whose requests may carry an Idempotency-Key header, see IdempotencyInterceptor.
+ * The time to live (in seconds) of the stored responses overrides the default of the IdempotencyModule.
+ */
+export const IDEMPOTENT_KEY = 'idempotent';
+export const Idempotent = (ttl?: number) =>
+  SetMetadata(IDEMPOTENT_KEY, { ttl });
@@ -0,0 +1,14 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { httpRequestOf } from '@root/utils/execution-context';
+
+/**
+ * Injects the If-Match header of the request. Unlike @Headers(), custom decorators accept pipes,
+ * so the header is usually parsed into the expected version right away:
+ *
+ * async update(@IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined) {}
+ */
+export const IfMatch = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) =>
+    httpRequestOf<Request>(ctx).headers['if-match'],
+);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export type MatchMode = 'any' | 'all';
+
+/**
+ * Decides whether a user needs any (default) or all of the roles and permissions
+ * required by @Roles() and @Permissions().
+ */
+export const MATCH_MODE_KEY = 'matchMode';
+export const Match = (mode: MatchMode) => SetMetadata(MATCH_MODE_KEY, mode);
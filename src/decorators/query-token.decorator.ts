@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Lets the AuthGuard accept the bearer token from the access_token query parameter (RFC 6750, section 2.3)
+ * besides the Authorization header. Only meant for routes of clients which can't send headers,
+ * like EventSource in browsers, since URLs end up in logs and browser histories.
+ */
+export const QUERY_TOKEN_KEY = 'queryToken';
+export const QueryToken = () => SetMetadata(QUERY_TOKEN_KEY, true);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Opts a route or controller out of the response envelope of the TransformInterceptor,
+ * e.g. for file downloads or responses whose format is defined by a standard (OAuth tokens).
+ */
+export const RAW_RESPONSE_KEY = 'rawResponse';
+export const RawResponse = () => SetMetadata(RAW_RESPONSE_KEY, true);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ThrottleOptions } from '@throttle/interfaces/throttle-options.interface';
+
+/**
+ * Overrides the default limits of the ThrottleGuard (see ThrottleModule) for a route or controller.
+ * Members which aren't given keep their defaults, e.g. @Throttle({ limit: 10 }) only lowers the limit.
+ */
+export const THROTTLE_KEY = 'throttle';
+export const Throttle = (options: Partial<ThrottleOptions>) =>
+  SetMetadata(THROTTLE_KEY, options);
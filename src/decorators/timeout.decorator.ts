@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Overrides the default timeout (in milliseconds) of the TimeoutInterceptor for a route or controller.
+ * A timeout of 0 disables it, e.g. for event streams.
+ */
+export const TIMEOUT_KEY = 'timeout';
+export const Timeout = (milliseconds: number) =>
+  SetMetadata(TIMEOUT_KEY, milliseconds);
@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { httpRequestOf } from '@root/utils/execution-context';
+
+/**
+ * Custom route decorators
+ * Nest provides a set of useful param decorators like @Body() or @Param().
+ * With createParamDecorator() we can build our own, here to get the principal set by the AuthGuard:
+ *
+ * async create(@User() user: Principal) {}
+ */
+export const User = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) => {
+    const request = httpRequestOf<AuthenticatedRequest>(ctx);
+    return request.user;
+  },
+);
@@ -0,0 +1,38 @@
+import { firstValueFrom, take, toArray } from 'rxjs';
+import { EventBus } from '@events/event-bus';
+
+describe('EventBus', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = new EventBus({ replaySize: 3 });
+  });
+
+  it('emits the events published after subscribing', async () => {
+    bus.publish('cat.created', { id: 1 });
+    const events = firstValueFrom(bus.events().pipe(take(2), toArray()));
+    bus.publish('cat.updated', { id: 1 });
+    bus.publish('cat.deleted', { id: 1 });
+
+    expect((await events).map(({ id, type }) => [id, type])).toEqual([
+      ['2', 'cat.updated'],
+      ['3', 'cat.deleted'],
+    ]);
+  });
+
+  it('replays the buffered events after the last event id', async () => {
+    for (let index = 0; index < 5; index++) {
+      bus.publish('cat.created', { id: index });
+    }
+
+    const resumed = firstValueFrom(bus.events('3').pipe(take(3), toArray()));
+    bus.publish('cat.created', { id: 5 });
+    expect((await resumed).map(({ id }) => id)).toEqual(['4', '5', '6']);
+
+    // events 1 and 2 have left the buffer of 3 events
+    const fromStart = await firstValueFrom(
+      bus.events('0').pipe(take(3), toArray()),
+    );
+    expect(fromStart.map(({ id }) => id)).toEqual(['4', '5', '6']);
+  });
+});
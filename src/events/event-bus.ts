@@ -0,0 +1,64 @@
+import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject, concat, defer, from } from 'rxjs';
+import { EVENTS_MODULE_OPTIONS } from '@events/events.constants';
+import { DomainEvent } from '@events/interfaces/domain-event.interface';
+import { EventsModuleOptions } from '@events/interfaces/events-module-options.interface';
+
+/**
+ * Publishes the domain events of the application to everybody interested,
+ * so services don't have to know who reacts to their changes (e.g. the change feed of the cats).
+ *
+ * The bus is an RxJS Subject: publish() calls next(), subscribers get the events published after they subscribed.
+ * The last events are kept in a buffer, so a subscriber which lost its connection can resume
+ * from the id of the last event it has seen. Events older than the buffer are lost,
+ * which the subscriber notices by the gap in the ids.
+ *
+ * Events are delivered synchronously while publish() runs, so subscribers have to be quick and handle their own errors.
+ */
+@Injectable()
+export class EventBus implements OnModuleDestroy {
+  private readonly subject = new Subject<DomainEvent>();
+  private readonly buffer: DomainEvent[] = [];
+  private sequence = 0;
+
+  constructor(
+    @Inject(EVENTS_MODULE_OPTIONS)
+    private readonly options: EventsModuleOptions,
+  ) {}
+
+  publish<T>(type: string, payload: T): DomainEvent<T> {
+    const event: DomainEvent<T> = {
+      id: String(++this.sequence),
+      type,
+      occurredAt: new Date().toISOString(),
+      payload,
+    };
+    this.buffer.push(event);
+    if (this.buffer.length > this.options.replaySize) {
+      this.buffer.shift();
+    }
+    this.subject.next(event);
+    return event;
+  }
+
+  /**
+   * @param lastEventId the id of the last event the subscriber has seen, the buffered events after it are replayed.
+   *                    Without it, only new events are emitted.
+   * @returns the events, which never completes
+   */
+  events(lastEventId?: string): Observable<DomainEvent> {
+    // the replayed events are selected when subscribing, and nothing can be published in between
+    return defer(() => {
+      const after = Number(lastEventId);
+      const replayed =
+        lastEventId !== undefined && Number.isInteger(after)
+          ? this.buffer.filter((event) => Number(event.id) > after)
+          : [];
+      return concat(from(replayed), this.subject);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.subject.complete();
+  }
+}
@@ -0,0 +1 @@
+export const EVENTS_MODULE_OPTIONS = 'EVENTS_MODULE_OPTIONS';
@@ -0,0 +1,29 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { EventBus } from '@events/event-bus';
+import { EVENTS_MODULE_OPTIONS } from '@events/events.constants';
+import { EventsModuleOptions } from '@events/interfaces/events-module-options.interface';
+
+const defaults: EventsModuleOptions = {
+  replaySize: 1000,
+};
+
+/**
+ * Provides the EventBus. The module is global, so publishers and subscribers in all modules share the same bus.
+ */
+@Module({})
+export class EventsModule {
+  static forRoot(options: Partial<EventsModuleOptions> = {}): DynamicModule {
+    return {
+      module: EventsModule,
+      global: true,
+      providers: [
+        {
+          provide: EVENTS_MODULE_OPTIONS,
+          useValue: { ...defaults, ...options },
+        },
+        EventBus,
+      ],
+      exports: [EventBus],
+    };
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Something that happened in the domain, e.g. a cat was created.
+ */
+export interface DomainEvent<T = unknown> {
+  /**
+   * Sequence number of the event, as a string like the id of a Server-Sent Event.
+   * Ids increase by one, so a gap tells a client that it missed events.
+   */
+  id: string;
+  /**
+   * e.g. cat.created
+   */
+  type: string;
+  /**
+   * ISO 8601 timestamp of the event.
+   */
+  occurredAt: string;
+  payload: T;
+}
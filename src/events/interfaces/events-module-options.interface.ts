@@ -0,0 +1,6 @@
+export interface EventsModuleOptions {
+  /**
+   * The number of past events kept for subscribers which resume after a disconnect.
+   */
+  replaySize: number;
+}
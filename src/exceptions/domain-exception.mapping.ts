@@ -0,0 +1,28 @@
+import { Abstract, HttpException, HttpStatus, Type } from '@nestjs/common';
+import { DomainException } from '@exceptions/domain.exception';
+import { ErrorMapping } from '@interceptors/interfaces/error-mapping.interface';
+
+/**
+ * Builds an entry of a mapping table (see ErrorMapping) which answers a domain exception with the given status.
+ * The code of the exception is part of the response body, next to its message.
+ * @param error the class of the domain exception, subclasses are mapped as well
+ * @param status
+ */
+export function mapDomainException<T extends DomainException>(
+  error: Type<T> | Abstract<T>,
+  status: HttpStatus,
+): ErrorMapping<T> {
+  return {
+    error,
+    toException: (exception) =>
+      new HttpException(
+        {
+          statusCode: status,
+          message: exception.message,
+          code: exception.code,
+        },
+        status,
+        { cause: exception },
+      ),
+  };
+}
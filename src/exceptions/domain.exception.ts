@@ -0,0 +1,18 @@
+/**
+ * Base class of the exceptions raised by the domain logic (e.g. the CatsService).
+ *
+ * Other than the HTTP exceptions, domain exceptions know nothing about the transport:
+ * they name what went wrong, and the machine-readable code tells clients apart from the message.
+ * Which status code a client gets is up to the transport, see DomainExceptionFilter.
+ */
+export abstract class DomainException extends Error {
+  /**
+   * A stable identifier of the error in upper snake case, e.g. CAT_NOT_FOUND.
+   */
+  abstract readonly code: string;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
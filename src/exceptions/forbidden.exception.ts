@@ -10,26 +10,34 @@ import { HttpException, HttpStatus } from '@nestjs/common';
  * which handles exceptions of type HttpException (and subclasses of it).
  * When an exception is unrecognized (is neither HttpException nor a class that inherits from HttpException),
  * the built-in exception filter generates the following default JSON response:
+ * {
+ *   "statusCode": 500,
+ *   "message": "Internal server error"
+ * }
  *
  * Throwing standard exceptions
  * throw new HttpException('Forbidden', HttpStatus.FORBIDDEN);
  *
  * There is a third constructor argument (optional) - options - that can be used to provide an error cause.
  * This cause object is not serialized into the response object, but it can be useful for logging purposes,
- * providing valuable information about the inner error that caused the HttpException to be thrown.
- * 
-  try {
-    await this.service.findAll()
-  } catch (error) { 
-    throw new HttpException({
-      status: HttpStatus.FORBIDDEN,
-      error: 'This is a custom message',
-    }, HttpStatus.FORBIDDEN, {
-      cause: error
-    });
-  }
-
- * Custom Exceptions implemented below
+ * providing valuable information about the inner error that caused the HttpException to be thrown:
+ *
+ * try {
+ *   await this.service.findAll();
+ * } catch (error) {
+ *   throw new HttpException(
+ *     { status: HttpStatus.FORBIDDEN, error: 'This is a custom message' },
+ *     HttpStatus.FORBIDDEN,
+ *     { cause: error },
+ *   );
+ * }
+ *
+ * Custom exceptions
+ * If you need a custom exception, create your own exceptions hierarchy,
+ * where your custom exceptions inherit from the base HttpException class.
+ * With this approach, Nest will recognize your exceptions, and automatically take care of the error responses.
+ *
+ * Exceptions of the domain logic don't extend HttpException, see DomainException.
  */
 export class CustomForbiddenException extends HttpException {
   constructor() {
@@ -0,0 +1,27 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * Raised by the RolesGuard. In addition to the default 403 response,
+ * the body lists the roles and permissions the user is missing, e.g.:
+ * {
+ *   "statusCode": 403,
+ *   "message": "Insufficient permissions",
+ *   "error": "Forbidden",
+ *   "missingRoles": [],
+ *   "missingPermissions": ["cats:delete"]
+ * }
+ */
+export class InsufficientPermissionsException extends ForbiddenException {
+  constructor(
+    readonly missingRoles: string[],
+    readonly missingPermissions: string[],
+  ) {
+    super({
+      statusCode: 403,
+      message: 'Insufficient permissions',
+      error: 'Forbidden',
+      missingRoles,
+      missingPermissions,
+    });
+  }
+}
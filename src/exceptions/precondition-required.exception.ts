@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Nest has no built-in exception for the status 428 (RFC 6585), which tells the client
+ * that the request has to be conditional, e.g. carry an If-Match header (see ParseIfMatchPipe).
+ */
+export class PreconditionRequiredException extends HttpException {
+  constructor(readonly header: string) {
+    super(
+      {
+        statusCode: HttpStatus.PRECONDITION_REQUIRED,
+        message: `The request has to carry the ${header} header`,
+      },
+      HttpStatus.PRECONDITION_REQUIRED,
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Nest has no built-in exception for the status 429, so this one fills the gap.
+ * The number of seconds to wait is part of the body as well as of the Retry-After header (see ThrottleGuard).
+ */
+export class TooManyRequestsException extends HttpException {
+  constructor(readonly retryAfter: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: `Rate limit exceeded, retry in ${retryAfter} seconds`,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * A single failed constraint of the validated object.
+ * The property is the path to the member, e.g. "breed.name" for nested objects or "items.0.name" for arrays.
+ */
+export interface FieldError {
+  property: string;
+  constraint: string;
+  message: string;
+}
+
+/**
+ * Raised by the CustomValidationPipe. The errors are part of the response body,
+ * so clients can relate each error to an input field:
+ * {
+ *   "statusCode": 400,
+ *   "message": "Validation failed",
+ *   "error": "Bad Request",
+ *   "errors": [
+ *     { "property": "age", "constraint": "isInt", "message": "age must be an integer number" }
+ *   ]
+ * }
+ */
+export class ValidationFailedException extends BadRequestException {
+  constructor(readonly errors: FieldError[]) {
+    super({
+      statusCode: 400,
+      message: 'Validation failed',
+      error: 'Bad Request',
+      errors,
+    });
+  }
+}
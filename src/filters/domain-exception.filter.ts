@@ -0,0 +1,65 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+  Inject,
+  Optional,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { DomainException } from '@exceptions/domain.exception';
+import { mapDomainException } from '@exceptions/domain-exception.mapping';
+import {
+  problemFromHttpException,
+  sendProblem,
+} from '@filters/problem-details';
+import { ERROR_MAPPINGS } from '@interceptors/interceptors.constants';
+import { ErrorMapping } from '@interceptors/interfaces/error-mapping.interface';
+import { RequestContext } from '@logging/request-context';
+import { isGraphQL } from '@root/utils/execution-context';
+
+/**
+ * Translates domain exceptions into problem details, using the ERROR_MAPPINGS of the module the filter is used in
+ * (the same mapping table as the ErrorsInterceptor's). A domain exception without an entry is answered with 422.
+ *
+ * Binding the filter to a controller, instead of relying on the ErrorsInterceptor alone, matters:
+ * interceptors only see errors of the route handler, while filters also catch the errors of guards and pipes,
+ * e.g. the PoliciesGuard loading a cat which doesn't exist.
+ *
+ * For GraphQL resolvers the mapped HttpException is returned instead, GraphQL renders it in the errors of the response.
+ */
+@Catch(DomainException)
+export class DomainExceptionFilter implements ExceptionFilter {
+  private readonly fallback = mapDomainException(
+    DomainException,
+    HttpStatus.UNPROCESSABLE_ENTITY,
+  );
+
+  constructor(
+    @Optional()
+    @Inject(ERROR_MAPPINGS)
+    private readonly mappings: ErrorMapping[] = [],
+    @Optional() private readonly requestContext?: RequestContext,
+  ) {}
+
+  catch(exception: DomainException, host: ArgumentsHost) {
+    const mapping =
+      this.mappings.find(({ error }) => exception instanceof error) ??
+      this.fallback;
+    // GraphQL reports errors in the errors of its response, the HttpException is rendered there
+    if (isGraphQL(host)) {
+      return mapping.toException(exception);
+    }
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+    const request = ctx.getRequest<Request>();
+
+    sendProblem(response, {
+      ...problemFromHttpException(
+        mapping.toException(exception),
+        request.originalUrl,
+      ),
+      requestId: this.requestContext?.requestId,
+    });
+  }
+}
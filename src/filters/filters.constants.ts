@@ -0,0 +1 @@
+export const EXPOSE_ERROR_DETAILS = 'EXPOSE_ERROR_DETAILS';
@@ -5,6 +5,10 @@ import {
   HttpException,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
+import {
+  problemFromHttpException,
+  sendProblem,
+} from '@filters/problem-details';
 
 /**
  * While the base (built-in) exception filter can automatically handle many cases for you,
@@ -22,6 +26,9 @@ import { Request, Response } from 'express';
  * HINT: All exception filters should implement the generic ExceptionFilter<T> interface.
  * This requires you to provide the catch(exception: T, host: ArgumentsHost) method with its indicated signature.
  * T indicates the type of the exception.
+ *
+ * The response has the same format as the responses of the global ProblemDetailsFilter,
+ * plus the time the exception was handled.
  */
 @Catch(HttpException)
 export class HttpExceptionFilter implements ExceptionFilter {
@@ -29,12 +36,9 @@ export class HttpExceptionFilter implements ExceptionFilter {
     const ctx = host.switchToHttp();
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
-    const status = exception.getStatus();
-
-    response.status(status).json({
-      statusCode: status,
+    sendProblem(response, {
+      ...problemFromHttpException(exception, request.originalUrl),
       timestamp: new Date().toISOString(),
-      path: request.url,
     });
   }
 }
@@ -0,0 +1,27 @@
+/**
+ * The error response format of RFC 7807 (https://www.rfc-editor.org/rfc/rfc7807),
+ * sent with the media type application/problem+json.
+ *
+ * Besides the standard members, a problem may carry extension members,
+ * e.g. the field errors of a failed validation or the id of the request.
+ */
+export interface ProblemDetails {
+  /**
+   * A URI identifying the problem type, about:blank if the status code says it all.
+   */
+  type: string;
+  /**
+   * A short summary of the problem type. For about:blank, it's the reason phrase of the status code.
+   */
+  title: string;
+  status: number;
+  /**
+   * An explanation specific to this occurrence of the problem.
+   */
+  detail?: string;
+  /**
+   * A URI identifying this occurrence of the problem, the path of the request.
+   */
+  instance?: string;
+  [extension: string]: unknown;
+}
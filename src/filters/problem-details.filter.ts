@@ -0,0 +1,132 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Logger,
+  Optional,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { EXPOSE_ERROR_DETAILS } from '@filters/filters.constants';
+import { ProblemDetails } from '@filters/interfaces/problem-details.interface';
+import {
+  problemFromHttpException,
+  sendProblem,
+} from '@filters/problem-details';
+import { RequestContext } from '@logging/request-context';
+import { isGraphQL } from '@root/utils/execution-context';
+
+/**
+ * Catch everything
+ * In order to catch every unhandled exception (regardless of the exception type),
+ * leave the @Catch() decorator's parameter list empty.
+ *
+ * The filter is bound globally with the APP_FILTER token (see AppModule), which enables dependency injection,
+ * other than app.useGlobalFilters(). Filters bound to a controller or route handler take precedence,
+ * e.g. the HttpExceptionFilter of AppController.getException().
+ *
+ * Every error response is rendered as problem details (application/problem+json) including the request id,
+ * which is the key to find the matching log entries:
+ * - HttpExceptions keep their status, message and additional members
+ * - any other error is an internal server error (500). Its message and stack trace are only part of the response
+ *   if EXPOSE_ERROR_DETAILS is set, as they may reveal internals. It's not set in production.
+ *
+ * Server errors are logged along with the chain of their causes (new HttpException(..., { cause })),
+ * so the original error isn't lost when an error is wrapped, e.g. by the ErrorsInterceptor.
+ */
+@Catch()
+export class ProblemDetailsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ProblemDetailsFilter.name);
+
+  constructor(
+    private readonly requestContext: RequestContext,
+    @Optional()
+    @Inject(EXPOSE_ERROR_DETAILS)
+    private readonly exposeErrorDetails: boolean = false,
+  ) {}
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    if (isGraphQL(host)) {
+      return this.catchGraphQL(exception);
+    }
+    const ctx = host.switchToHttp();
+    const response = ctx.getResponse<Response>();
+    const request = ctx.getRequest<Request>();
+
+    const problem: ProblemDetails = {
+      ...(exception instanceof HttpException
+        ? problemFromHttpException(exception, request.originalUrl)
+        : this.internalError(exception, request.originalUrl)),
+      requestId: this.requestContext.requestId,
+    };
+    if (problem.status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logError(exception, problem);
+    }
+
+    /**
+     * The response may have been sent already, e.g. when a handler fails after the request timed out.
+     */
+    if (!response.headersSent) {
+      sendProblem(response, problem);
+    }
+  }
+
+  /**
+   * GraphQL errors are part of the GraphQL response (with a 200) instead of problem details.
+   * The exception is handed back to GraphQL, server errors are logged like the errors of the routes.
+   */
+  private catchGraphQL(exception: unknown): unknown {
+    const status =
+      exception instanceof HttpException
+        ? exception.getStatus()
+        : HttpStatus.INTERNAL_SERVER_ERROR;
+    if (status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      this.logError(exception, {
+        type: 'about:blank',
+        title: 'Internal Server Error',
+        status,
+        instance: '/graphql',
+      });
+    }
+    return exception;
+  }
+
+  private internalError(exception: unknown, instance: string): ProblemDetails {
+    const status = HttpStatus.INTERNAL_SERVER_ERROR;
+    return {
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status,
+      ...(this.exposeErrorDetails && exception instanceof Error
+        ? { detail: exception.message, stack: exception.stack }
+        : { detail: 'An unexpected error occurred' }),
+      instance,
+    };
+  }
+
+  private logError(exception: unknown, problem: ProblemDetails): void {
+    const error =
+      exception instanceof Error ? exception : new Error(String(exception));
+    this.logger.error(
+      {
+        message: error.message,
+        status: problem.status,
+        instance: problem.instance,
+        causes: this.causesOf(error),
+      },
+      error.stack,
+    );
+  }
+
+  private causesOf(error: Error): { name: string; message: string }[] {
+    const causes = [];
+    let cause: unknown = error['cause'];
+    while (cause instanceof Error && causes.length < 10) {
+      causes.push({ name: cause.name, message: cause.message });
+      cause = cause['cause'];
+    }
+    return causes;
+  }
+}
@@ -0,0 +1,39 @@
+import { HttpException } from '@nestjs/common';
+import { STATUS_CODES } from 'http';
+import { Response } from 'express';
+import { ProblemDetails } from '@filters/interfaces/problem-details.interface';
+
+export const PROBLEM_JSON = 'application/problem+json';
+
+/**
+ * Converts an HttpException into problem details.
+ *
+ * The message of the exception becomes the detail. All other members of an object response
+ * (e.g. the errors of a ValidationFailedException) are kept as extension members,
+ * except for statusCode and error, which are replaced by status and title.
+ * @param exception
+ * @param instance the path of the request
+ */
+export function problemFromHttpException(
+  exception: HttpException,
+  instance?: string,
+): ProblemDetails {
+  const status = exception.getStatus();
+  const body = exception.getResponse();
+  const { message, ...extensions }: Record<string, unknown> =
+    typeof body === 'object' ? { ...body } : { message: body };
+  delete extensions.statusCode;
+  delete extensions.error;
+  return {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail: Array.isArray(message) ? message.join('; ') : (message as string),
+    instance,
+    ...extensions,
+  };
+}
+
+export function sendProblem(response: Response, problem: ProblemDetails): void {
+  response.status(problem.status).type(PROBLEM_JSON).json(problem);
+}
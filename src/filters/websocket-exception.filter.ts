@@ -0,0 +1,60 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { WebSocket } from 'ws';
+import { problemFromHttpException } from '@filters/problem-details';
+import { WebSocketClient } from '@root/utils/execution-context';
+
+/**
+ * Status code of a close frame (RFC 6455, section 7.4.1): the client violated the policy of the server.
+ */
+const POLICY_VIOLATION = 1008;
+
+/**
+ * Reports the exceptions of the message handlers of a gateway, including those of its guards and pipes,
+ * as error message with the problem details of the exception (see problemFromHttpException()):
+ *
+ * { "event": "error", "data": { "type": "about:blank", "title": "Bad Request", "status": 400, "errors": [...] } }
+ *
+ * There is no response to send the problem with, it's a message on the same connection instead.
+ * Nest's BaseWsExceptionFilter emits an 'exception' event for this, which only reaches the clients of socket.io.
+ *
+ * A client which isn't authenticated (401) or lacks the permissions (403) won't succeed with the next message either,
+ * so it's disconnected with 1008 (policy violation). Errors which aren't HttpExceptions are logged and reported as 500.
+ */
+@Catch()
+export class WebSocketExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(WebSocketExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const client = host.switchToWs().getClient<WebSocket & WebSocketClient>();
+    if (!(exception instanceof HttpException)) {
+      this.logger.error(exception);
+    }
+    const httpException =
+      exception instanceof HttpException
+        ? exception
+        : new InternalServerErrorException();
+    if (client.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const { pathname } = new URL(client.request.url, 'http://localhost');
+    client.send(
+      JSON.stringify({
+        event: 'error',
+        data: problemFromHttpException(httpException, pathname),
+      }),
+    );
+    const status = httpException.getStatus();
+    if (status === HttpStatus.UNAUTHORIZED || status === HttpStatus.FORBIDDEN) {
+      client.close(POLICY_VIOLATION, httpException.message);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { ApolloServerPlugin } from '@apollo/server';
+import { HttpStatus } from '@nestjs/common';
+import { GraphQLError } from 'graphql';
+import {
+  fieldExtensionsEstimator,
+  getComplexity,
+  simpleEstimator,
+} from 'graphql-query-complexity';
+
+/**
+ * An Apollo Server plugin rejecting operations whose cost exceeds maxComplexity, before anything is resolved.
+ *
+ * Every field costs 1, unless its @Field(), @Query() or @ResolveField() declares a complexity,
+ * e.g. a list multiplying the cost of its items by the requested limit (see CatsResolver.findAll()).
+ * The depth limit alone doesn't prevent expensive operations, as a flat operation may select
+ * the same list a hundred times with aliases.
+ * @param maxComplexity
+ */
+export function complexityPlugin(maxComplexity: number): ApolloServerPlugin {
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation({ request, document, schema }) {
+          const complexity = getComplexity({
+            schema,
+            query: document,
+            operationName: request.operationName,
+            variables: request.variables,
+            estimators: [
+              fieldExtensionsEstimator(),
+              simpleEstimator({ defaultComplexity: 1 }),
+            ],
+          });
+          if (complexity > maxComplexity) {
+            throw new GraphQLError(
+              `The operation has a complexity of ${complexity}, the maximum is ${maxComplexity}`,
+              {
+                extensions: {
+                  code: 'QUERY_TOO_COMPLEX',
+                  http: { status: HttpStatus.BAD_REQUEST },
+                },
+              },
+            );
+          }
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { buildSchema, parse, validate } from 'graphql';
+import { depthLimit } from '@graphql/depth-limit.rule';
+
+const schema = buildSchema(`
+  type Cat {
+    name: String
+    friends: [Cat]
+  }
+
+  type Query {
+    cat: Cat
+  }
+`);
+
+/**
+ * Validates the query with the depth limit only and returns the messages of the errors.
+ */
+function check(query: string, maxDepth: number): string[] {
+  return validate(schema, parse(query), [depthLimit(maxDepth)]).map(
+    ({ message }) => message,
+  );
+}
+
+describe('depthLimit', () => {
+  it('should accept operations up to the maximum depth', () => {
+    expect(check('{ cat { friends { name } } }', 3)).toEqual([]);
+  });
+
+  it('should reject operations nested deeper than the maximum', () => {
+    expect(check('{ cat { friends { friends { name } } } }', 3)).toEqual([
+      'The operation has a depth of 4, the maximum is 3',
+    ]);
+  });
+
+  it('should count the fields of fragments where they are spread', () => {
+    const query = `
+      query {
+        cat { ...withFriends }
+      }
+      fragment withFriends on Cat {
+        friends { ... on Cat { friends { name } } }
+      }
+    `;
+
+    expect(check(query, 3)).toEqual([
+      'The operation has a depth of 4, the maximum is 3',
+    ]);
+  });
+
+  it('should ignore introspection fields', () => {
+    const query = '{ __schema { types { fields { type { name } } } } }';
+
+    expect(check(query, 1)).toEqual([]);
+  });
+
+  it('should not loop on fragment cycles', () => {
+    const query = `
+      { cat { ...a } }
+      fragment a on Cat { friends { ...a } }
+    `;
+
+    expect(check(query, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  GraphQLError,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+} from 'graphql';
+
+/**
+ * A validation rule rejecting operations whose fields are nested deeper than maxDepth,
+ * before anything is resolved. { cats { items { name } } } has a depth of 3.
+ *
+ * Fragments count with the depth of the fields they contain, wherever they are spread.
+ * Introspection fields (__schema, __type, __typename) are left out, as tools send deeply nested introspection queries.
+ * @param maxDepth
+ */
+export function depthLimit(maxDepth: number): ValidationRule {
+  return (context: ValidationContext) => ({
+    OperationDefinition(operation) {
+      const depth = depthOf(operation.selectionSet, context, new Set());
+      if (depth > maxDepth) {
+        context.reportError(
+          new GraphQLError(
+            `The operation has a depth of ${depth}, the maximum is ${maxDepth}`,
+            { nodes: [operation] },
+          ),
+        );
+      }
+    },
+  });
+}
+
+/**
+ * @param selectionSet
+ * @param context
+ * @param fragments the fragments spread on the way here, a fragment cycle is reported by the NoFragmentCyclesRule
+ */
+function depthOf(
+  selectionSet: SelectionSetNode | undefined,
+  context: ValidationContext,
+  fragments: Set<string>,
+): number {
+  let depth = 0;
+  for (const selection of selectionSet?.selections ?? []) {
+    switch (selection.kind) {
+      case Kind.FIELD:
+        if (!selection.name.value.startsWith('__')) {
+          depth = Math.max(
+            depth,
+            1 + depthOf(selection.selectionSet, context, fragments),
+          );
+        }
+        break;
+      case Kind.INLINE_FRAGMENT:
+        depth = Math.max(
+          depth,
+          depthOf(selection.selectionSet, context, fragments),
+        );
+        break;
+      case Kind.FRAGMENT_SPREAD: {
+        const name = selection.name.value;
+        const fragment = context.getFragment(name);
+        if (fragment && !fragments.has(name)) {
+          depth = Math.max(
+            depth,
+            depthOf(
+              fragment.selectionSet,
+              context,
+              new Set(fragments).add(name),
+            ),
+          );
+        }
+        break;
+      }
+    }
+  }
+  return depth;
+}
@@ -0,0 +1,67 @@
+import { unwrapResolverError } from '@apollo/server/errors';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { GraphQLError, GraphQLFormattedError } from 'graphql';
+import { STATUS_CODES } from 'http';
+import { problemFromHttpException } from '@filters/problem-details';
+
+/**
+ * GraphQL responds with a 200 and lists the errors of the resolvers in the errors of the response.
+ * The errors carry the same information as the problem details of the REST API in their extensions:
+ *
+ * {
+ *   "message": "Validation failed",
+ *   "path": ["createCat"],
+ *   "extensions": {
+ *     "code": "BAD_REQUEST",
+ *     "status": 400,
+ *     "errors": [{ "property": "age", "constraint": "isInt", "message": "age must be an integer number" }]
+ *   }
+ * }
+ *
+ * The code is derived from the status (403 is FORBIDDEN, 429 is TOO_MANY_REQUESTS), as clients of GraphQL expect.
+ * The code of a DomainException (e.g. CAT_NOT_FOUND), which is the code of the problem details, becomes the domainCode.
+ * Errors of GraphQL itself (syntax, validation, complexity) are passed on unchanged,
+ * any other error is an internal server error without details, it's logged by the ProblemDetailsFilter.
+ * @param formattedError
+ * @param error
+ */
+export function formatError(
+  formattedError: GraphQLFormattedError,
+  error: unknown,
+): GraphQLFormattedError {
+  const exception = unwrapResolverError(error);
+  if (exception instanceof GraphQLError) {
+    return formattedError;
+  }
+  const { locations, path } = formattedError;
+  if (!(exception instanceof HttpException)) {
+    return {
+      message: 'An unexpected error occurred',
+      locations,
+      path,
+      extensions: {
+        code: codeOf(HttpStatus.INTERNAL_SERVER_ERROR),
+        status: HttpStatus.INTERNAL_SERVER_ERROR,
+      },
+    };
+  }
+  const { title, status, detail, code, ...extensions } =
+    problemFromHttpException(exception);
+  delete extensions.type;
+  delete extensions.instance;
+  return {
+    message: detail ?? title,
+    locations,
+    path,
+    extensions: {
+      code: codeOf(status),
+      status,
+      domainCode: code,
+      ...extensions,
+    },
+  };
+}
+
+function codeOf(status: number): string {
+  return (STATUS_CODES[status] ?? 'Error').toUpperCase().replace(/\W+/g, '_');
+}
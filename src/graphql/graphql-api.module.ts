@@ -0,0 +1,79 @@
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { DynamicModule, Module } from '@nestjs/common';
+import { GraphQLModule } from '@nestjs/graphql';
+import { Request, Response } from 'express';
+import { complexityPlugin } from '@graphql/complexity.plugin';
+import { depthLimit } from '@graphql/depth-limit.rule';
+import { formatError } from '@graphql/format-error';
+import {
+  GraphQLApiAsyncOptions,
+  GraphQLApiOptions,
+} from '@graphql/interfaces/graphql-api-options.interface';
+
+const defaults: GraphQLApiOptions = {
+  path: '/graphql',
+  maxDepth: 8,
+  maxComplexity: 500,
+};
+
+/**
+ * Serves the resolvers of the feature modules (e.g. the CatsResolver) at POST /graphql, next to the REST API.
+ *
+ * The schema is generated from the @ObjectType(), @InputType() and @Resolver() classes (code first),
+ * so the GraphQL types and the DTOs of the REST API share their validation rules.
+ *
+ * The request and the response are passed to the resolvers in the GraphQL context,
+ * so the guards, interceptors and param decorators of the controllers work for the resolvers as well
+ * (see httpRequestOf()). Operations are limited in depth and complexity before they are executed,
+ * a single request may ask for a lot more work than a REST call.
+ *
+ * GraphQLApiModule.forRoot({ maxDepth: 5 })
+ */
+@Module({})
+export class GraphQLApiModule {
+  static forRoot(options: Partial<GraphQLApiOptions> = {}): DynamicModule {
+    return GraphQLApiModule.forRootAsync({ useFactory: () => options });
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: GraphQLApiAsyncOptions): DynamicModule {
+    return {
+      module: GraphQLApiModule,
+      imports: [
+        GraphQLModule.forRootAsync<ApolloDriverConfig>({
+          driver: ApolloDriver,
+          imports: options.imports ?? [],
+          inject: options.inject ?? [],
+          useFactory: async (...args: unknown[]) =>
+            apolloConfig({
+              ...defaults,
+              ...(await options.useFactory(...args)),
+            }),
+        }),
+      ],
+    };
+  }
+}
+
+function apolloConfig({
+  path,
+  maxDepth,
+  maxComplexity,
+}: GraphQLApiOptions): ApolloDriverConfig {
+  return {
+    path,
+    autoSchemaFile: true,
+    sortSchema: true,
+    playground: false,
+    context: ({ req, res }: { req: Request; res: Response }) => ({ req, res }),
+    validationRules: [depthLimit(maxDepth)],
+    plugins: [complexityPlugin(maxComplexity)],
+    // the errors are formatted by formatError() instead of the built-in mapping of HttpExceptions
+    autoTransformHttpErrors: false,
+    formatError,
+    includeStacktraceInErrorResponses: false,
+  };
+}
@@ -0,0 +1,24 @@
+import { ModuleMetadata } from '@nestjs/common';
+
+export interface GraphQLApiOptions {
+  /**
+   * The path of the GraphQL endpoint.
+   */
+  path: string;
+  /**
+   * The maximum nesting of the fields of an operation, see depthLimit().
+   */
+  maxDepth: number;
+  /**
+   * The maximum cost of an operation, see complexityPlugin().
+   */
+  maxComplexity: number;
+}
+
+export interface GraphQLApiAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Partial<GraphQLApiOptions> | Promise<Partial<GraphQLApiOptions>>;
+  inject?: any[];
+}
@@ -1,5 +1,19 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
-import { Observable } from 'rxjs';
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { AuthService, InvalidTokenError } from '@auth/auth.service';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { QUERY_TOKEN_KEY } from '@decorators/query-token.decorator';
+import { RequestContext } from '@logging/request-context';
+import { httpRequestOf, httpResponseOf } from '@root/utils/execution-context';
+
+const REALM = 'cats';
 
 /**
  * A guard is a class annotated with the @Injectable() decorator, which implements the CanActivate interface.
@@ -36,9 +50,23 @@ import { Observable } from 'rxjs';
  * how to implement an authentication mechanism in your application, visit this chapter:
  * https://docs.nestjs.com/security/authentication
  *
+ * The token is an HMAC-signed JWT issued by POST /auth/login (see AuthService).
+ * If the token is missing or invalid, the guard answers with a 401 and a WWW-Authenticate header (RFC 6750),
+ * which tells the client how to authenticate and why the token was rejected.
+ * Routes marked with @QueryToken() accept the token from the access_token query parameter as well.
+ *
+ * The guard protects the GraphQL resolvers too, it takes the request from the GraphQL context then.
+ * It protects the messages of the WebSocket gateways as well, using the request of the handshake:
+ * browsers can't set headers on WebSockets, so gateways are marked with @QueryToken().
  */
 @Injectable()
 export class AuthGuard implements CanActivate {
+  constructor(
+    private authService: AuthService,
+    private reflector: Reflector,
+    @Optional() private requestContext?: RequestContext,
+  ) {}
+
   /**
    * Every guard must implement a canActivate() function.
    * This function should return a boolean, indicating whether the current request is allowed or not.
@@ -61,19 +89,74 @@ export class AuthGuard implements CanActivate {
    *                Learn more about ExecutionContext here: https://docs.nestjs.com/fundamentals/execution-context
    * @returns
    */
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    const request = context.switchToHttp().getRequest();
-    return this.validateRequest(request);
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = httpRequestOf<AuthenticatedRequest>(context);
+    const response = httpResponseOf(context);
+    const queryToken = this.reflector.getAllAndOverride<boolean>(
+      QUERY_TOKEN_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    return this.validateRequest(request, response, queryToken);
   }
 
   /**
-   * Just a sample implementation to get it compiling.
+   * Verifies the bearer token and attaches the principal to the request as request.user,
+   * and to the RequestContext for providers which don't see the request.
    * @param request
-   * @returns always true
+   * @param response is used to set the WWW-Authenticate header, which is kept when the exception is rendered.
+   *                 WebSockets have no response (the handshake has been answered already).
+   * @param queryToken whether the token may be sent as query parameter
+   * @returns true if the token is valid
    */
-  private validateRequest(request: any): boolean {
+  private async validateRequest(
+    request: AuthenticatedRequest,
+    response: Response | undefined,
+    queryToken: boolean,
+  ): Promise<boolean> {
+    const token =
+      this.extractToken(request) ??
+      (queryToken ? this.extractQueryToken(request) : undefined);
+    if (!token) {
+      response?.setHeader('WWW-Authenticate', `Bearer realm="${REALM}"`);
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    try {
+      request.user = await this.authService.verify(token);
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) {
+        throw error;
+      }
+      response?.setHeader(
+        'WWW-Authenticate',
+        `Bearer realm="${REALM}", error="invalid_token", error_description="${error.message.replace(
+          /"/g,
+          "'",
+        )}"`,
+      );
+      throw new UnauthorizedException('Invalid bearer token');
+    }
+    const store = this.requestContext?.store;
+    if (store) {
+      store.user = request.user;
+    }
     return true;
   }
+
+  private extractToken(request: AuthenticatedRequest): string | undefined {
+    const [type, token] = request.headers.authorization?.split(' ') ?? [];
+    return type?.toLowerCase() === 'bearer' ? token : undefined;
+  }
+
+  /**
+   * The request of a WebSocket handshake isn't parsed by Express, its query is read from the URL then.
+   */
+  private extractQueryToken(request: AuthenticatedRequest): string | undefined {
+    const token = request.query
+      ? request.query.access_token
+      : new URL(request.url, 'http://localhost').searchParams.get(
+          'access_token',
+        );
+    return typeof token === 'string' && token !== '' ? token : undefined;
+  }
 }
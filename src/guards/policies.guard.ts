@@ -0,0 +1,69 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { CatsService } from '@cats/cats.service';
+import {
+  CHECK_POLICIES_KEY,
+  PolicyMetadata,
+} from '@decorators/check-policies.decorator';
+import { CustomForbiddenException } from '@exceptions/forbidden.exception';
+import { httpRequestOf, isGraphQL } from '@root/utils/execution-context';
+
+/**
+ * Attribute-based access control
+ * While the RolesGuard only looks at the user, policies also look at the resource the request is about.
+ * Route handlers declare their policies with @CheckPolicies(), for example:
+ *
+ * @Delete(':id')
+ * @UseGuards(PoliciesGuard)
+ * @CheckPolicies('delete', isOwnerOrAdmin)
+ * async remove(@Param('id', ParseIntPipe) id: number) {}
+ *
+ * The guard loads the cat addressed by the :id route parameter and passes it to every policy.
+ * All policies have to allow the action, otherwise a CustomForbiddenException is thrown.
+ * Guards run before pipes, so the id is parsed here with a ParseIntPipe as well:
+ * an id which isn't an integer results in a 400 (like the pipe of the handler would answer), not in a lookup.
+ * An unknown id results in a 404, raised by the CatsService.
+ *
+ * Controller-scoped guards run before method-scoped guards, so the AuthGuard has already set request.user.
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  private parseId = new ParseIntPipe();
+
+  constructor(private reflector: Reflector, private catsService: CatsService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policies = this.reflector.get<PolicyMetadata>(
+      CHECK_POLICIES_KEY,
+      context.getHandler(),
+    );
+    if (!policies) {
+      return true;
+    }
+
+    const request = httpRequestOf<AuthenticatedRequest>(context);
+    if (!request.user) {
+      throw new CustomForbiddenException();
+    }
+    // resolvers get the id as argument of the GraphQL field, e.g. updateCat(id: 1, input: {...})
+    const id = isGraphQL(context)
+      ? context.getArgByIndex(1).id
+      : request.params.id;
+    const cat = await this.catsService.findOne(
+      await this.parseId.transform(String(id), { type: 'param', data: 'id' }),
+    );
+    const allowed = policies.handlers.every((handler) =>
+      handler(request.user, policies.action, cat),
+    );
+    if (!allowed) {
+      throw new CustomForbiddenException();
+    }
+    return true;
+  }
+}
@@ -0,0 +1,78 @@
+import { Controller, ExecutionContext, Get } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { RolesGuard } from '@guards/roles.guard';
+import { Roles } from '@decorators/roles.decorator';
+import { Permissions } from '@decorators/permissions.decorator';
+import { Match } from '@decorators/match.decorator';
+import { InsufficientPermissionsException } from '@exceptions/insufficient-permissions.exception';
+
+@Controller()
+@Permissions('cats:read')
+class TestController {
+  @Get()
+  read() {
+    return;
+  }
+
+  @Get()
+  @Roles('editor')
+  edit() {
+    return;
+  }
+
+  @Get()
+  @Match('all')
+  @Permissions('cats:delete')
+  delete() {
+    return;
+  }
+}
+
+function contextFor(handler: keyof TestController, user?: Principal) {
+  return {
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  } as unknown as ExecutionContext;
+}
+
+function userWith(...roles: string[]): Principal {
+  return { id: '1', username: 'alice', roles };
+}
+
+describe('RolesGuard', () => {
+  const guard = new RolesGuard(new Reflector());
+
+  it('should grant permissions of inherited roles', () => {
+    expect(guard.canActivate(contextFor('read', userWith('admin')))).toBe(true);
+  });
+
+  it('should grant inherited roles', () => {
+    expect(guard.canActivate(contextFor('edit', userWith('admin')))).toBe(true);
+  });
+
+  it('should merge class and handler metadata with any-of semantics', () => {
+    expect(guard.canActivate(contextFor('edit', userWith('viewer')))).toBe(
+      true,
+    );
+  });
+
+  it('should report missing permissions with all-of semantics', () => {
+    expect(() =>
+      guard.canActivate(contextFor('delete', userWith('viewer'))),
+    ).toThrow(
+      expect.objectContaining({
+        missingRoles: [],
+        missingPermissions: ['cats:delete'],
+      }),
+    );
+  });
+
+  it('should deny requests without user', () => {
+    expect(() => guard.canActivate(contextFor('read'))).toThrow(
+      InsufficientPermissionsException,
+    );
+  });
+});
@@ -1,5 +1,12 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { expandRoles, permissionsOf } from '@auth/roles';
+import { ROLES_KEY } from '@decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '@decorators/permissions.decorator';
+import { MATCH_MODE_KEY, MatchMode } from '@decorators/match.decorator';
+import { InsufficientPermissionsException } from '@exceptions/insufficient-permissions.exception';
+import { httpRequestOf } from '@root/utils/execution-context';
 
 /**
  * Role-based authentication
@@ -11,6 +18,8 @@ import { Reflector } from '@nestjs/core';
  * Note that behind the scenes, when a guard returns false, the framework throws a ForbiddenException.
  * If you want to return a different error response, you should throw your own specific exception. For example:
  * throw new UnauthorizedException();
+ *
+ * This guard throws an InsufficientPermissionsException, which tells the client what was missing.
  */
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -31,29 +40,63 @@ export class RolesGuard implements CanActivate {
      * Refer to the Reflection and metadata section of the Execution context chapter
      * for more details on utilizing Reflector in a context-sensitive way:
      * https://docs.nestjs.com/fundamentals/execution-context#reflection-and-metadata
+     *
+     * Metadata may be set on the controller class and on the route handler.
+     * getAllAndMerge() merges the arrays of both levels,
+     * while getAllAndOverride() lets the handler level take precedence over the class level.
      */
-    const roles = this.reflector.get<string[]>('roles', context.getHandler());
-    if (!roles) {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles =
+      this.reflector.getAllAndMerge<string[]>(ROLES_KEY, targets) ?? [];
+    const permissions =
+      this.reflector.getAllAndMerge<string[]>(PERMISSIONS_KEY, targets) ?? [];
+    if (roles.length === 0 && permissions.length === 0) {
       return true;
     }
+    const mode =
+      this.reflector.getAllAndOverride<MatchMode>(MATCH_MODE_KEY, targets) ??
+      'any';
 
     /**
      * HINT: In the node.js world, it's common practice to attach the authorized user to the request object.
      *       Thus, we are assuming that request.user contains the user instance and allowed roles.
-     *       In your app, you will probably make that association in your custom authentication guard (or middleware).
+     *       The AuthGuard makes that association, so it has to run before the RolesGuard.
+     *       Without an authenticated user, there are no roles to match and the request is denied.
      *       Check this chapter for more information on this topic:
      *       https://docs.nestjs.com/security/authentication
      */
-    const request = context.switchToHttp().getRequest();
+    const request = httpRequestOf<AuthenticatedRequest>(context);
     const user = request.user;
-    return this.matchRoles(roles, user.roles);
+    const userRoles = expandRoles(user?.roles ?? []);
+    const userPermissions = permissionsOf(user?.roles ?? []);
+
+    const missingRoles = roles.filter((role) => !userRoles.has(role));
+    const missingPermissions = permissions.filter(
+      (permission) => !userPermissions.has(permission),
+    );
+    if (
+      !this.matches(
+        mode,
+        roles.length + permissions.length,
+        missingRoles.length + missingPermissions.length,
+      )
+    ) {
+      throw new InsufficientPermissionsException(
+        missingRoles,
+        missingPermissions,
+      );
+    }
+    return true;
   }
 
   /**
-   * The logic inside the matchRoles() function can be as simple or sophisticated as needed.
-   * The main point of this example is to show how guards fit into the request/response cycle.
+   * The user's roles are expanded by the role hierarchy before matching (see ROLE_HIERARCHY),
+   * so a route requiring the viewer role is available for editors and admins as well.
+   * @param mode any: at least one requirement is fulfilled, all: every requirement is fulfilled
+   * @param required number of required roles and permissions
+   * @param missing number of required roles and permissions the user doesn't have
    */
-  private matchRoles(decoratorRoles: string[], userRoles: string[]): boolean {
-    return true;
+  private matches(mode: MatchMode, required: number, missing: number): boolean {
+    return mode === 'all' ? missing === 0 : missing < required;
   }
 }
@@ -0,0 +1,83 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  Inject,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { THROTTLE_KEY } from '@decorators/throttle.decorator';
+import { TooManyRequestsException } from '@exceptions/too-many-requests.exception';
+import { THROTTLE_OPTIONS } from '@throttle/throttle.constants';
+import { ThrottleOptions } from '@throttle/interfaces/throttle-options.interface';
+import { ThrottleResult } from '@throttle/interfaces/throttle-result.interface';
+import { ThrottleStore } from '@throttle/throttle.store';
+import { THROTTLE_STRATEGIES } from '@throttle/throttle.strategies';
+import { httpRequestOf, httpResponseOf } from '@root/utils/execution-context';
+
+/**
+ * Rate limiting
+ * Limits the number of requests a client may send to a route.
+ * The defaults come from the ThrottleModule and may be overridden per route or controller with @Throttle().
+ *
+ * Each route has its own quota per client. Authenticated clients are identified by their user id,
+ * so the guard has to run after the AuthGuard: @UseGuards(AuthGuard, ThrottleGuard).
+ * Anonymous clients (e.g. on POST /auth/login) are identified by their IP address.
+ *
+ * The responses tell the client about its quota with the RateLimit headers
+ * (https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/):
+ * RateLimit-Limit: 10
+ * RateLimit-Remaining: 3
+ * RateLimit-Reset: 42 (seconds until the whole quota is available again)
+ * RateLimit-Policy: 10;w=60
+ *
+ * When the quota is used up, the request is rejected with a 429 and a Retry-After header.
+ */
+@Injectable()
+export class ThrottleGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly store: ThrottleStore,
+    @Inject(THROTTLE_OPTIONS) private readonly defaults: ThrottleOptions,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options: ThrottleOptions = {
+      ...this.defaults,
+      ...this.reflector.getAllAndOverride<Partial<ThrottleOptions>>(
+        THROTTLE_KEY,
+        [context.getHandler(), context.getClass()],
+      ),
+    };
+    const request = httpRequestOf<AuthenticatedRequest>(context);
+    const key = [
+      context.getClass().name,
+      context.getHandler().name,
+      request.user ? `user:${request.user.id}` : `ip:${request.ip}`,
+    ].join(':');
+
+    const strategy = THROTTLE_STRATEGIES[options.strategy];
+    let result: ThrottleResult;
+    await this.store.update(key, options.ttl * 1000, (state) => {
+      const consumed = strategy.consume(state, options, Date.now());
+      result = consumed.result;
+      return consumed.state;
+    });
+
+    const response = httpResponseOf(context);
+    response.setHeader('RateLimit-Limit', result.limit);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', seconds(result.resetAfter));
+    response.setHeader('RateLimit-Policy', `${options.limit};w=${options.ttl}`);
+    if (!result.allowed) {
+      const retryAfter = seconds(result.retryAfter);
+      response.setHeader('Retry-After', retryAfter);
+      throw new TooManyRequestsException(retryAfter);
+    }
+    return true;
+  }
+}
+
+function seconds(milliseconds: number): number {
+  return Math.ceil(milliseconds / 1000);
+}
@@ -0,0 +1,20 @@
+import { HealthCheckResult } from '@health/interfaces/health-report.interface';
+
+/**
+ * Health indicators check a single aspect of the application, e.g. whether the database can be reached.
+ *
+ * Indicators are providers, so they may inject whatever they check.
+ * They may be provided by any module and are listed in the options of the HealthModule.
+ */
+export abstract class HealthIndicator {
+  /**
+   * The key of the result in the health report.
+   */
+  abstract readonly name: string;
+
+  /**
+   * @returns the status and the details of the check.
+   *          A check which throws (or doesn't answer in time) is reported as down.
+   */
+  abstract check(signal: AbortSignal): Promise<HealthCheckResult>;
+}
@@ -0,0 +1 @@
+export const HEALTH_MODULE_OPTIONS = 'HEALTH_MODULE_OPTIONS';
@@ -0,0 +1,48 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { RawResponse } from '@decorators/raw-response.decorator';
+import { HealthProbe, HealthService } from '@health/health.service';
+import { HealthReport } from '@health/interfaces/health-report.interface';
+
+/**
+ * Probes of the orchestrator:
+ * - GET /health/live: the application is alive, otherwise it should be restarted
+ * - GET /health/ready: the application can take requests, otherwise no traffic should be routed to it
+ *
+ * Both answer with 200 if all checks are up and with 503 otherwise. The body lists the result of each check.
+ * The probes aren't versioned, throttled or wrapped in an envelope, as orchestrators expect a stable format.
+ *
+ * Library-specific approach
+ * With @Res({ passthrough: true }), the handler sets the status code on the response object,
+ * while Nest still sends the returned report as usual.
+ */
+@Controller('health')
+@RawResponse()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  async live(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<HealthReport> {
+    return this.probe('liveness', response);
+  }
+
+  @Get('ready')
+  async ready(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<HealthReport> {
+    return this.probe('readiness', response);
+  }
+
+  private async probe(
+    probe: HealthProbe,
+    response: Response,
+  ): Promise<HealthReport> {
+    const report = await this.healthService.check(probe);
+    response.status(
+      report.status === 'up' ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE,
+    );
+    return report;
+  }
+}
@@ -0,0 +1,40 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { HEALTH_MODULE_OPTIONS } from '@health/health.constants';
+import { HealthController } from '@health/health.controller';
+import { HealthService } from '@health/health.service';
+import { HealthModuleOptions } from '@health/interfaces/health-module-options.interface';
+import { EventLoopHealthIndicator } from '@health/indicators/event-loop.health';
+import { HeapHealthIndicator } from '@health/indicators/heap.health';
+
+/**
+ * Provides the health probes (see HealthController).
+ * The event loop and heap indicators are built in, other indicators are added with forRoot():
+ *
+ * HealthModule.forRoot({ readiness: [CatsPersistenceHealthIndicator] })
+ *
+ * The indicators have to be provided by one of the modules of the application.
+ */
+@Module({
+  controllers: [HealthController],
+  providers: [HealthService, EventLoopHealthIndicator, HeapHealthIndicator],
+})
+export class HealthModule {
+  static forRoot(options: Partial<HealthModuleOptions> = {}): DynamicModule {
+    return {
+      module: HealthModule,
+      providers: [
+        {
+          provide: HEALTH_MODULE_OPTIONS,
+          useValue: {
+            liveness: [EventLoopHealthIndicator, HeapHealthIndicator],
+            readiness: [],
+            timeout: 1000,
+            maxEventLoopLag: 200,
+            maxHeapUsage: 0.9,
+            ...options,
+          },
+        },
+      ],
+    };
+  }
+}
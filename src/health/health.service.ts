@@ -0,0 +1,82 @@
+import { Inject, Injectable, Logger, OnModuleInit, Type } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { HealthIndicator } from '@health/health-indicator';
+import { HEALTH_MODULE_OPTIONS } from '@health/health.constants';
+import { HealthModuleOptions } from '@health/interfaces/health-module-options.interface';
+import {
+  HealthCheckResult,
+  HealthReport,
+} from '@health/interfaces/health-report.interface';
+
+export type HealthProbe = 'liveness' | 'readiness';
+
+/**
+ * Runs the health indicators of a probe and aggregates their results.
+ *
+ * Module reference
+ * The indicators may be provided by any module, e.g. the CatsModule provides the indicator of its persistence.
+ * The ModuleRef looks them up by their class, and with { strict: false } it searches the whole application
+ * instead of the HealthModule only.
+ *
+ * The checks run in parallel. A check which doesn't answer within the timeout is aborted and reported as down.
+ */
+@Injectable()
+export class HealthService implements OnModuleInit {
+  private readonly logger = new Logger(HealthService.name);
+  private liveness: HealthIndicator[];
+  private readiness: HealthIndicator[];
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    @Inject(HEALTH_MODULE_OPTIONS)
+    private readonly options: HealthModuleOptions,
+  ) {}
+
+  onModuleInit() {
+    this.liveness = this.resolve(this.options.liveness);
+    this.readiness = [
+      ...this.liveness,
+      ...this.resolve(this.options.readiness),
+    ];
+  }
+
+  async check(probe: HealthProbe): Promise<HealthReport> {
+    const indicators = probe === 'liveness' ? this.liveness : this.readiness;
+    const results = await Promise.all(
+      indicators.map((indicator) => this.run(indicator)),
+    );
+
+    const checks: Record<string, HealthCheckResult> = {};
+    indicators.forEach(({ name }, index) => (checks[name] = results[index]));
+    const down = Object.keys(checks).filter(
+      (name) => checks[name].status === 'down',
+    );
+    if (down.length > 0) {
+      this.logger.warn({ message: 'Health check failed', probe, down });
+    }
+    return { status: down.length > 0 ? 'down' : 'up', checks };
+  }
+
+  private resolve(types: Type<HealthIndicator>[]): HealthIndicator[] {
+    return types.map((type) => this.moduleRef.get(type, { strict: false }));
+  }
+
+  private async run(indicator: HealthIndicator): Promise<HealthCheckResult> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((resolve, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`No answer within ${this.options.timeout} ms`));
+      }, this.options.timeout);
+    });
+
+    try {
+      return await Promise.race([indicator.check(controller.signal), timeout]);
+    } catch (error) {
+      return { status: 'down', error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
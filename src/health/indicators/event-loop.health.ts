@@ -0,0 +1,51 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { HealthIndicator } from '@health/health-indicator';
+import { HEALTH_MODULE_OPTIONS } from '@health/health.constants';
+import { HealthModuleOptions } from '@health/interfaces/health-module-options.interface';
+import { HealthCheckResult } from '@health/interfaces/health-report.interface';
+
+/**
+ * A blocked event loop delays every request, while the process looks perfectly alive from the outside.
+ * The delay is sampled continuously, each check reports the 99th percentile since the previous check.
+ */
+@Injectable()
+export class EventLoopHealthIndicator
+  extends HealthIndicator
+  implements OnModuleInit, OnModuleDestroy
+{
+  readonly name = 'eventLoop';
+  private readonly histogram: IntervalHistogram = monitorEventLoopDelay({
+    resolution: 20,
+  });
+
+  constructor(
+    @Inject(HEALTH_MODULE_OPTIONS)
+    private readonly options: HealthModuleOptions,
+  ) {
+    super();
+  }
+
+  onModuleInit() {
+    this.histogram.enable();
+  }
+
+  onModuleDestroy() {
+    this.histogram.disable();
+  }
+
+  async check(): Promise<HealthCheckResult> {
+    const lag = Math.round(this.histogram.percentile(99) / 1e4) / 100;
+    this.histogram.reset();
+    return {
+      status: lag <= this.options.maxEventLoopLag ? 'up' : 'down',
+      lag,
+      maxLag: this.options.maxEventLoopLag,
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { getHeapStatistics } from 'v8';
+import { HealthIndicator } from '@health/health-indicator';
+import { HEALTH_MODULE_OPTIONS } from '@health/health.constants';
+import { HealthModuleOptions } from '@health/interfaces/health-module-options.interface';
+import { HealthCheckResult } from '@health/interfaces/health-report.interface';
+
+/**
+ * A process close to its heap size limit spends most of its time collecting garbage and crashes soon after,
+ * so it's better restarted early.
+ */
+@Injectable()
+export class HeapHealthIndicator extends HealthIndicator {
+  readonly name = 'heap';
+
+  constructor(
+    @Inject(HEALTH_MODULE_OPTIONS)
+    private readonly options: HealthModuleOptions,
+  ) {
+    super();
+  }
+
+  async check(): Promise<HealthCheckResult> {
+    const { used_heap_size, heap_size_limit } = getHeapStatistics();
+    const usage = Math.round((used_heap_size / heap_size_limit) * 1000) / 1000;
+    return {
+      status: usage <= this.options.maxHeapUsage ? 'up' : 'down',
+      used: used_heap_size,
+      limit: heap_size_limit,
+      usage,
+    };
+  }
+}
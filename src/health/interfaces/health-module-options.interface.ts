@@ -0,0 +1,26 @@
+import { Type } from '@nestjs/common';
+import { HealthIndicator } from '@health/health-indicator';
+
+export interface HealthModuleOptions {
+  /**
+   * Indicators of GET /health/live, which tell whether the application has to be restarted.
+   */
+  liveness: Type<HealthIndicator>[];
+  /**
+   * Additional indicators of GET /health/ready, which tell whether the application can take requests,
+   * e.g. whether its dependencies can be reached. The liveness indicators are checked as well.
+   */
+  readiness: Type<HealthIndicator>[];
+  /**
+   * Milliseconds after which a check which hasn't answered is considered down.
+   */
+  timeout: number;
+  /**
+   * Event loop delay in milliseconds (99th percentile) up to which the application is considered alive.
+   */
+  maxEventLoopLag: number;
+  /**
+   * Share of the heap size limit which may be used.
+   */
+  maxHeapUsage: number;
+}
@@ -0,0 +1,18 @@
+export type HealthStatus = 'up' | 'down';
+
+/**
+ * The result of a single indicator. Besides the status, indicators report what they measured,
+ * e.g. { status: 'up', lag: 1.2, maxLag: 200 }.
+ */
+export interface HealthCheckResult {
+  status: HealthStatus;
+  [detail: string]: unknown;
+}
+
+export interface HealthReport {
+  /**
+   * up if all checks are up.
+   */
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult>;
+}
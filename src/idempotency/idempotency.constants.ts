@@ -0,0 +1,12 @@
+export const IDEMPOTENCY_OPTIONS = 'IDEMPOTENCY_OPTIONS';
+
+/**
+ * The request header carrying the key chosen by the client,
+ * see https://datatracker.ietf.org/doc/draft-ietf-httpapi-idempotency-key-header/
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Set on replayed responses, so clients can tell them apart from the first response.
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
@@ -0,0 +1,66 @@
+import { DynamicModule, Module, Type } from '@nestjs/common';
+import { IDEMPOTENCY_OPTIONS } from '@idempotency/idempotency.constants';
+import {
+  IdempotencyModuleAsyncOptions,
+  IdempotencyOptions,
+} from '@idempotency/interfaces/idempotency-options.interface';
+import { IdempotencyStore } from '@idempotency/idempotency.store';
+import { InMemoryIdempotencyStore } from '@idempotency/in-memory-idempotency.store';
+
+const defaults: IdempotencyOptions = {
+  ttl: 24 * 60 * 60,
+  pendingTtl: 60,
+};
+
+/**
+ * Provides the default time to live and the store of the IdempotencyInterceptor.
+ * The module is global, so the IdempotencyInterceptor can be bound in any module.
+ *
+ * Like the ThrottleModule, the importing module may replace the store:
+ *
+ * IdempotencyModule.forRoot({ ttl: 3600 }, RedisIdempotencyStore)
+ */
+@Module({})
+export class IdempotencyModule {
+  static forRoot(
+    options: Partial<IdempotencyOptions> = {},
+    store: Type<IdempotencyStore> = InMemoryIdempotencyStore,
+  ): DynamicModule {
+    return {
+      module: IdempotencyModule,
+      global: true,
+      providers: [
+        { provide: IDEMPOTENCY_OPTIONS, useValue: { ...defaults, ...options } },
+        { provide: IdempotencyStore, useClass: store },
+      ],
+      exports: [IDEMPOTENCY_OPTIONS, IdempotencyStore],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: IdempotencyModuleAsyncOptions): DynamicModule {
+    return {
+      module: IdempotencyModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: IDEMPOTENCY_OPTIONS,
+          useFactory: async (...args: unknown[]) => ({
+            ...defaults,
+            ...(await options.useFactory(...args)),
+          }),
+          inject: options.inject ?? [],
+        },
+        {
+          provide: IdempotencyStore,
+          useClass: options.store ?? InMemoryIdempotencyStore,
+        },
+      ],
+      exports: [IDEMPOTENCY_OPTIONS, IdempotencyStore],
+    };
+  }
+}
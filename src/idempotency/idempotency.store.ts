@@ -0,0 +1,44 @@
+import {
+  IdempotencyRecord,
+  StoredResponse,
+} from '@idempotency/interfaces/idempotency-record.interface';
+
+/**
+ * Keeps the responses of the requests with an Idempotency-Key (see IdempotencyInterceptor).
+ *
+ * Like the ThrottleStore, it can be replaced by an implementation with a shared backend,
+ * so a retry is recognized by every instance of the application.
+ */
+export abstract class IdempotencyStore {
+  /**
+   * Reserves the key for a request, unless another request did so before.
+   * The reservation has to be atomic, otherwise two concurrent requests could both be processed.
+   * @param key
+   * @param fingerprint identifies the payload of the request
+   * @param ttl milliseconds after which the key is released, even if the request never completes
+   * @returns the record of the earlier request, or undefined if the key was reserved for this request
+   */
+  abstract reserve(
+    key: string,
+    fingerprint: string,
+    ttl: number,
+  ): Promise<IdempotencyRecord | undefined>;
+
+  /**
+   * Stores the response of the request which reserved the key.
+   * @param key
+   * @param response
+   * @param ttl milliseconds the response is replayed for
+   */
+  abstract complete(
+    key: string,
+    response: StoredResponse,
+    ttl: number,
+  ): Promise<void>;
+
+  /**
+   * Releases the key of a failed request, so it can be retried.
+   * @param key
+   */
+  abstract release(key: string): Promise<void>;
+}
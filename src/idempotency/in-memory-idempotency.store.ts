@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { IdempotencyStore } from '@idempotency/idempotency.store';
+import {
+  IdempotencyRecord,
+  StoredResponse,
+} from '@idempotency/interfaces/idempotency-record.interface';
+
+interface Entry extends IdempotencyRecord {
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL = 100;
+
+/**
+ * Keeps the records in a Map, so retries are only recognized by the same instance of the application.
+ * Node.js runs reserve() without interruption between the lookup and the update, which makes it atomic.
+ *
+ * Expired entries are skipped when they are read and removed every SWEEP_INTERVAL reservations.
+ */
+@Injectable()
+export class InMemoryIdempotencyStore extends IdempotencyStore {
+  private readonly entries = new Map<string, Entry>();
+  private reservations = 0;
+
+  async reserve(
+    key: string,
+    fingerprint: string,
+    ttl: number,
+  ): Promise<IdempotencyRecord | undefined> {
+    const now = Date.now();
+    if (++this.reservations % SWEEP_INTERVAL === 0) {
+      this.sweep(now);
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return { fingerprint: entry.fingerprint, response: entry.response };
+    }
+    this.entries.set(key, { fingerprint, expiresAt: now + ttl });
+    return undefined;
+  }
+
+  async complete(
+    key: string,
+    response: StoredResponse,
+    ttl: number,
+  ): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.set(key, {
+        ...entry,
+        response,
+        expiresAt: Date.now() + ttl,
+      });
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private sweep(now: number): void {
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
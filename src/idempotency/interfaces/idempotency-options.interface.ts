@@ -0,0 +1,27 @@
+import { ModuleMetadata, Type } from '@nestjs/common';
+import { IdempotencyStore } from '@idempotency/idempotency.store';
+
+export interface IdempotencyOptions {
+  /**
+   * Seconds a response is kept for replays, see @Idempotent() to override it per route.
+   */
+  ttl: number;
+  /**
+   * Seconds the key stays reserved while the request is processed.
+   * It's released after this time even if the request never completes (e.g. the application crashed),
+   * so it has to be longer than a request may take, but much shorter than the ttl.
+   */
+  pendingTtl: number;
+}
+
+export interface IdempotencyModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Partial<IdempotencyOptions> | Promise<Partial<IdempotencyOptions>>;
+  inject?: any[];
+  /**
+   * The implementation of the store, InMemoryIdempotencyStore by default.
+   */
+  store?: Type<IdempotencyStore>;
+}
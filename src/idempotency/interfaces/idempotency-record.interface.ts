@@ -0,0 +1,18 @@
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/**
+ * What is known about an idempotency key.
+ */
+export interface IdempotencyRecord {
+  /**
+   * Identifies the payload of the first request, a retry has to send the same payload.
+   */
+  fingerprint: string;
+  /**
+   * The response to the first request, undefined as long as it's being processed.
+   */
+  response?: StoredResponse;
+}
@@ -4,31 +4,112 @@ import {
   ExecutionContext,
   CallHandler,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
 import { Observable, of } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { ResponseCacheService } from '@cache/response-cache.service';
+import { CACHE_TTL_KEY } from '@decorators/cache-ttl.decorator';
 
 /**
  * Stream overriding
  * There are several reasons why we may sometimes want to completely prevent calling the handler
  * and return a different value instead. An obvious example is to implement a cache to improve response time.
  * Let's take a look at a simple cache interceptor that returns its response from a cache.
- * In a realistic example, we'd want to consider other factors like TTL, cache invalidation, cache size, etc.,
- * but that's beyond the scope of this discussion. Here we'll provide a basic example that demonstrates the main concept.
  *
- * Our CacheInterceptor has a hardcoded isCached variable and a hardcoded response [] as well.
  * The key point to note is that we return a new stream here, created by the RxJS of() operator,
  * therefore the route handler won't be called at all.
  * When someone calls an endpoint that makes use of CacheInterceptor,
- * the response (a hardcoded, empty array) will be returned immediately.
+ * the cached response will be returned immediately.
  * In order to create a generic solution, you can take advantage of Reflector and create a custom decorator.
- * The Reflector is well described in the guards chapter.
+ * The Reflector is well described in the guards chapter. Here, @CacheTTL() sets the time to live per route.
+ *
+ * Only GET requests are cached. The cache key consists of the method, the URL
+ * and the request headers the response depends on (see ResponseCacheOptions.varyHeaders).
+ * Any other request which succeeds invalidates the cached responses of the controller's path,
+ * e.g. POST /cats removes GET /cats and GET /cats/1 from the cache.
+ * Resources which can be changed elsewhere as well have to invalidate their responses themselves,
+ * e.g. the CatsCacheInvalidator does so for the cats changed by GraphQL mutations.
+ *
+ * Each cached response gets an ETag, the hash of its body unless the handler has set one already
+ * (e.g. the version of a cat). If the client sends the ETag in the If-None-Match header
+ * and it is still current, Express answers with 304 Not Modified and an empty body
+ * (it checks the request freshness before sending the response).
  */
 @Injectable()
 export class CacheInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private cache: ResponseCacheService,
+  ) {}
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    const isCached = true;
-    if (isCached) {
-      return of([]);
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    if (request.method !== 'GET') {
+      return next.handle().pipe(tap(() => this.invalidate(context.getClass())));
+    }
+
+    const ttl =
+      this.reflector.getAllAndOverride<number>(CACHE_TTL_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? this.cache.defaultTtl;
+    if (ttl <= 0) {
+      return next.handle();
+    }
+
+    const key = this.keyFor(request);
+    const cached = this.cache.get(key);
+    if (cached) {
+      response.setHeader('ETag', cached.etag);
+      return of(cached.body);
+    }
+
+    return next.handle().pipe(
+      tap((body) => {
+        if (body === undefined) {
+          return;
+        }
+        const etag = String(response.getHeader('ETag') ?? this.etagFor(body));
+        response.setHeader('ETag', etag);
+        this.cache.set(key, {
+          url: request.originalUrl,
+          body,
+          etag,
+          expiresAt: Date.now() + ttl * 1000,
+        });
+      }),
+    );
+  }
+
+  private keyFor(request: Request): string {
+    const headers = this.cache.varyHeaders.map(
+      (header) => request.headers[header] ?? '',
+    );
+    return [request.method, request.originalUrl, ...headers].join('\n');
+  }
+
+  private etagFor(body: unknown): string {
+    const hash = createHash('sha1')
+      .update(JSON.stringify(body))
+      .digest('base64url');
+    return `"${hash}"`;
+  }
+
+  /**
+   * The @Controller() decorator stores the controller's path as metadata, which is read here
+   * to find the cached responses of the controller.
+   * @param controller
+   */
+  private invalidate(controller: unknown): void {
+    const paths: string | string[] =
+      Reflect.getMetadata(PATH_METADATA, controller) ?? [];
+    for (const path of Array.isArray(paths) ? paths : [paths]) {
+      this.cache.invalidate(`/${path.replace(/^\/+|\/+$/g, '')}`);
     }
-    return next.handle();
   }
 }
@@ -0,0 +1,61 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Inject,
+  Optional,
+  VERSION_NEUTRAL,
+} from '@nestjs/common';
+import { VersionValue } from '@nestjs/common/interfaces';
+import { VERSION_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { DEPRECATED_API_VERSIONS } from '@interceptors/interceptors.constants';
+import { ApiVersionDeprecation } from '@interceptors/interfaces/api-version-deprecation.interface';
+import { extractApiVersion } from '@root/utils/api-version';
+
+/**
+ * Tells clients of a deprecated API version that they should move on, by the headers
+ * - Deprecation: true
+ * - Sunset: the date the version is removed (RFC 8594)
+ * - Link: the document describing the deprecation, if there is one
+ *
+ * The deprecated versions are provided with the DEPRECATED_API_VERSIONS token, e.g.
+ * { '1': { sunset: new Date('2027-06-30') } }
+ *
+ * Only versioned routes get the headers, since unversioned (and version-neutral) routes aren't going anywhere.
+ * The headers are set before the route handler is called, so error responses carry them as well.
+ */
+@Injectable()
+export class DeprecationInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional()
+    @Inject(DEPRECATED_API_VERSIONS)
+    private readonly deprecations: Record<string, ApiVersionDeprecation> = {},
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const versions = this.reflector.getAllAndOverride<VersionValue>(
+      VERSION_METADATA,
+      [context.getHandler(), context.getClass()],
+    );
+    const request = context.switchToHttp().getRequest<Request>();
+    const deprecation =
+      versions !== undefined &&
+      versions !== VERSION_NEUTRAL &&
+      this.deprecations[extractApiVersion(request)];
+
+    if (deprecation) {
+      const response = context.switchToHttp().getResponse<Response>();
+      response.setHeader('Deprecation', 'true');
+      response.setHeader('Sunset', deprecation.sunset.toUTCString());
+      if (deprecation.link) {
+        response.setHeader('Link', `<${deprecation.link}>; rel="deprecation"`);
+      }
+    }
+    return next.handle();
+  }
+}
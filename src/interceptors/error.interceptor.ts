@@ -2,22 +2,51 @@ import {
   Injectable,
   NestInterceptor,
   ExecutionContext,
-  BadGatewayException,
   CallHandler,
+  HttpException,
+  Inject,
+  Optional,
 } from '@nestjs/common';
 import { Observable, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
+import { ERROR_MAPPINGS } from '@interceptors/interceptors.constants';
+import { ErrorMapping } from '@interceptors/interfaces/error-mapping.interface';
 
 /**
  * Excpetion mapping
  * Another interesting use-case is to take advantage of RxJS's catchError() operator to override thrown exceptions.
  *
+ * The errors to override are listed in a mapping table, which is provided with the ERROR_MAPPINGS token
+ * or passed to the constructor, e.g. @UseInterceptors(new ErrorsInterceptor([...])):
+ * [{ error: AbortError, toException: () => new RequestTimeoutException() }]
+ *
+ * The first entry matching the error's class wins. The original error is kept as the cause of the exception,
+ * so it still shows up in the logs. HttpExceptions and errors without an entry are passed on unchanged.
  */
 @Injectable()
 export class ErrorsInterceptor implements NestInterceptor {
+  constructor(
+    @Optional()
+    @Inject(ERROR_MAPPINGS)
+    private readonly mappings: ErrorMapping[] = [],
+  ) {}
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     return next
       .handle()
-      .pipe(catchError((err) => throwError(() => new BadGatewayException())));
+      .pipe(catchError((err) => throwError(() => this.map(err))));
+  }
+
+  private map(err: unknown): unknown {
+    if (err instanceof HttpException) {
+      return err;
+    }
+    const mapping = this.mappings.find(({ error }) => err instanceof error);
+    if (!mapping) {
+      return err;
+    }
+    const exception = mapping.toException(err);
+    exception.cause ??= err as Error;
+    return exception;
   }
 }
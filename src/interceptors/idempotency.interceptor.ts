@@ -0,0 +1,141 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Response } from 'express';
+import { Observable, of } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { IDEMPOTENT_KEY } from '@decorators/idempotent.decorator';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_OPTIONS,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from '@idempotency/idempotency.constants';
+import { IdempotencyStore } from '@idempotency/idempotency.store';
+import { IdempotencyOptions } from '@idempotency/interfaces/idempotency-options.interface';
+
+/**
+ * Printable ASCII characters, like the keys generated by clients (usually UUIDs).
+ */
+const VALID_KEY = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Makes retries of non-idempotent requests safe, e.g. a POST /cats whose response got lost on a mobile network.
+ * The client sends a unique Idempotency-Key header with the request, and the same key with every retry of it.
+ *
+ * The first request with a key is processed, and its response (status and body) is stored for the time to live.
+ * Retries get the stored response, marked with the Idempotent-Replayed header, instead of being processed again.
+ * A retry arriving while the first request is still processed is answered with 409 Conflict,
+ * reusing a key for a different request (another payload or path) with 422 Unprocessable Entity.
+ *
+ * Keys are scoped to the user, so users can't replay each other's responses.
+ * Failed requests don't keep their key, so they can be retried.
+ * The response is stored even if the client disconnected before it was sent, as the change has been made anyway.
+ * A key whose request never completes (e.g. the application crashed) is only reserved for the pending time to live.
+ *
+ * The interceptor only acts on routes marked with @Idempotent(), which read a parsed body
+ * (its fingerprint couldn't tell the payloads of a streamed upload apart). Requests without the header are passed on.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly store: IdempotencyStore,
+    @Inject(IDEMPOTENCY_OPTIONS) private readonly options: IdempotencyOptions,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<any>> {
+    const idempotent = this.reflector.getAllAndOverride<{ ttl?: number }>(
+      IDEMPOTENT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const idempotencyKey = request.header(IDEMPOTENCY_KEY_HEADER);
+    if (!idempotent || idempotencyKey === undefined) {
+      return next.handle();
+    }
+    if (!VALID_KEY.test(idempotencyKey)) {
+      throw new BadRequestException(
+        `The ${IDEMPOTENCY_KEY_HEADER} header has to consist of 1 to 255 printable characters`,
+      );
+    }
+
+    const ttl = (idempotent.ttl ?? this.options.ttl) * 1000;
+    const key = `${request.user?.id ?? `ip:${request.ip}`}:${idempotencyKey}`;
+    const fingerprint = this.fingerprintOf(request);
+    const record = await this.store.reserve(
+      key,
+      fingerprint,
+      this.options.pendingTtl * 1000,
+    );
+    if (record) {
+      if (record.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityException(
+          `The ${IDEMPOTENCY_KEY_HEADER} has already been used for a different request`,
+        );
+      }
+      if (!record.response) {
+        throw new ConflictException(
+          `A request with the same ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+        );
+      }
+      response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      response.status(record.response.statusCode);
+      return of(record.response.body);
+    }
+
+    return next.handle().pipe(
+      tap({
+        next: (body) => {
+          // the status is known once the response is sent, and it may still turn into an error on the way out
+          const settle = () =>
+            response.statusCode < HttpStatus.BAD_REQUEST
+              ? this.store.complete(
+                  key,
+                  { statusCode: response.statusCode, body },
+                  ttl,
+                )
+              : this.store.release(key);
+          // a client which disconnected while the request was processed has closed the response already
+          if (response.closed) {
+            settle();
+          } else {
+            response.once('close', settle);
+          }
+        },
+        error: () => this.store.release(key),
+      }),
+    );
+  }
+
+  /**
+   * The body is serialized with sorted keys, so the order of the members doesn't matter.
+   * @param request
+   */
+  private fingerprintOf(request: AuthenticatedRequest): string {
+    const body = JSON.stringify(request.body ?? null, (_, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(
+            Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)),
+          )
+        : value,
+    );
+    return createHash('sha256')
+      .update(`${request.method} ${request.originalUrl}\n${body}`)
+      .digest('base64url');
+  }
+}
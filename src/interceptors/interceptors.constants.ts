@@ -0,0 +1,3 @@
+export const REQUEST_TIMEOUT = 'REQUEST_TIMEOUT';
+export const ERROR_MAPPINGS = 'ERROR_MAPPINGS';
+export const DEPRECATED_API_VERSIONS = 'DEPRECATED_API_VERSIONS';
@@ -0,0 +1,10 @@
+export interface ApiVersionDeprecation {
+  /**
+   * The date the version is going to be removed.
+   */
+  sunset: Date;
+  /**
+   * Optional URL of a document about the deprecation, e.g. a migration guide.
+   */
+  link?: string;
+}
@@ -0,0 +1,18 @@
+import { Page } from '@cats/interfaces/page.interface';
+
+export interface EnvelopeMeta {
+  requestId?: string;
+  apiVersion: string;
+  /**
+   * Only present if the route handler returned a page, whose items are the data of the envelope.
+   */
+  pagination?: Omit<Page<unknown>, 'items'>;
+}
+
+/**
+ * The format of all successful responses, unless the route is marked with @RawResponse().
+ */
+export interface Envelope<T> {
+  data: T;
+  meta: EnvelopeMeta;
+}
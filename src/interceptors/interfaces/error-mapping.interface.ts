@@ -0,0 +1,10 @@
+import { Abstract, HttpException, Type } from '@nestjs/common';
+
+/**
+ * An entry of the ErrorsInterceptor's mapping table:
+ * errors of the given class (or a subclass) are replaced by the HttpException built by toException().
+ */
+export interface ErrorMapping<T extends Error = any> {
+  error: Type<T> | Abstract<T>;
+  toException: (error: T) => HttpException;
+}
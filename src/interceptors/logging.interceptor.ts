@@ -3,9 +3,13 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  Logger,
+  Optional,
 } from '@nestjs/common';
+import { Request, Response } from 'express';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
+import { MetricsService } from '@metrics/metrics.service';
 
 /**
  * An interceptor is a class annotated with the @Injectable() decorator and implements the NestInterceptor interface.
@@ -22,9 +26,21 @@ import { tap } from 'rxjs/operators';
  * HINT: The NestInterceptor<T, R> is a generic interface
  * in which T indicates the type of an Observable<T> (supporting the response stream),
  * and R is the type of the value wrapped by Observable<R>.
+ *
+ * The entries are written at debug level, as the LoggerMiddleware already writes an entry per request.
+ * They tell how much of a request's latency was spent in the route handler.
+ *
+ * The same hook feeds the MetricsService (if the MetricsModule is imported) with the method, route template,
+ * status and duration of each request. The status is only known once the response is sent,
+ * which may be after an exception filter has rendered an error, so the request is recorded when it finishes.
+ * Requests which are rejected before the interceptors run (e.g. by a guard) aren't recorded.
  */
 @Injectable()
 export class LoggingInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(LoggingInterceptor.name);
+
+  constructor(@Optional() private readonly metrics?: MetricsService) {}
+
   /**
    * Each interceptor implements the intercept() method, which takes two arguments.
    *
@@ -57,15 +73,40 @@ export class LoggingInterceptor implements NestInterceptor {
    * @returns
    */
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    console.log('Before...');
+    const handler = `${context.getClass().name}.${context.getHandler().name}`;
+    this.logger.debug({ message: 'Before...', handler });
 
     const now = Date.now();
+    this.observe(context);
 
     /**
      * Since handle() returns an RxJS Observable, we have a wide choice of operators we can use to manipulate the stream.
      */
-    return next
-      .handle()
-      .pipe(tap(() => console.log(`After... ${Date.now() - now}ms`)));
+    return next.handle().pipe(
+      tap(() =>
+        this.logger.debug({
+          message: 'After...',
+          handler,
+          duration: Date.now() - now,
+        }),
+      ),
+    );
+  }
+
+  private observe(context: ExecutionContext): void {
+    if (!this.metrics || context.getType() !== 'http') {
+      return;
+    }
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const startedAt = process.hrtime.bigint();
+    response.once('finish', () =>
+      this.metrics.observeRequest({
+        method: request.method,
+        route: request.route?.path ?? request.path,
+        status: response.statusCode,
+        duration: Number(process.hrtime.bigint() - startedAt) / 1e9,
+      }),
+    );
   }
 }
@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import {
+  CallHandler,
+  Controller,
+  ExecutionContext,
+  Get,
+  RequestTimeoutException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, timer } from 'rxjs';
+import { map } from 'rxjs/operators';
+import {
+  AbortableRequest,
+  TimeoutInterceptor,
+} from '@interceptors/timeout.interceptor';
+import { Timeout } from '@decorators/timeout.decorator';
+
+@Controller()
+class TestController {
+  @Get()
+  standard() {
+    return;
+  }
+
+  @Get()
+  @Timeout(10)
+  short() {
+    return;
+  }
+
+  @Get()
+  @Timeout(0)
+  unlimited() {
+    return;
+  }
+}
+
+function contextFor(
+  handler: keyof TestController,
+  request: Partial<AbortableRequest>,
+  response: EventEmitter,
+) {
+  return {
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    getType: () => 'http',
+    switchToHttp: () => ({
+      getRequest: () => request,
+      getResponse: () => response,
+    }),
+  } as unknown as ExecutionContext;
+}
+
+function handlerTaking(milliseconds: number): CallHandler {
+  return { handle: () => timer(milliseconds).pipe(map(() => 'done')) };
+}
+
+describe('TimeoutInterceptor', () => {
+  const interceptor = new TimeoutInterceptor(new Reflector(), 50);
+
+  it('passes the response of a fast handler', async () => {
+    const request: Partial<AbortableRequest> = {};
+    const context = contextFor('standard', request, new EventEmitter());
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, { handle: () => of('ok') })),
+    ).resolves.toBe('ok');
+    expect(request.signal.aborted).toBe(false);
+  });
+
+  it('applies the default timeout', async () => {
+    const request: Partial<AbortableRequest> = {};
+    const context = contextFor('standard', request, new EventEmitter());
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerTaking(20))),
+    ).resolves.toBe('done');
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerTaking(100))),
+    ).rejects.toBeInstanceOf(RequestTimeoutException);
+  });
+
+  it('applies the timeout of @Timeout() and aborts the signal', async () => {
+    const request: Partial<AbortableRequest> = {};
+    const context = contextFor('short', request, new EventEmitter());
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerTaking(30))),
+    ).rejects.toBeInstanceOf(RequestTimeoutException);
+    expect(request.signal.aborted).toBe(true);
+  });
+
+  it('disables the timeout with @Timeout(0)', async () => {
+    const request: Partial<AbortableRequest> = {};
+    const context = contextFor('unlimited', request, new EventEmitter());
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context, handlerTaking(100))),
+    ).resolves.toBe('done');
+  });
+
+  it('aborts the signal when the client closes the connection', () => {
+    const request: Partial<AbortableRequest> = {};
+    const response = Object.assign(new EventEmitter(), {
+      writableFinished: false,
+    });
+    const context = contextFor('standard', request, response);
+
+    const subscription = interceptor
+      .intercept(context, handlerTaking(1000))
+      .subscribe({ error: () => undefined });
+    response.emit('close');
+    subscription.unsubscribe();
+
+    expect(request.signal.aborted).toBe(true);
+  });
+});
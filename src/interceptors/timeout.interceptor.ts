@@ -4,9 +4,20 @@ import {
   ExecutionContext,
   CallHandler,
   RequestTimeoutException,
+  Inject,
+  Optional,
 } from '@nestjs/common';
-import { Observable, throwError, TimeoutError } from 'rxjs';
-import { catchError, timeout } from 'rxjs/operators';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, identity, throwError, TimeoutError } from 'rxjs';
+import { catchError, finalize, timeout } from 'rxjs/operators';
+import { TIMEOUT_KEY } from '@decorators/timeout.decorator';
+import { REQUEST_TIMEOUT } from '@interceptors/interceptors.constants';
+import { httpRequestOf, httpResponseOf } from '@root/utils/execution-context';
+
+export interface AbortableRequest extends Request {
+  signal?: AbortSignal;
+}
 
 /**
  * The possibility of manipulating the stream using RxJS operators gives us many capabilities.
@@ -14,20 +25,55 @@ import { catchError, timeout } from 'rxjs/operators';
  * When your endpoint doesn't return anything after a period of time, you want to terminate with an error response.
  * The following construction enables this.
  *
- * After 5 seconds, request processing will be canceled.
+ * After the timeout, request processing will be canceled.
+ * The timeout defaults to the REQUEST_TIMEOUT provider (5 seconds if there is none)
+ * and can be changed per route or controller with the @Timeout() decorator.
+ *
  * You can also add custom logic before throwing RequestTimeoutException (e.g. release resources).
+ * Unsubscribing from the handler's Observable doesn't stop a Promise which is already running.
+ * So the interceptor attaches an AbortSignal to the request, which handlers pass on to the services (see @Signal()).
+ * The signal is aborted on timeout and when the client closes the connection,
+ * so the services can stop their work instead of finishing it for nobody.
  */
 @Injectable()
 export class TimeoutInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    @Optional()
+    @Inject(REQUEST_TIMEOUT)
+    private defaultTimeout: number = 5000,
+  ) {}
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const milliseconds =
+      this.reflector.getAllAndOverride<number>(TIMEOUT_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? this.defaultTimeout;
+
+    const request = httpRequestOf<AbortableRequest>(context);
+    const response = httpResponseOf(context);
+    const controller = new AbortController();
+    request.signal = controller.signal;
+
+    const onClose = () => {
+      if (!response.writableFinished) {
+        controller.abort();
+      }
+    };
+    response.on('close', onClose);
+
     return next.handle().pipe(
-      timeout(5000),
+      // a timeout of 0 disables it, e.g. for streams which stay open
+      milliseconds > 0 ? timeout(milliseconds) : identity,
       catchError((err) => {
         if (err instanceof TimeoutError) {
+          controller.abort();
           return throwError(() => new RequestTimeoutException());
         }
         return throwError(() => err);
       }),
+      finalize(() => response.off('close', onClose)),
     );
   }
 }
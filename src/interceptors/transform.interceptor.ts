@@ -3,13 +3,20 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  Optional,
+  StreamableFile,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { instanceToPlain } from 'class-transformer';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
-
-export interface Response<T> {
-  data: T;
-}
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { expandRoles } from '@auth/roles';
+import { Page } from '@cats/interfaces/page.interface';
+import { RAW_RESPONSE_KEY } from '@decorators/raw-response.decorator';
+import { Envelope } from '@interceptors/interfaces/envelope.interface';
+import { RequestContext } from '@logging/request-context';
+import { extractApiVersion } from '@root/utils/api-version';
 
 /**
  * Response mapping
@@ -17,14 +24,25 @@ export interface Response<T> {
  * The stream contains the value returned from the route handler,
  * and thus we can easily mutate it using RxJS's map() operator.
  *
- * The TransformInterceptor will modify each response in a trivial way to demonstrate the process.
- * It will use RxJS's map() operator to assign the response object to the data property of a newly created object,
- * returning the new object to the client.
+ * The TransformInterceptor assigns the response object to the data property of a newly created object,
+ * and adds metadata describing the response: the id of the request, the API version requested by the client
+ * and, for pages (see Page), the pagination members, while the items of the page become the data.
+ *
+ * Serialization
+ * Before the response is wrapped, class instances are converted to plain objects by class-transformer.
+ * The roles of the user (including the inherited ones) are passed as groups,
+ * so DTOs decide which members each role gets to see, e.g. @Expose({ groups: ['editor'] }) (see SendCatDTO).
+ * Plain objects are serialized as they are.
  */
 @Injectable()
 export class TransformInterceptor<T>
-  implements NestInterceptor<T, Response<T>>
+  implements NestInterceptor<T, Envelope<unknown> | T>
 {
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional() private readonly requestContext?: RequestContext,
+  ) {}
+
   /**
    * Nest interceptors work with both synchronous and asynchronous intercept() methods.
    * You can simply switch the method to async if necessary.
@@ -32,7 +50,8 @@ export class TransformInterceptor<T>
    * With the below construction the response would look like the following
    * (assuming that route handler returns an empty array []):
    * {
-   *   "data": []
+   *   "data": [],
+   *   "meta": { "requestId": "3f0c...", "apiVersion": "1" }
    * }
    *
    * Interceptors have great value in creating re-usable solutions to requirements
@@ -41,6 +60,9 @@ export class TransformInterceptor<T>
    * We can do it using one line of code and bind the interceptor globally
    * so that it will automatically be used by each registered handler.
    *
+   * Streamed files and routes marked with @RawResponse() are passed on unchanged,
+   * as are the results of GraphQL resolvers, which have a response format of their own.
+   *
    * @param context
    * @param next
    * @returns
@@ -48,7 +70,51 @@ export class TransformInterceptor<T>
   intercept(
     context: ExecutionContext,
     next: CallHandler,
-  ): Observable<Response<T>> {
-    return next.handle().pipe(map((data) => ({ data })));
+  ): Observable<Envelope<unknown> | T> {
+    const raw = this.reflector.getAllAndOverride<boolean>(RAW_RESPONSE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (raw || context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const groups = [...expandRoles(request.user?.roles ?? [])];
+    const apiVersion = extractApiVersion(request);
+    return next
+      .handle()
+      .pipe(
+        map((value: T) =>
+          value instanceof StreamableFile
+            ? value
+            : this.wrap(value, groups, apiVersion),
+        ),
+      );
+  }
+
+  private wrap(
+    value: unknown,
+    groups: string[],
+    apiVersion: string,
+  ): Envelope<unknown> {
+    const meta: Envelope<unknown>['meta'] = {
+      requestId: this.requestContext?.requestId,
+      apiVersion,
+    };
+    if (this.isPage(value)) {
+      const { items, ...pagination } = value;
+      return {
+        data: instanceToPlain(items, { groups }),
+        meta: { ...meta, pagination },
+      };
+    }
+    return { data: instanceToPlain(value, { groups }), meta };
+  }
+
+  private isPage(value: unknown): value is Page<unknown> {
+    return (
+      Array.isArray(value?.['items']) && typeof value['total'] === 'number'
+    );
   }
 }
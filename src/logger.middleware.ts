@@ -1,5 +1,10 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { AuthenticatedRequest } from '@auth/interfaces/authenticated-request.interface';
+import { AppLogger } from '@logging/app-logger.service';
+import { RequestContext } from '@logging/request-context';
+import { REQUEST_ID_HEADER } from '@logging/logging.constants';
 
 /**
  * Middleware is a function which is called before the route handler.
@@ -36,11 +41,76 @@ import { Request, Response, NextFunction } from 'express';
  * };
  * HINT: Consider using the simpler functional middleware alternative any time your middleware doesn't need any dependencies.
  *
+ * Request logging
+ * Middleware runs before guards, interceptors and the route handler, which makes it the right place
+ * to start the RequestContext: everything called while processing the request shares its request id.
+ * The id is taken from the X-Request-Id header, so a request can be followed across services,
+ * or generated if the client didn't send one. It's returned in the X-Request-Id response header.
+ *
+ * Once the response is sent, a single access log entry is written, with the route template (e.g. /cats/:id)
+ * instead of the URL, so entries of the same route can be aggregated.
+ * This covers requests which never reach an interceptor as well, e.g. requests rejected by a guard.
  */
 @Injectable()
 export class LoggerMiddleware implements NestMiddleware {
-  use(req: Request, res: Response, next: NextFunction) {
-    console.log('Request...');
-    next();
+  constructor(
+    private readonly requestContext: RequestContext,
+    private readonly logger: AppLogger,
+  ) {}
+
+  use(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    const requestId = this.requestIdOf(req);
+    const startedAt = process.hrtime.bigint();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    /**
+     * Event listeners don't run in the async context of the request, so the context is restored for the entry.
+     */
+    res.on('finish', () =>
+      this.requestContext.run({ requestId }, () =>
+        this.logRequest(req, res, startedAt),
+      ),
+    );
+    this.requestContext.run({ requestId }, next);
+  }
+
+  /**
+   * Ids sent by the client are only accepted if they are reasonably short and free of special characters,
+   * as they end up in the log.
+   */
+  private requestIdOf(req: AuthenticatedRequest): string {
+    const requestId = req.header(REQUEST_ID_HEADER);
+    return requestId && /^[\w.:-]{1,128}$/.test(requestId)
+      ? requestId
+      : randomUUID();
+  }
+
+  private logRequest(
+    req: AuthenticatedRequest,
+    res: Response,
+    startedAt: bigint,
+  ): void {
+    const route: string | undefined = req.route?.path;
+    const latency =
+      Math.round(Number(process.hrtime.bigint() - startedAt) / 1e5) / 10;
+    const contentLength = res.getHeader('content-length');
+    const entry = {
+      message: `${req.method} ${route ?? req.originalUrl} ${res.statusCode}`,
+      method: req.method,
+      route,
+      url: req.originalUrl,
+      status: res.statusCode,
+      latency,
+      userId: req.user?.id,
+      responseSize:
+        contentLength === undefined ? undefined : Number(contentLength),
+    };
+    if (res.statusCode >= 500) {
+      this.logger.error(entry, 'HTTP');
+    } else if (res.statusCode >= 400) {
+      this.logger.warn(entry, 'HTTP');
+    } else {
+      this.logger.log(entry, 'HTTP');
+    }
   }
 }
@@ -0,0 +1,126 @@
+import { Inject, Injectable, LoggerService, LogLevel } from '@nestjs/common';
+import { LOGGING_MODULE_OPTIONS } from '@logging/logging.constants';
+import { LoggingModuleOptions } from '@logging/interfaces/logging-module-options.interface';
+import { RequestContext } from '@logging/request-context';
+
+const SEVERITY: Record<LogLevel, number> = {
+  error: 0,
+  warn: 1,
+  log: 2,
+  debug: 3,
+  verbose: 4,
+};
+
+/**
+ * A logger writes a message and the fields describing it, e.g. the status of a response.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Custom logger
+ * Nest's built-in logger is used for system logging (bootstrap, exceptions) as well as for application logging.
+ * A custom logger only has to implement the LoggerService interface and is installed with app.useLogger(),
+ * after which the Logger instances all over the application (new Logger(CatsService.name)) write through it.
+ *
+ * Every entry is a single line, including the id of the request it was written for (see RequestContext).
+ * A message may be an object, whose members are written as fields of the entry:
+ * logger.log({ message: 'Cat created', catId: 1 }, 'CatsService');
+ */
+@Injectable()
+export class AppLogger implements LoggerService {
+  constructor(
+    @Inject(LOGGING_MODULE_OPTIONS)
+    private readonly options: LoggingModuleOptions,
+    private readonly requestContext: RequestContext,
+  ) {}
+
+  log(message: any, ...optionalParams: any[]) {
+    this.write('log', message, optionalParams[0]);
+  }
+
+  /**
+   * Nest passes the stack trace before the context, e.g. error(message, stack, context),
+   * and just the context if there is no stack trace.
+   */
+  error(message: any, ...optionalParams: any[]) {
+    const [stack, context] =
+      optionalParams.length > 1
+        ? optionalParams
+        : [undefined, optionalParams[0]];
+    this.write('error', message, context, stack && { stack });
+  }
+
+  warn(message: any, ...optionalParams: any[]) {
+    this.write('warn', message, optionalParams[0]);
+  }
+
+  debug(message: any, ...optionalParams: any[]) {
+    this.write('debug', message, optionalParams[0]);
+  }
+
+  verbose(message: any, ...optionalParams: any[]) {
+    this.write('verbose', message, optionalParams[0]);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return SEVERITY[level] <= SEVERITY[this.options.level];
+  }
+
+  private write(
+    level: LogLevel,
+    message: any,
+    context?: string,
+    extra?: LogFields,
+  ): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+    const { message: text, ...fields }: LogFields =
+      typeof message === 'object' &&
+      message !== null &&
+      !(message instanceof Error)
+        ? message
+        : { message: message instanceof Error ? message.message : message };
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      ...(context && { context }),
+      ...(this.requestContext.requestId && {
+        requestId: this.requestContext.requestId,
+      }),
+      message: text,
+      ...fields,
+      ...extra,
+    };
+    const line =
+      this.options.format === 'json'
+        ? JSON.stringify(entry)
+        : this.prettify(entry);
+    (level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+  }
+
+  private prettify({
+    time,
+    level,
+    context,
+    requestId,
+    message,
+    stack,
+    ...fields
+  }: LogFields): string {
+    const details = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+    return [
+      time,
+      String(level).toUpperCase().padStart(7),
+      context && `[${context}]`,
+      requestId && `(${requestId})`,
+      message,
+      ...details,
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .concat(stack ? `\n${stack}` : '');
+  }
+}
@@ -0,0 +1,23 @@
+import { LogLevel, ModuleMetadata } from '@nestjs/common';
+
+export type LogFormat = 'json' | 'pretty';
+
+export interface LoggingModuleOptions {
+  /**
+   * The least severe level which is written, ordered from error (most severe) to verbose.
+   * E.g. log writes error, warn and log entries, but no debug and verbose entries.
+   */
+  level: LogLevel;
+  /**
+   * json writes one JSON object per line for log collectors, pretty a human-readable line for the console.
+   */
+  format: LogFormat;
+}
+
+export interface LoggingModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Partial<LoggingModuleOptions> | Promise<Partial<LoggingModuleOptions>>;
+  inject?: any[];
+}
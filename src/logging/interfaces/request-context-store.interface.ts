@@ -0,0 +1,12 @@
+import { Principal } from '@auth/interfaces/principal.interface';
+
+/**
+ * The data which belongs to the request currently being processed, see RequestContext.
+ */
+export interface RequestContextStore {
+  requestId: string;
+  /**
+   * The authenticated user, once the AuthGuard has verified the token.
+   */
+  user?: Principal;
+}
@@ -0,0 +1,2 @@
+export const LOGGING_MODULE_OPTIONS = 'LOGGING_MODULE_OPTIONS';
+export const REQUEST_ID_HEADER = 'X-Request-Id';
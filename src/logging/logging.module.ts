@@ -0,0 +1,59 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { AppLogger } from '@logging/app-logger.service';
+import { LOGGING_MODULE_OPTIONS } from '@logging/logging.constants';
+import {
+  LoggingModuleAsyncOptions,
+  LoggingModuleOptions,
+} from '@logging/interfaces/logging-module-options.interface';
+import { RequestContext } from '@logging/request-context';
+
+/**
+ * Provides the AppLogger and the RequestContext.
+ * The module is global, because the context has to be a single instance:
+ * the LoggerMiddleware starts it and every logger reads from it.
+ */
+const defaults: LoggingModuleOptions = {
+  level: 'log',
+  format: 'json',
+};
+
+@Module({
+  providers: [AppLogger, RequestContext],
+  exports: [AppLogger, RequestContext],
+})
+export class LoggingModule {
+  static forRoot(options: Partial<LoggingModuleOptions> = {}): DynamicModule {
+    return {
+      module: LoggingModule,
+      global: true,
+      providers: [
+        {
+          provide: LOGGING_MODULE_OPTIONS,
+          useValue: { ...defaults, ...options },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: LoggingModuleAsyncOptions): DynamicModule {
+    return {
+      module: LoggingModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: LOGGING_MODULE_OPTIONS,
+          useFactory: async (...args: unknown[]) => ({
+            ...defaults,
+            ...(await options.useFactory(...args)),
+          }),
+          inject: options.inject ?? [],
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Principal } from '@auth/interfaces/principal.interface';
+import { RequestContextStore } from '@logging/interfaces/request-context-store.interface';
+
+/**
+ * Node.js keeps an AsyncLocalStorage store along the chain of callbacks and promises
+ * which were started within run(), so every function called on behalf of a request
+ * sees the store of that request, even across awaits.
+ *
+ * This way providers get hold of the request id without passing the request around
+ * (or making them request-scoped, which would create new instances per request).
+ * Outside of a request (e.g. during bootstrap), there is no store.
+ *
+ * The store is started by the LoggerMiddleware with the request id. The AuthGuard adds the user later on,
+ * which is seen by everything running after the guard, e.g. the subscribers of the EventBus (see AuditService).
+ */
+@Injectable()
+export class RequestContext {
+  private readonly storage = new AsyncLocalStorage<RequestContextStore>();
+
+  run<T>(store: RequestContextStore, callback: () => T): T {
+    return this.storage.run(store, callback);
+  }
+
+  get store(): RequestContextStore | undefined {
+    return this.storage.getStore();
+  }
+
+  get requestId(): string | undefined {
+    return this.store?.requestId;
+  }
+
+  get user(): Principal | undefined {
+    return this.store?.user;
+  }
+}
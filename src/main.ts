@@ -1,8 +1,35 @@
 import { NestFactory } from '@nestjs/core';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from '@root/app.module';
+import { AppLogger } from '@logging/app-logger.service';
+import { apiVersioning } from '@root/utils/api-version';
+import { AppConfig } from '@config/app-config';
+import { useBodyParsers } from '@root/utils/body-parsers';
 
+/**
+ * The logs are buffered until the AppLogger is installed,
+ * so the bootstrap messages are written in the configured format as well.
+ *
+ * The API version is selected by the URI (/v2/cats), the X-API-Version header
+ * or the Accept header (application/vnd.cats.v2+json), see apiVersioning.
+ *
+ * The body parsers are registered by useBodyParsers() instead of Nest, so they skip the bulk import,
+ * which reads the upload from the request stream.
+ *
+ * The gateways (see CatFeedGateway) are served with the ws library, on the port of the HTTP server.
+ *
+ * The port is configured like everything else (see AppConfig), by the PORT variable or server.port in config.yaml.
+ */
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, { abortOnError: false });
-  await app.listen(3000);
+  const app = await NestFactory.create(AppModule, {
+    abortOnError: false,
+    bufferLogs: true,
+    bodyParser: false,
+  });
+  app.useLogger(app.get(AppLogger));
+  useBodyParsers(app);
+  app.enableVersioning(apiVersioning);
+  app.useWebSocketAdapter(new WsAdapter(app));
+  await app.listen(app.get(AppConfig).server.port);
 }
 bootstrap();
@@ -0,0 +1,6 @@
+export interface MetricsModuleOptions {
+  /**
+   * Upper bounds of the buckets of the latency histogram in seconds, in ascending order.
+   */
+  buckets: number[];
+}
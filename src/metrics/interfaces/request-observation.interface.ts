@@ -0,0 +1,12 @@
+export interface RequestObservation {
+  method: string;
+  /**
+   * The route template, e.g. /cats/:id, so all requests of a route share their series.
+   */
+  route: string;
+  status: number;
+  /**
+   * Seconds from the start to the end of the request.
+   */
+  duration: number;
+}
@@ -0,0 +1 @@
+export const METRICS_MODULE_OPTIONS = 'METRICS_MODULE_OPTIONS';
@@ -0,0 +1,18 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { RawResponse } from '@decorators/raw-response.decorator';
+import { MetricsService } from '@metrics/metrics.service';
+
+/**
+ * The endpoint scraped by Prometheus.
+ */
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @RawResponse()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  metrics(): string {
+    return this.metricsService.render();
+  }
+}
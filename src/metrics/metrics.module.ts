@@ -0,0 +1,32 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { METRICS_MODULE_OPTIONS } from '@metrics/metrics.constants';
+import { MetricsController } from '@metrics/metrics.controller';
+import { MetricsService } from '@metrics/metrics.service';
+import { MetricsModuleOptions } from '@metrics/interfaces/metrics-module-options.interface';
+
+/**
+ * Provides the MetricsService and GET /metrics.
+ * The module is global, so the LoggingInterceptor can feed the MetricsService wherever it's bound.
+ */
+@Module({
+  controllers: [MetricsController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {
+  static forRoot(options: Partial<MetricsModuleOptions> = {}): DynamicModule {
+    return {
+      module: MetricsModule,
+      global: true,
+      providers: [
+        {
+          provide: METRICS_MODULE_OPTIONS,
+          useValue: {
+            buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+            ...options,
+          },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { METRICS_MODULE_OPTIONS } from '@metrics/metrics.constants';
+import { MetricsModuleOptions } from '@metrics/interfaces/metrics-module-options.interface';
+import { RequestObservation } from '@metrics/interfaces/request-observation.interface';
+
+interface Histogram {
+  /**
+   * Number of observations per bucket, not cumulated.
+   */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Collects the request metrics and renders them in the Prometheus text format
+ * (https://prometheus.io/docs/instrumenting/exposition_formats/):
+ * - http_requests_total: counter by method, route and status
+ * - http_request_duration_seconds: histogram by method and route
+ *
+ * The metrics are kept in memory, so they start from zero when the application restarts,
+ * which Prometheus handles for counters and histograms.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly requests = new Map<string, number>();
+  private readonly durations = new Map<string, Histogram>();
+
+  constructor(
+    @Inject(METRICS_MODULE_OPTIONS)
+    private readonly options: MetricsModuleOptions,
+  ) {}
+
+  observeRequest({ method, route, status, duration }: RequestObservation) {
+    const requestLabels = labels({ method, route, status: String(status) });
+    this.requests.set(
+      requestLabels,
+      (this.requests.get(requestLabels) ?? 0) + 1,
+    );
+
+    const durationLabels = labels({ method, route });
+    const histogram = this.durations.get(durationLabels) ?? {
+      buckets: this.options.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    const bucket = this.options.buckets.findIndex((le) => duration <= le);
+    if (bucket >= 0) {
+      histogram.buckets[bucket]++;
+    }
+    histogram.sum += duration;
+    histogram.count++;
+    this.durations.set(durationLabels, histogram);
+  }
+
+  render(): string {
+    const lines = [
+      '# HELP http_requests_total Number of HTTP requests.',
+      '# TYPE http_requests_total counter',
+    ];
+    for (const [requestLabels, count] of this.requests) {
+      lines.push(`http_requests_total{${requestLabels}} ${count}`);
+    }
+
+    lines.push(
+      '# HELP http_request_duration_seconds Latency of the HTTP requests.',
+      '# TYPE http_request_duration_seconds histogram',
+    );
+    for (const [durationLabels, { buckets, sum, count }] of this.durations) {
+      let cumulated = 0;
+      this.options.buckets.forEach((le, index) => {
+        cumulated += buckets[index];
+        lines.push(
+          `http_request_duration_seconds_bucket{${durationLabels},le="${le}"} ${cumulated}`,
+        );
+      });
+      lines.push(
+        `http_request_duration_seconds_bucket{${durationLabels},le="+Inf"} ${count}`,
+        `http_request_duration_seconds_sum{${durationLabels}} ${sum}`,
+        `http_request_duration_seconds_count{${durationLabels}} ${count}`,
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Backslashes, double quotes and line feeds have to be escaped in label values.
+ */
+function labels(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(
+      ([name, value]) =>
+        `${name}="${value.replace(/[\\"\n]/g, (c) =>
+          c === '\n' ? '\\n' : `\\${c}`,
+        )}"`,
+    )
+    .join(',');
+}
@@ -0,0 +1,197 @@
+/**
+ * The interactive documentation served at GET /docs.
+ *
+ * The page is self-contained (no scripts or styles from a CDN), so it works offline and under a strict CSP.
+ * It loads the OpenAPI document and lists the operations by tag. Each operation has a form for its parameters
+ * and body, prefilled from the schemas, and sends the request with the bearer token entered at the top.
+ * @param documentUrl the path of the OpenAPI document
+ * @param title
+ */
+export function renderDocsPage(documentUrl: string, title: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem; color: #222; }
+  header { display: flex; gap: 1rem; align-items: center; justify-content: space-between; flex-wrap: wrap; }
+  input, textarea { font-family: ui-monospace, monospace; font-size: 0.9rem; padding: 0.25rem; }
+  textarea { width: 100%; min-height: 6rem; box-sizing: border-box; }
+  details { border: 1px solid #ddd; border-radius: 4px; margin: 0.5rem 0; }
+  summary { cursor: pointer; padding: 0.5rem; font-family: ui-monospace, monospace; }
+  details > div { padding: 0 0.75rem 0.75rem; }
+  .method { display: inline-block; width: 4.5rem; font-weight: bold; text-transform: uppercase; }
+  .get { color: #1565c0; } .post { color: #2e7d32; } .put { color: #ef6c00; }
+  .patch { color: #6a1b9a; } .delete { color: #c62828; }
+  .meta { color: #666; font-size: 0.85rem; }
+  label { display: block; margin: 0.25rem 0; }
+  label span { display: inline-block; min-width: 8rem; }
+  pre { background: #f5f5f5; padding: 0.5rem; overflow: auto; }
+</style>
+</head>
+<body>
+<header>
+  <h1 id="title">${escapeHtml(title)}</h1>
+  <label>Bearer token <input id="token" size="40" placeholder="access_token of POST /auth/login"></label>
+</header>
+<p><a href="${escapeHtml(documentUrl)}">${escapeHtml(documentUrl)}</a></p>
+<main id="operations">Loading…</main>
+<script>
+(function () {
+  var tokenInput = document.getElementById('token');
+  tokenInput.value = sessionStorage.getItem('docs-token') || '';
+  tokenInput.addEventListener('change', function () {
+    sessionStorage.setItem('docs-token', tokenInput.value);
+  });
+
+  function el(tag, props, children) {
+    var node = document.createElement(tag);
+    Object.assign(node, props || {});
+    (children || []).forEach(function (child) {
+      node.append(child);
+    });
+    return node;
+  }
+
+  function resolve(spec, schema) {
+    while (schema && schema.$ref) {
+      schema = spec.components.schemas[schema.$ref.split('/').pop()];
+    }
+    if (schema && schema.allOf) {
+      return resolve(spec, schema.allOf[0]);
+    }
+    return schema || {};
+  }
+
+  function example(spec, schema, depth) {
+    schema = resolve(spec, schema);
+    if (depth > 5) return null;
+    if (schema.enum) return schema.enum[0];
+    switch (schema.type) {
+      case 'object':
+        var value = {};
+        Object.keys(schema.properties || {}).forEach(function (name) {
+          value[name] = example(spec, schema.properties[name], depth + 1);
+        });
+        return value;
+      case 'array': return [example(spec, schema.items, depth + 1)];
+      case 'integer': case 'number': return schema.minimum || 0;
+      case 'boolean': return false;
+      default: return 'string';
+    }
+  }
+
+  function operationView(spec, path, method, operation) {
+    var inputs = {};
+    var form = el('div');
+    if (operation.description) form.append(el('p', { textContent: operation.description }));
+    form.append(el('p', {
+      className: 'meta',
+      textContent: [
+        operation.security ? 'Requires a bearer token.' : 'Public.',
+        operation['x-api-version'] ? 'API version ' + operation['x-api-version'] + '.' : '',
+      ].join(' '),
+    }));
+    operation.parameters.forEach(function (parameter) {
+      var input = el('input', { placeholder: resolve(spec, parameter.schema).type || '' });
+      inputs[parameter.in + ':' + parameter.name] = { parameter: parameter, input: input };
+      form.append(el('label', {}, [
+        el('span', { textContent: parameter.name + (parameter.required ? ' *' : '') + ' (' + parameter.in + ')' }),
+        input,
+      ]));
+    });
+    var body;
+    var files = {};
+    var content = operation.requestBody ? operation.requestBody.content : {};
+    if (content['application/json']) {
+      var schema = content['application/json'].schema;
+      body = el('textarea', { value: JSON.stringify(example(spec, schema, 0), null, 2) });
+      form.append(el('label', {}, [el('span', { textContent: 'Body' }), body]));
+    } else if (content['multipart/form-data']) {
+      Object.keys(content['multipart/form-data'].schema.properties).forEach(function (name) {
+        files[name] = el('input', { type: 'file' });
+        form.append(el('label', {}, [el('span', { textContent: name }), files[name]]));
+      });
+    }
+    var output = el('pre', { hidden: true });
+    var send = el('button', { textContent: 'Send' });
+    send.addEventListener('click', function () {
+      var url = path;
+      var query = new URLSearchParams();
+      var headers = {};
+      Object.keys(inputs).forEach(function (key) {
+        var parameter = inputs[key].parameter;
+        var value = inputs[key].input.value;
+        if (value === '') return;
+        if (parameter.in === 'path') url = url.replace('{' + parameter.name + '}', encodeURIComponent(value));
+        if (parameter.in === 'query') query.set(parameter.name, value);
+        if (parameter.in === 'header') headers[parameter.name] = value;
+      });
+      if (tokenInput.value) headers.Authorization = 'Bearer ' + tokenInput.value;
+      if (body) headers['Content-Type'] = 'application/json';
+      var data = body ? body.value : undefined;
+      if (Object.keys(files).length > 0) {
+        // the browser sets the Content-Type with the boundary of the parts
+        data = new FormData();
+        Object.keys(files).forEach(function (name) {
+          if (files[name].files[0]) data.append(name, files[name].files[0]);
+        });
+      }
+      output.hidden = false;
+      output.textContent = 'Sending…';
+      fetch(url + (query.toString() ? '?' + query : ''), {
+        method: method.toUpperCase(),
+        headers: headers,
+        body: data,
+      }).then(function (response) {
+        return response.text().then(function (text) {
+          try { text = JSON.stringify(JSON.parse(text), null, 2); } catch (e) {}
+          output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + text;
+        });
+      }).catch(function (error) {
+        output.textContent = String(error);
+      });
+    });
+    form.append(send, output);
+    return el('details', {}, [
+      el('summary', {}, [el('span', { className: 'method ' + method, textContent: method }), path]),
+      form,
+    ]);
+  }
+
+  fetch(${JSON.stringify(documentUrl)})
+    .then(function (response) { return response.json(); })
+    .then(function (spec) {
+      document.getElementById('title').textContent = spec.info.title + ' ' + spec.info.version;
+      var main = document.getElementById('operations');
+      main.textContent = '';
+      spec.tags.forEach(function (tag) {
+        main.append(el('h2', { textContent: tag.name }));
+        Object.keys(spec.paths).forEach(function (path) {
+          Object.keys(spec.paths[path]).forEach(function (method) {
+            var operation = spec.paths[path][method];
+            if (operation.tags.indexOf(tag.name) !== -1) {
+              main.append(operationView(spec, path, method, operation));
+            }
+          });
+        });
+      });
+    })
+    .catch(function (error) {
+      document.getElementById('operations').textContent = 'The document could not be loaded: ' + error;
+    });
+})();
+</script>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    (character) => `&#${character.charCodeAt(0)};`,
+  );
+}
@@ -0,0 +1,25 @@
+import { writeFileSync } from 'fs';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '@root/app.module';
+import { OpenApiService } from '@openapi/openapi.service';
+
+/**
+ * Writes the OpenAPI document of the application to a file, so changes of the API show up in the review:
+ *
+ * $ npm run openapi -- openapi.json
+ *
+ * The application is initialized, but doesn't listen for requests.
+ * Without a path, the document is written to the standard output.
+ */
+async function emit(path?: string) {
+  const app = await NestFactory.create(AppModule, { logger: ['error'] });
+  await app.init();
+  const json = `${JSON.stringify(app.get(OpenApiService).document, null, 2)}\n`;
+  await app.close();
+  if (path) {
+    writeFileSync(path, json);
+  } else {
+    process.stdout.write(json);
+  }
+}
+emit(process.argv[2]);
@@ -0,0 +1,81 @@
+/**
+ * The subset of the OpenAPI 3.0 specification (https://spec.openapis.org/oas/v3.0.3)
+ * produced by createOpenApiDocument().
+ */
+export interface OpenApiDocument {
+  openapi: '3.0.3';
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, PathItemObject>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    responses: Record<string, ResponseObject>;
+    securitySchemes: Record<string, SecuritySchemeObject>;
+  };
+  tags: { name: string }[];
+}
+
+export type HttpMethod = 'get' | 'put' | 'post' | 'delete' | 'patch';
+
+export type PathItemObject = Partial<Record<HttpMethod, OperationObject>>;
+
+export interface OperationObject {
+  operationId: string;
+  tags: string[];
+  description?: string;
+  parameters: ParameterObject[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: SchemaObject | ReferenceObject }>;
+  };
+  responses: Record<string, ResponseObject | ReferenceObject>;
+  security?: Record<string, string[]>[];
+  /**
+   * The roles and permissions required by @Roles() and @Permissions().
+   */
+  'x-roles'?: string[];
+  'x-permissions'?: string[];
+  'x-api-version'?: string;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: SchemaObject | ReferenceObject;
+  description?: string;
+}
+
+export interface ResponseObject {
+  description: string;
+  headers?: Record<string, { schema: SchemaObject; description?: string }>;
+  content?: Record<string, { schema: SchemaObject | ReferenceObject }>;
+}
+
+export interface SecuritySchemeObject {
+  type: 'http';
+  scheme: 'bearer';
+  bearerFormat?: string;
+  description?: string;
+}
+
+export interface ReferenceObject {
+  $ref: string;
+}
+
+export interface SchemaObject {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  format?: string;
+  description?: string;
+  properties?: Record<string, SchemaObject | ReferenceObject>;
+  additionalProperties?: boolean | SchemaObject;
+  required?: string[];
+  items?: SchemaObject | ReferenceObject;
+  allOf?: (SchemaObject | ReferenceObject)[];
+  enum?: unknown[];
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
@@ -0,0 +1,11 @@
+export interface OpenApiModuleOptions {
+  /**
+   * The title of the API in the info object of the document.
+   */
+  title: string;
+  /**
+   * The version of the document (not of the API versions it describes).
+   */
+  version: string;
+  description?: string;
+}
@@ -0,0 +1,539 @@
+import { ParseIntPipe, RequestMethod, Type } from '@nestjs/common';
+import {
+  GUARDS_METADATA,
+  HEADERS_METADATA,
+  HTTP_CODE_METADATA,
+  METHOD_METADATA,
+  PATH_METADATA,
+  ROUTE_ARGS_METADATA,
+  SSE_METADATA,
+  VERSION_METADATA,
+} from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { STATUS_CODES } from 'http';
+import {
+  API_RESPONSE_KEY,
+  ApiResponseOptions,
+} from '@decorators/api-response.decorator';
+import { IDEMPOTENT_KEY } from '@decorators/idempotent.decorator';
+import { PERMISSIONS_KEY } from '@decorators/permissions.decorator';
+import { RAW_RESPONSE_KEY } from '@decorators/raw-response.decorator';
+import { ROLES_KEY } from '@decorators/roles.decorator';
+import { PROBLEM_JSON } from '@filters/problem-details';
+import { AuthGuard } from '@guards/auth.guard';
+import { PoliciesGuard } from '@guards/policies.guard';
+import { RolesGuard } from '@guards/roles.guard';
+import { ThrottleGuard } from '@guards/throttle.guard';
+import { IDEMPOTENCY_KEY_HEADER } from '@idempotency/idempotency.constants';
+import {
+  HttpMethod,
+  OpenApiDocument,
+  OperationObject,
+  ParameterObject,
+  ResponseObject,
+  SchemaObject,
+} from '@openapi/interfaces/openapi-document.interface';
+import { OpenApiModuleOptions } from '@openapi/interfaces/openapi-module-options.interface';
+import { SchemaRegistry } from '@openapi/schema-registry';
+import { ParseIfMatchPipe } from '@pipes/parse-if-match.pipe';
+import { DEFAULT_API_VERSION } from '@root/utils/api-version';
+
+/**
+ * A route handler of a controller together with the metadata its decorators left on it.
+ */
+interface Route {
+  controller: Type<unknown>;
+  name: string;
+  handler: (...args: unknown[]) => unknown;
+  method: HttpMethod;
+  version?: string;
+}
+
+/**
+ * Reads the metadata of the handler, falling back to the controller like Reflector.getAllAndOverride().
+ */
+function metadataOf<T>(key: string, route: Route): T | undefined {
+  return (
+    Reflect.getMetadata(key, route.handler) ??
+    Reflect.getMetadata(key, route.controller)
+  );
+}
+
+/**
+ * Merges the metadata arrays of the controller and the handler like Reflector.getAllAndMerge().
+ */
+function allMetadataOf<T>(key: string, route: Route): T[] {
+  return [
+    ...(Reflect.getMetadata(key, route.controller) ?? []),
+    ...(Reflect.getMetadata(key, route.handler) ?? []),
+  ];
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+const URI_VERSION = /^\/?v(\d+)(?:\/|$)/;
+
+/**
+ * The error responses shared by the operations. Errors are sent as problem details (see ProblemDetailsFilter).
+ */
+const ERROR_RESPONSES: Record<string, [number, ResponseObject['headers']?]> = {
+  BadRequest: [400],
+  Unauthorized: [401],
+  Forbidden: [403],
+  NotFound: [404],
+  Conflict: [409],
+  PreconditionFailed: [412],
+  UnprocessableEntity: [422],
+  PreconditionRequired: [428],
+  TooManyRequests: [
+    429,
+    {
+      'Retry-After': {
+        description: 'Seconds until the request may be repeated',
+        schema: { type: 'integer' },
+      },
+    },
+  ],
+};
+
+/**
+ * The schemas of the envelope and the error format, which aren't DTOs with validation decorators.
+ */
+const COMMON_SCHEMAS: Record<string, SchemaObject> = {
+  ProblemDetails: {
+    type: 'object',
+    required: ['type', 'title', 'status'],
+    properties: {
+      type: { type: 'string' },
+      title: { type: 'string' },
+      status: { type: 'integer' },
+      detail: { type: 'string' },
+      instance: { type: 'string' },
+    },
+  },
+  Pagination: {
+    type: 'object',
+    required: ['total', 'limit', 'offset', 'nextCursor'],
+    properties: {
+      total: { type: 'integer' },
+      limit: { type: 'integer' },
+      offset: { type: 'integer' },
+      nextCursor: { type: 'string', nullable: true },
+      links: {
+        type: 'object',
+        properties: { next: { type: 'string', nullable: true } },
+      },
+    },
+  },
+  EnvelopeMeta: {
+    type: 'object',
+    required: ['apiVersion'],
+    properties: {
+      requestId: { type: 'string' },
+      apiVersion: { type: 'string' },
+      pagination: { $ref: '#/components/schemas/Pagination' },
+    } as SchemaObject['properties'],
+  },
+};
+
+/**
+ * Generates the OpenAPI document of the given controllers from the metadata of their decorators:
+ * - @Controller(), @Get(), @Post() etc. and @Version() make up the paths and operations
+ * - @Body(), @Query() and @Param() the parameters and request bodies, see SchemaRegistry for the DTOs
+ * - @HttpCode() and @ApiResponse() the successful response, which is wrapped in the envelope
+ *   of the TransformInterceptor unless the route is marked with @RawResponse()
+ * - @UseGuards(AuthGuard) the bearer token security, @Roles() and @Permissions() the x-roles and x-permissions
+ *
+ * Versioned operations are listed under the path with their version prefix (/v2/cats),
+ * the unprefixed paths (/cats) are aliases of the default version.
+ * As in Express, the first handler registered for a method and path is the one which is documented.
+ * @param controllers
+ * @param options
+ */
+export function createOpenApiDocument(
+  controllers: Type<unknown>[],
+  options: OpenApiModuleOptions,
+): OpenApiDocument {
+  const registry = new SchemaRegistry();
+  const document: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    paths: {},
+    components: {
+      schemas: registry.schemas,
+      responses: Object.fromEntries(
+        Object.entries(ERROR_RESPONSES).map(([name, [status, headers]]) => [
+          name,
+          {
+            description: STATUS_CODES[status],
+            ...(headers && { headers }),
+            content: {
+              [PROBLEM_JSON]: {
+                schema: { $ref: '#/components/schemas/ProblemDetails' },
+              },
+            },
+          },
+        ]),
+      ),
+      securitySchemes: {},
+    },
+    tags: [],
+  };
+  Object.assign(registry.schemas, COMMON_SCHEMAS);
+
+  const operationIds = new Set<string>();
+  for (const controller of controllers) {
+    const tag = controller.name.replace(/Controller$/, '');
+    const prefixes = toArray<string>(
+      Reflect.getMetadata(PATH_METADATA, controller),
+    );
+    for (const route of routesOf(controller)) {
+      const versioned = prefixes.filter((prefix) =>
+        route.version ? URI_VERSION.exec(prefix)?.[1] === route.version : false,
+      );
+      const paths = versioned.length
+        ? versioned
+        : prefixes.filter(
+            (prefix) =>
+              !URI_VERSION.test(prefix) &&
+              (!route.version || route.version === DEFAULT_API_VERSION),
+          );
+      for (const prefix of paths) {
+        for (const path of toArray<string>(
+          Reflect.getMetadata(PATH_METADATA, route.handler),
+        )) {
+          const url = toOpenApiPath(prefix, path);
+          const item = (document.paths[url] ??= {});
+          if (item[route.method]) {
+            continue;
+          }
+          let operationId = `${tag}_${route.name}`;
+          if (operationIds.has(operationId)) {
+            operationId += `_v${route.version}`;
+          }
+          operationIds.add(operationId);
+          item[route.method] = createOperation(
+            route,
+            url,
+            operationId,
+            tag,
+            registry,
+          );
+          if (item[route.method].security) {
+            document.components.securitySchemes.bearer = {
+              type: 'http',
+              scheme: 'bearer',
+              bearerFormat: 'JWT',
+              description: 'The access_token of POST /auth/login',
+            };
+          }
+          if (!document.tags.some(({ name }) => name === tag)) {
+            document.tags.push({ name: tag });
+          }
+        }
+      }
+    }
+  }
+  return document;
+}
+
+/**
+ * Lists the route handlers in the order of their declaration, one route per API version.
+ */
+function routesOf(controller: Type<unknown>): Route[] {
+  return Object.getOwnPropertyNames(controller.prototype).flatMap((name) => {
+    const handler = controller.prototype[name];
+    const method: string =
+      name !== 'constructor' && typeof handler === 'function'
+        ? RequestMethod[Reflect.getMetadata(METHOD_METADATA, handler)]
+        : undefined;
+    if (!['GET', 'PUT', 'POST', 'DELETE', 'PATCH'].includes(method)) {
+      return [];
+    }
+    const route: Route = {
+      controller,
+      name,
+      handler,
+      method: method.toLowerCase() as HttpMethod,
+    };
+    const versions = toArray<unknown>(
+      metadataOf(VERSION_METADATA, route),
+    ).filter((version): version is string => typeof version === 'string');
+    return versions.length
+      ? versions.map((version) => ({ ...route, version }))
+      : [route];
+  });
+}
+
+function toOpenApiPath(prefix: string, path: string): string {
+  const segments = [prefix, path]
+    .map((segment) => segment.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean);
+  return `/${segments.join('/')}`.replace(/:(\w+)(\([^)]*\))?/g, '{$1}');
+}
+
+function createOperation(
+  route: Route,
+  url: string,
+  operationId: string,
+  tag: string,
+  registry: SchemaRegistry,
+): OperationObject {
+  const operation: OperationObject = {
+    operationId,
+    tags: [tag],
+    parameters: [],
+    responses: {},
+  };
+
+  let validated = false;
+  let conditional = false;
+  const args: Record<string, { index: number; data?: string; pipes: any[] }> =
+    Reflect.getMetadata(ROUTE_ARGS_METADATA, route.controller, route.name) ??
+    {};
+  const paramtypes: unknown[] =
+    Reflect.getMetadata(
+      'design:paramtypes',
+      route.controller.prototype,
+      route.name,
+    ) ?? [];
+  for (const [key, { index, data, pipes }] of Object.entries(args)) {
+    const paramtype = paramtypes[index];
+    // @IfMatch() is a custom decorator, it's recognized by its pipe, which rejects requests without the header
+    if (
+      pipes.some(
+        (pipe) => pipe === ParseIfMatchPipe || pipe instanceof ParseIfMatchPipe,
+      )
+    ) {
+      conditional = true;
+      operation.parameters.push({
+        name: 'If-Match',
+        in: 'header',
+        required: true,
+        schema: { type: 'string' },
+        description:
+          'The ETag of the resource as last read, or * to change it regardless of its version',
+      });
+    }
+    switch (Number(key.split(':')[0])) {
+      case RouteParamtypes.BODY:
+        operation.requestBody = {
+          required: true,
+          content: {
+            'application/json': {
+              schema: SchemaRegistry.describes(paramtype)
+                ? registry.ref(paramtype)
+                : { type: 'object' },
+            },
+          },
+        };
+        validated ||= SchemaRegistry.describes(paramtype);
+        break;
+      case RouteParamtypes.FILE:
+        // multer puts the file of the field named in FileInterceptor() into request.file, which
+        // @UploadedFile() reads. The name of the field isn't part of the metadata, file is the common choice.
+        operation.requestBody = {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                properties: { file: { type: 'string', format: 'binary' } },
+                required: ['file'],
+              },
+            },
+          },
+        };
+        validated = true;
+        break;
+      case RouteParamtypes.QUERY:
+        if (!data && SchemaRegistry.describes(paramtype)) {
+          validated = true;
+          operation.parameters.push(
+            ...registry.properties(paramtype).map(
+              ({ name, schema, required }): ParameterObject => ({
+                name,
+                in: 'query',
+                required,
+                schema,
+              }),
+            ),
+          );
+        } else if (data) {
+          operation.parameters.push({
+            name: data,
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+          });
+        }
+        break;
+      case RouteParamtypes.PARAM: {
+        const integer = pipes.some(
+          (pipe) => pipe === ParseIntPipe || pipe instanceof ParseIntPipe,
+        );
+        validated ||= integer;
+        if (data) {
+          operation.parameters.push({
+            name: data,
+            in: 'path',
+            required: true,
+            schema: { type: integer ? 'integer' : 'string' },
+          });
+        }
+        break;
+      }
+      case RouteParamtypes.HEADERS:
+        if (data) {
+          operation.parameters.push({
+            name: data,
+            in: 'header',
+            required: false,
+            schema: { type: 'string' },
+          });
+        }
+        break;
+    }
+  }
+  for (const [, name] of url.matchAll(/{(\w+)}/g)) {
+    if (!operation.parameters.some((parameter) => parameter.name === name)) {
+      operation.parameters.push({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      });
+    }
+  }
+
+  operation.responses[successStatus(route)] = successResponse(route, registry);
+  const errors: string[] = [];
+  if (validated) {
+    errors.push('BadRequest');
+  }
+
+  const guards = allMetadataOf<any>(GUARDS_METADATA, route).map((guard) =>
+    typeof guard === 'function' ? guard : guard.constructor,
+  );
+  if (guards.includes(AuthGuard)) {
+    operation.security = [{ bearer: [] }];
+    errors.push('Unauthorized');
+  }
+  const roles = allMetadataOf<string>(ROLES_KEY, route);
+  const permissions = allMetadataOf<string>(PERMISSIONS_KEY, route);
+  if (guards.includes(RolesGuard) && (roles.length || permissions.length)) {
+    if (roles.length) {
+      operation['x-roles'] = roles;
+    }
+    if (permissions.length) {
+      operation['x-permissions'] = permissions;
+    }
+    operation.description = [
+      roles.length && `Requires the role ${roles.join(' or ')}.`,
+      permissions.length &&
+        `Requires the permission ${permissions.join(' or ')}.`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+  if (
+    guards.includes(PoliciesGuard) ||
+    (guards.includes(RolesGuard) && (roles.length || permissions.length))
+  ) {
+    errors.push('Forbidden');
+  }
+  if (/{\w+}/.test(url)) {
+    errors.push('NotFound');
+  }
+  if (guards.includes(ThrottleGuard)) {
+    errors.push('TooManyRequests');
+  }
+  if (metadataOf(IDEMPOTENT_KEY, route)) {
+    operation.parameters.push({
+      name: IDEMPOTENCY_KEY_HEADER,
+      in: 'header',
+      required: false,
+      schema: { type: 'string', maxLength: 255 },
+      description:
+        'A unique key of the request, retries with the same key get the response of the first request',
+    });
+    errors.push('BadRequest', 'Conflict', 'UnprocessableEntity');
+  }
+  if (conditional) {
+    errors.push('PreconditionFailed', 'PreconditionRequired');
+  }
+  if (route.version) {
+    operation['x-api-version'] = route.version;
+  }
+  for (const name of errors) {
+    operation.responses[ERROR_RESPONSES[name][0]] = {
+      $ref: `#/components/responses/${name}`,
+    };
+  }
+  return operation;
+}
+
+function successStatus(route: Route): number {
+  return (
+    Reflect.getMetadata(HTTP_CODE_METADATA, route.handler) ??
+    (route.method === 'post' ? 201 : 200)
+  );
+}
+
+function successResponse(
+  route: Route,
+  registry: SchemaRegistry,
+): ResponseObject {
+  const status = successStatus(route);
+  const response: ResponseObject = { description: STATUS_CODES[status] };
+  if (status === 204) {
+    return response;
+  }
+
+  const declared = metadataOf<ApiResponseOptions>(API_RESPONSE_KEY, route);
+  let schema: SchemaObject = {};
+  if (declared) {
+    const ref = registry.ref(declared.type);
+    schema =
+      declared.page || declared.isArray
+        ? { type: 'array', items: ref }
+        : { allOf: [ref] };
+  }
+  if (Reflect.getMetadata(SSE_METADATA, route.handler)) {
+    response.content = { 'text/event-stream': { schema: { type: 'string' } } };
+    return response;
+  }
+  if (metadataOf<boolean>(RAW_RESPONSE_KEY, route)) {
+    const contentType: string =
+      Reflect.getMetadata(HEADERS_METADATA, route.handler)?.find(
+        ({ name }) => name.toLowerCase() === 'content-type',
+      )?.value ?? 'application/json';
+    response.content = {
+      [contentType.split(';')[0]]: {
+        schema: contentType.startsWith('application/json')
+          ? schema
+          : { type: 'string' },
+      },
+    };
+    return response;
+  }
+  response.content = {
+    'application/json': {
+      schema: {
+        type: 'object',
+        required: ['data', 'meta'],
+        properties: {
+          data: schema,
+          meta: { $ref: '#/components/schemas/EnvelopeMeta' },
+        },
+      },
+    },
+  };
+  return response;
+}
@@ -0,0 +1 @@
+export const OPENAPI_MODULE_OPTIONS = 'OPENAPI_MODULE_OPTIONS';
@@ -0,0 +1,33 @@
+import { Controller, Get, Header, Inject } from '@nestjs/common';
+import { RawResponse } from '@decorators/raw-response.decorator';
+import { renderDocsPage } from '@openapi/docs-page';
+import { OPENAPI_MODULE_OPTIONS } from '@openapi/openapi.constants';
+import { OpenApiService } from '@openapi/openapi.service';
+import { OpenApiDocument } from '@openapi/interfaces/openapi-document.interface';
+import { OpenApiModuleOptions } from '@openapi/interfaces/openapi-module-options.interface';
+
+/**
+ * Serves the OpenAPI document for client generators at GET /openapi.json
+ * and the interactive documentation for humans at GET /docs.
+ * Both are public, the document only describes what the routes require.
+ */
+@Controller()
+@RawResponse()
+export class OpenApiController {
+  constructor(
+    private readonly openApiService: OpenApiService,
+    @Inject(OPENAPI_MODULE_OPTIONS)
+    private readonly options: OpenApiModuleOptions,
+  ) {}
+
+  @Get('openapi.json')
+  document(): OpenApiDocument {
+    return this.openApiService.document;
+  }
+
+  @Get('docs')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  docs(): string {
+    return renderDocsPage('/openapi.json', this.options.title);
+  }
+}
@@ -0,0 +1,32 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { OPENAPI_MODULE_OPTIONS } from '@openapi/openapi.constants';
+import { OpenApiController } from '@openapi/openapi.controller';
+import { OpenApiService } from '@openapi/openapi.service';
+import { OpenApiModuleOptions } from '@openapi/interfaces/openapi-module-options.interface';
+
+/**
+ * Generates the OpenAPI document of all controllers of the application (see createOpenApiDocument())
+ * and serves it with the interactive documentation (see OpenApiController).
+ *
+ * OpenApiModule.forRoot({ title: 'Cats API', version: '1.0.0' })
+ */
+@Module({
+  imports: [DiscoveryModule],
+  controllers: [OpenApiController],
+  providers: [OpenApiService],
+  exports: [OpenApiService],
+})
+export class OpenApiModule {
+  static forRoot(options: Partial<OpenApiModuleOptions> = {}): DynamicModule {
+    return {
+      module: OpenApiModule,
+      providers: [
+        {
+          provide: OPENAPI_MODULE_OPTIONS,
+          useValue: { title: 'API', version: '1.0.0', ...options },
+        },
+      ],
+    };
+  }
+}
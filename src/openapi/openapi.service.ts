@@ -0,0 +1,43 @@
+import { Inject, Injectable, OnModuleInit, Type } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { OPENAPI_MODULE_OPTIONS } from '@openapi/openapi.constants';
+import { OpenApiDocument } from '@openapi/interfaces/openapi-document.interface';
+import { OpenApiModuleOptions } from '@openapi/interfaces/openapi-module-options.interface';
+import { createOpenApiDocument } from '@openapi/openapi-document.factory';
+import { OpenApiController } from '@openapi/openapi.controller';
+
+/**
+ * Holds the OpenAPI document of the application.
+ *
+ * Discovery
+ * The DiscoveryService of @nestjs/core lists the controllers of all modules, so the document covers
+ * every controller without them being registered anywhere. The document is generated once the modules
+ * are initialized, as the metadata of the decorators doesn't change at runtime.
+ * The controller serving the document isn't part of it.
+ */
+@Injectable()
+export class OpenApiService implements OnModuleInit {
+  private generated: OpenApiDocument;
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    @Inject(OPENAPI_MODULE_OPTIONS)
+    private readonly options: OpenApiModuleOptions,
+  ) {}
+
+  onModuleInit() {
+    this.generated = this.generate();
+  }
+
+  get document(): OpenApiDocument {
+    return (this.generated ??= this.generate());
+  }
+
+  private generate(): OpenApiDocument {
+    const controllers = this.discoveryService
+      .getControllers()
+      .map(({ metatype }) => metatype as Type<unknown>)
+      .filter((metatype) => metatype && metatype !== OpenApiController);
+    return createOpenApiDocument([...new Set(controllers)], this.options);
+  }
+}
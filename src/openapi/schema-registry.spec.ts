@@ -0,0 +1,70 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SchemaRegistry } from '@openapi/schema-registry';
+
+class TagDto {
+  @IsString()
+  @MaxLength(20)
+  label: string;
+}
+
+class PostDto {
+  @IsInt()
+  @Min(1)
+  id: number;
+
+  @IsOptional()
+  @IsIn(['draft', 'published'])
+  status?: string;
+
+  @IsString({ each: true })
+  authors: string[];
+
+  @ValidateNested({ each: true })
+  @Type(() => TagDto)
+  tags: TagDto[];
+}
+
+describe('SchemaRegistry', () => {
+  it('should build the schemas from the validation decorators', () => {
+    const registry = new SchemaRegistry();
+
+    expect(registry.ref(PostDto)).toEqual({
+      $ref: '#/components/schemas/PostDto',
+    });
+    expect(registry.schemas).toEqual({
+      PostDto: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', minimum: 1 },
+          status: { type: 'string', enum: ['draft', 'published'] },
+          authors: { type: 'array', items: { type: 'string' } },
+          tags: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/TagDto' },
+          },
+        },
+        required: ['id', 'authors', 'tags'],
+      },
+      TagDto: {
+        type: 'object',
+        properties: { label: { type: 'string', maxLength: 20 } },
+        required: ['label'],
+      },
+    });
+  });
+
+  it('should only describe classes with validation decorators', () => {
+    expect(SchemaRegistry.describes(PostDto)).toBe(true);
+    expect(SchemaRegistry.describes(Object)).toBe(false);
+    expect(SchemaRegistry.describes(undefined)).toBe(false);
+  });
+});
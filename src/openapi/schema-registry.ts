@@ -0,0 +1,160 @@
+import 'reflect-metadata';
+import { Type } from '@nestjs/common';
+import { getMetadataStorage } from 'class-validator';
+import { ValidationMetadata } from 'class-validator/types/metadata/ValidationMetadata';
+import { defaultMetadataStorage } from 'class-transformer/cjs/storage';
+import {
+  ReferenceObject,
+  SchemaObject,
+} from '@openapi/interfaces/openapi-document.interface';
+
+/**
+ * Builds the schemas of DTO classes from their class-validator decorators, the same metadata the
+ * CustomValidationPipe checks the requests against, so the document can't drift from the validation:
+ *
+ * @IsInt() @Min(0) age: number  ->  age: { type: integer, minimum: 0 }
+ *
+ * Members with @IsOptional() aren't required. Nested DTOs (@ValidateNested()) are referenced by the class
+ * given to @Type() of class-transformer, or by the declared type of the member.
+ * Members exposed to certain groups only (@Expose({ groups })) depend on the roles of the user, so they aren't required either.
+ *
+ * Each class is added once to the schemas and referenced by its name.
+ */
+export class SchemaRegistry {
+  readonly schemas: Record<string, SchemaObject> = {};
+
+  ref(type: Type<unknown>): ReferenceObject {
+    if (!this.schemas[type.name]) {
+      // registered before the members are walked, so self-referencing DTOs terminate
+      this.schemas[type.name] = {};
+      this.schemas[type.name] = this.objectSchema(type);
+    }
+    return { $ref: `#/components/schemas/${type.name}` };
+  }
+
+  /**
+   * Whether the class carries validation decorators the schema can be built from.
+   */
+  static describes(type: unknown): type is Type<unknown> {
+    return (
+      typeof type === 'function' &&
+      getMetadataStorage().getTargetValidationMetadatas(type, '', true, false)
+        .length > 0
+    );
+  }
+
+  /**
+   * The members of a DTO one by one, e.g. to list the members of a query DTO as query parameters.
+   */
+  properties(
+    type: Type<unknown>,
+  ): { name: string; schema: SchemaObject; required: boolean }[] {
+    const byProperty = new Map<string, ValidationMetadata[]>();
+    for (const metadata of getMetadataStorage().getTargetValidationMetadatas(
+      type,
+      '',
+      true,
+      false,
+    )) {
+      byProperty.set(metadata.propertyName, [
+        ...(byProperty.get(metadata.propertyName) ?? []),
+        metadata,
+      ]);
+    }
+    return [...byProperty].map(([name, metadatas]) => {
+      const groups: string[] = defaultMetadataStorage.findExposeMetadata(
+        type,
+        name,
+      )?.options?.groups;
+      const schema = this.propertySchema(type, name, metadatas);
+      if (groups?.length) {
+        schema.description = `Only sent to the roles: ${groups.join(', ')}`;
+      }
+      return {
+        name,
+        schema,
+        required:
+          !groups?.length &&
+          !metadatas.some(({ type }) => type === 'conditionalValidation'),
+      };
+    });
+  }
+
+  private objectSchema(type: Type<unknown>): SchemaObject {
+    const properties = this.properties(type);
+    const required = properties
+      .filter((property) => property.required)
+      .map(({ name }) => name);
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        properties.map(({ name, schema }) => [name, schema]),
+      ),
+      ...(required.length > 0 && { required }),
+    };
+  }
+
+  private propertySchema(
+    type: Type<unknown>,
+    name: string,
+    metadatas: ValidationMetadata[],
+  ): SchemaObject {
+    const nested = metadatas.find(({ type }) => type === 'nestedValidation');
+    if (nested) {
+      const target =
+        defaultMetadataStorage.findTypeMetadata(type, name)?.typeFunction() ??
+        Reflect.getMetadata('design:type', type.prototype, name);
+      const ref = this.ref(target);
+      return nested.each ? { type: 'array', items: ref } : { allOf: [ref] };
+    }
+
+    // with { each: true }, the constraint applies to the items of an array
+    const schema: SchemaObject = {};
+    const items: SchemaObject = {};
+    for (const { type, name, constraints, each } of metadatas) {
+      if (type === 'customValidation') {
+        Object.assign(
+          each ? items : schema,
+          CONSTRAINTS[name]?.(constraints ?? []),
+        );
+      }
+    }
+    return schema.type === 'array' || Object.keys(items).length > 0
+      ? { ...schema, type: 'array', items }
+      : schema;
+  }
+}
+
+/**
+ * The decorators of class-validator and the schema members they translate to.
+ * Decorators which aren't listed are validated, but not documented.
+ */
+const CONSTRAINTS: Record<string, (constraints: any[]) => SchemaObject> = {
+  isString: () => ({ type: 'string' }),
+  isInt: () => ({ type: 'integer' }),
+  isNumber: () => ({ type: 'number' }),
+  isBoolean: () => ({ type: 'boolean' }),
+  isArray: () => ({ type: 'array' }),
+  isObject: () => ({ type: 'object' }),
+  isIn: ([values]) => ({
+    ...(values.every((value) => typeof value === 'string') && {
+      type: 'string',
+    }),
+    enum: values,
+  }),
+  isEnum: ([entity]) => ({ enum: Object.values(entity) }),
+  min: ([minimum]) => ({ minimum }),
+  max: ([maximum]) => ({ maximum }),
+  minLength: ([minLength]) => ({ minLength }),
+  maxLength: ([maxLength]) => ({ maxLength }),
+  isLength: ([minLength, maxLength]) => ({ minLength, maxLength }),
+  isNotEmpty: () => ({ minLength: 1 }),
+  matches: ([pattern]) => ({ pattern: new RegExp(pattern).source }),
+  isEmail: () => ({ type: 'string', format: 'email' }),
+  isUUID: () => ({ type: 'string', format: 'uuid' }),
+  isUrl: () => ({ type: 'string', format: 'uri' }),
+  isISO8601: () => ({ type: 'string', format: 'date-time' }),
+  isDateString: () => ({ type: 'string', format: 'date-time' }),
+  // query parameters converted with @Type(() => Date) arrive as ISO 8601 strings
+  isDate: () => ({ type: 'string', format: 'date-time' }),
+};
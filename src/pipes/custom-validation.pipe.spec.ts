@@ -0,0 +1,87 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsString, ValidateNested } from 'class-validator';
+import { CustomValidationPipe } from '@pipes/custom-validation.pipe';
+import { ValidationFailedException } from '@exceptions/validation-failed.exception';
+
+class OwnerDto {
+  @IsString()
+  name: string;
+}
+
+class PetDto {
+  @IsString({ groups: ['named'] })
+  name: string;
+
+  @Type(() => Number)
+  @IsInt()
+  age: number;
+
+  @ValidateNested()
+  @Type(() => OwnerDto)
+  owner: OwnerDto;
+}
+
+describe('CustomValidationPipe', () => {
+  const metadata = { type: 'body' as const, metatype: PetDto };
+
+  it('should return the transformed instance', async () => {
+    const pet = await new CustomValidationPipe().transform(
+      { name: 'Tom', age: '3', owner: { name: 'Alice' } },
+      metadata,
+    );
+
+    expect(pet).toBeInstanceOf(PetDto);
+    expect(pet.age).toBe(3);
+  });
+
+  it('should list the failed constraints of nested objects', async () => {
+    await expect(
+      new CustomValidationPipe().transform(
+        { name: 'Tom', age: 3, owner: { name: 42 } },
+        metadata,
+      ),
+    ).rejects.toMatchObject({
+      errors: [
+        {
+          property: 'owner.name',
+          constraint: 'isString',
+          message: 'name must be a string',
+        },
+      ],
+    });
+  });
+
+  it('should only apply decorators of the given groups', async () => {
+    const pipe = new CustomValidationPipe({ groups: ['other'] });
+
+    await expect(
+      pipe.transform({ age: 3, owner: { name: 'Alice' } }, metadata),
+    ).resolves.toBeInstanceOf(PetDto);
+    await expect(
+      pipe.transform({ age: 'old', owner: { name: 'Alice' } }, metadata),
+    ).rejects.toMatchObject({
+      errors: [expect.objectContaining({ property: 'age' })],
+    });
+  });
+
+  it('should strip unknown properties', async () => {
+    const pet = await new CustomValidationPipe({ whitelist: true }).transform(
+      { name: 'Tom', age: 3, owner: { name: 'Alice' }, id: 1 },
+      metadata,
+    );
+
+    expect(pet).not.toHaveProperty('id');
+  });
+
+  it('should reject unknown properties', async () => {
+    await expect(
+      new CustomValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      }).transform(
+        { name: 'Tom', age: 3, owner: { name: 'Alice' }, id: 1 },
+        metadata,
+      ),
+    ).rejects.toThrow(ValidationFailedException);
+  });
+});
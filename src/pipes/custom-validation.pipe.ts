@@ -1,11 +1,27 @@
-import {
-  PipeTransform,
-  Injectable,
-  ArgumentMetadata,
-  BadRequestException,
-} from '@nestjs/common';
-import { validate } from 'class-validator';
+import { PipeTransform, Injectable, ArgumentMetadata } from '@nestjs/common';
+import { validate, ValidationError } from 'class-validator';
 import { plainToInstance } from 'class-transformer';
+import {
+  FieldError,
+  ValidationFailedException,
+} from '@exceptions/validation-failed.exception';
+
+export interface CustomValidationPipeOptions {
+  /**
+   * Strip all properties which have no validation decorator.
+   */
+  whitelist?: boolean;
+  /**
+   * Instead of stripping properties without validation decorator, reject the request.
+   * Requires whitelist to be enabled.
+   */
+  forbidNonWhitelisted?: boolean;
+  /**
+   * Only apply the decorators of the given groups, e.g. @IsString({ groups: ['create'] }),
+   * in addition to the decorators without groups. Without groups, all decorators are applied.
+   */
+  groups?: string[];
+}
 
 /**
  * A pipe is a class annotated with the @Injectable() decorator, which implements the PipeTransform interface.
@@ -23,9 +39,15 @@ import { plainToInstance } from 'class-transformer';
  * PipeTransform<T, R> is a generic interface that must be implemented by any pipe.
  * The generic interface uses T to indicate the type of the input value,
  * and R to indicate the return type of the transform() method.
+ *
+ * This pipe does both: it returns the transformed instance of the DTO class (e.g. with numbers converted by @Type()),
+ * and throws a ValidationFailedException listing every failed constraint.
+ * Nested objects are validated as well, if their property is decorated with @ValidateNested() and @Type().
  */
 @Injectable()
 export class CustomValidationPipe implements PipeTransform<any> {
+  constructor(private readonly options: CustomValidationPipeOptions = {}) {}
+
   /**
    * Every pipe must implement the transform() method to fulfill the PipeTransform interface contract.
    *
@@ -58,13 +80,20 @@ export class CustomValidationPipe implements PipeTransform<any> {
     const object = plainToInstance(metatype, value);
 
     /**
-     * Since this is a validation pipe it either returns the value unchanged, or throws an exception.
+     * A validation pipe either returns the value, or throws an exception.
+     * Returning the transformed object (instead of the value) passes an instance of the DTO class to the handler.
      */
-    const errors = await validate(object);
+    const { whitelist, forbidNonWhitelisted, groups } = this.options;
+    const errors = await validate(object, {
+      whitelist,
+      forbidNonWhitelisted,
+      groups,
+      always: true,
+    });
     if (errors.length > 0) {
-      throw new BadRequestException('Validation failed');
+      throw new ValidationFailedException(toFieldErrors(errors));
     }
-    return value;
+    return object;
   }
 
   /**
@@ -81,3 +110,25 @@ export class CustomValidationPipe implements PipeTransform<any> {
     return !types.includes(metatype);
   }
 }
+
+/**
+ * class-validator returns a tree of ValidationErrors, nested objects are reported as children.
+ * The tree is flattened into one FieldError per failed constraint, with the full path to the property.
+ * @param errors
+ * @param parentPath
+ * @returns
+ */
+export function toFieldErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const property = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    const fieldErrors = Object.entries(error.constraints ?? {}).map(
+      ([constraint, message]) => ({ property, constraint, message }),
+    );
+    return [...fieldErrors, ...toFieldErrors(error.children ?? [], property)];
+  });
+}
@@ -0,0 +1,39 @@
+import {
+  Injectable,
+  PipeTransform,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { PreconditionRequiredException } from '@exceptions/precondition-required.exception';
+import { parseVersionETag } from '@root/utils/etag';
+
+/**
+ * Turns the If-Match header of a change into the version the resource is expected to have,
+ * e.g. @IfMatch(ParseIfMatchPipe) expectedVersion: number | undefined.
+ *
+ * - a missing header is rejected with 428 Precondition Required, so clients can't skip the check by accident
+ * - * matches any version, the pipe returns undefined (the client explicitly overwrites whatever is stored)
+ * - a version ETag, e.g. "3", returns the version
+ *
+ * Weak ETags (W/"3"), lists of ETags and other values can never match the version of a resource,
+ * so they are answered with 412 Precondition Failed right away.
+ */
+@Injectable()
+export class ParseIfMatchPipe
+  implements PipeTransform<string | undefined, number | undefined>
+{
+  transform(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') {
+      throw new PreconditionRequiredException('If-Match');
+    }
+    if (value.trim() === '*') {
+      return undefined;
+    }
+    const version = parseVersionETag(value);
+    if (version === undefined) {
+      throw new PreconditionFailedException(
+        `The If-Match header ${value} doesn't match the current version`,
+      );
+    }
+    return version;
+  }
+}
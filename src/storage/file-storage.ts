@@ -0,0 +1,48 @@
+import { Readable } from 'stream';
+import { ByteRange } from '@storage/interfaces/byte-range.interface';
+
+/**
+ * Stores files by key, e.g. the photos of the cats.
+ * Keys are paths separated by slashes (cats/1/photo.png), which group the files like directories.
+ *
+ * Consumers depend on this abstract class only, so the files can be moved to another backend
+ * (e.g. an object store) by providing another implementation to the StorageModule.
+ */
+export abstract class FileStorage {
+  /**
+   * Stores the data under the key, replacing an existing file.
+   * @param key
+   * @param data
+   * @param signal
+   */
+  abstract write(
+    key: string,
+    data: Buffer,
+    signal?: AbortSignal,
+  ): Promise<void>;
+
+  /**
+   * @param key
+   * @param range the bytes to read, the whole file if not given
+   * @returns the content of the file, or undefined if there is no file with the key
+   */
+  abstract read(key: string, range?: ByteRange): Promise<Readable | undefined>;
+
+  /**
+   * @param key
+   * @returns the size of the file in bytes, or undefined if there is no file with the key
+   */
+  abstract size(key: string): Promise<number | undefined>;
+
+  /**
+   * @param prefix e.g. cats/1/
+   * @returns the keys of all files starting with the prefix
+   */
+  abstract list(prefix: string): Promise<string[]>;
+
+  /**
+   * @param key
+   * @returns whether a file was deleted
+   */
+  abstract delete(key: string): Promise<boolean>;
+}
@@ -0,0 +1,7 @@
+/**
+ * A range of bytes of a file, both offsets are inclusive (like in the Range header of HTTP).
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
@@ -0,0 +1,21 @@
+import { ModuleMetadata, Type } from '@nestjs/common';
+import { FileStorage } from '@storage/file-storage';
+
+export interface StorageOptions {
+  /**
+   * The directory of the LocalFileStorage, created on the first write.
+   */
+  directory: string;
+}
+
+export interface StorageModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Partial<StorageOptions> | Promise<Partial<StorageOptions>>;
+  inject?: any[];
+  /**
+   * The implementation of the storage, LocalFileStorage by default.
+   */
+  storage?: Type<FileStorage>;
+}
@@ -0,0 +1,66 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { LocalFileStorage } from '@storage/local-file-storage';
+
+async function text(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('LocalFileStorage', () => {
+  let directory: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'storage-'));
+    storage = new LocalFileStorage({ directory: join(directory, 'files') });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads what was written, as a whole or by range', async () => {
+    await storage.write('cats/1/a.txt', Buffer.from('0123456789'));
+
+    expect(await storage.size('cats/1/a.txt')).toBe(10);
+    expect(await text(await storage.read('cats/1/a.txt'))).toBe('0123456789');
+    expect(
+      await text(await storage.read('cats/1/a.txt', { start: 2, end: 4 })),
+    ).toBe('234');
+  });
+
+  it('reports missing files', async () => {
+    expect(await storage.size('cats/1/a.txt')).toBeUndefined();
+    expect(await storage.read('cats/1/a.txt')).toBeUndefined();
+    expect(await storage.delete('cats/1/a.txt')).toBe(false);
+  });
+
+  it('lists the files by prefix', async () => {
+    await storage.write('cats/1/b', Buffer.from('b'));
+    await storage.write('cats/1/a', Buffer.from('a'));
+    await storage.write('cats/10/c', Buffer.from('c'));
+
+    expect(await storage.list('cats/1/')).toEqual(['cats/1/a', 'cats/1/b']);
+    expect(await storage.list('cats/1')).toEqual([
+      'cats/1/a',
+      'cats/1/b',
+      'cats/10/c',
+    ]);
+    expect(await storage.list('dogs/')).toEqual([]);
+
+    expect(await storage.delete('cats/1/a')).toBe(true);
+    expect(await storage.list('cats/1/')).toEqual(['cats/1/b']);
+  });
+
+  it('rejects keys outside of the directory', async () => {
+    await expect(storage.write('../escaped', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Dirent, createReadStream } from 'fs';
+import { mkdir, readdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { FileStorage } from '@storage/file-storage';
+import { STORAGE_OPTIONS } from '@storage/storage.constants';
+import { StorageOptions } from '@storage/interfaces/storage-options.interface';
+import { ByteRange } from '@storage/interfaces/byte-range.interface';
+import { throwIfAborted } from '@root/utils/abort';
+
+/**
+ * Stores the files in a directory of the local filesystem, the key is the path relative to the directory.
+ *
+ * Files are written to a temporary file first and renamed afterwards,
+ * so a file which is being read is never seen half-written.
+ */
+@Injectable()
+export class LocalFileStorage extends FileStorage {
+  private readonly directory: string;
+
+  constructor(@Inject(STORAGE_OPTIONS) options: StorageOptions) {
+    super();
+    this.directory = resolve(options.directory);
+  }
+
+  async write(key: string, data: Buffer, signal?: AbortSignal): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    throwIfAborted(signal);
+    const temporary = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporary, data, { signal });
+    await rename(temporary, path);
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable | undefined> {
+    if ((await this.size(key)) === undefined) {
+      return undefined;
+    }
+    return createReadStream(this.pathOf(key), range);
+  }
+
+  async size(key: string): Promise<number | undefined> {
+    try {
+      const stats = await stat(this.pathOf(key));
+      return stats.isFile() ? stats.size : undefined;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // the prefix may end within a name (cats/1 matches cats/1/a and cats/10/b), so the parent directory is walked
+    const parent = dirname(this.pathOf(`${prefix}_`));
+    const keys: string[] = [];
+    for await (const path of this.walk(parent)) {
+      const key = relative(this.directory, path).split(sep).join('/');
+      if (key.startsWith(prefix) && !key.endsWith('.tmp')) {
+        keys.push(key);
+      }
+    }
+    return keys.sort();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await unlink(this.pathOf(key));
+      return true;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async *walk(directory: string): AsyncIterable<string> {
+    let entries: Dirent[];
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(path);
+      } else if (entry.isFile()) {
+        yield path;
+      }
+    }
+  }
+
+  /**
+   * Keys come from the application, but they may contain user input.
+   * A key may never point outside of the directory (e.g. ../../etc/passwd).
+   */
+  private pathOf(key: string): string {
+    const path = resolve(this.directory, key);
+    if (!path.startsWith(this.directory + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1 @@
+export const STORAGE_OPTIONS = 'STORAGE_OPTIONS';
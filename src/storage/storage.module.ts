@@ -0,0 +1,62 @@
+import { DynamicModule, Module, Type } from '@nestjs/common';
+import { STORAGE_OPTIONS } from '@storage/storage.constants';
+import {
+  StorageModuleAsyncOptions,
+  StorageOptions,
+} from '@storage/interfaces/storage-options.interface';
+import { FileStorage } from '@storage/file-storage';
+import { LocalFileStorage } from '@storage/local-file-storage';
+
+const defaults: StorageOptions = {
+  directory: 'data/uploads',
+};
+
+/**
+ * Provides the FileStorage for uploaded files.
+ * The module is global, so all feature modules share the same storage.
+ *
+ * Like the ThrottleModule, the importing module may replace the implementation:
+ *
+ * StorageModule.forRoot({}, S3FileStorage)
+ */
+@Module({})
+export class StorageModule {
+  static forRoot(
+    options: Partial<StorageOptions> = {},
+    storage: Type<FileStorage> = LocalFileStorage,
+  ): DynamicModule {
+    return {
+      module: StorageModule,
+      global: true,
+      providers: [
+        { provide: STORAGE_OPTIONS, useValue: { ...defaults, ...options } },
+        { provide: FileStorage, useClass: storage },
+      ],
+      exports: [FileStorage],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: StorageModuleAsyncOptions): DynamicModule {
+    return {
+      module: StorageModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: STORAGE_OPTIONS,
+          useFactory: async (...args: unknown[]) => ({
+            ...defaults,
+            ...(await options.useFactory(...args)),
+          }),
+          inject: options.inject ?? [],
+        },
+        { provide: FileStorage, useClass: options.storage ?? LocalFileStorage },
+      ],
+      exports: [FileStorage],
+    };
+  }
+}
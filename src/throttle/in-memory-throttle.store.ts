@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { ThrottleStore } from '@throttle/throttle.store';
+
+interface Entry {
+  state: unknown;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Keeps the state in a Map, so the limits apply per instance of the application.
+ * Node.js runs change() synchronously, which makes the updates atomic.
+ *
+ * Expired entries are skipped when they are read and removed every SWEEP_INTERVAL updates,
+ * so clients which don't come back don't fill up the memory.
+ */
+@Injectable()
+export class InMemoryThrottleStore extends ThrottleStore {
+  private readonly entries = new Map<string, Entry>();
+  private updates = 0;
+
+  async update<S>(
+    key: string,
+    ttl: number,
+    change: (state: S | undefined) => S,
+  ): Promise<S> {
+    const now = Date.now();
+    if (++this.updates % SWEEP_INTERVAL === 0) {
+      this.sweep(now);
+    }
+
+    const entry = this.entries.get(key);
+    const state = change(
+      entry && entry.expiresAt > now ? (entry.state as S) : undefined,
+    );
+    this.entries.set(key, { state, expiresAt: now + ttl });
+    return state;
+  }
+
+  private sweep(now: number): void {
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
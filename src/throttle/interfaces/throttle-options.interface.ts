@@ -0,0 +1,32 @@
+import { ModuleMetadata, Type } from '@nestjs/common';
+import { ThrottleStore } from '@throttle/throttle.store';
+
+export type ThrottleStrategyName = 'token-bucket' | 'sliding-window';
+
+export interface ThrottleOptions {
+  /**
+   * Number of requests a client may send within ttl seconds.
+   */
+  limit: number;
+  /**
+   * Length of the window in seconds. For the token bucket, the time to refill the whole bucket.
+   */
+  ttl: number;
+  /**
+   * token-bucket allows bursts of up to limit requests and refills the tokens continuously,
+   * sliding-window allows limit requests within any period of ttl seconds.
+   */
+  strategy: ThrottleStrategyName;
+}
+
+export interface ThrottleModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => Partial<ThrottleOptions> | Promise<Partial<ThrottleOptions>>;
+  inject?: any[];
+  /**
+   * The store of the request counts, InMemoryThrottleStore by default.
+   */
+  store?: Type<ThrottleStore>;
+}
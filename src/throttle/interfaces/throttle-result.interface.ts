@@ -0,0 +1,16 @@
+export interface ThrottleResult {
+  allowed: boolean;
+  limit: number;
+  /**
+   * Number of requests the client may still send right now.
+   */
+  remaining: number;
+  /**
+   * Milliseconds until the whole quota is available again.
+   */
+  resetAfter: number;
+  /**
+   * Milliseconds until the next request is allowed, 0 if the request is allowed.
+   */
+  retryAfter: number;
+}
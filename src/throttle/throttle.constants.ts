@@ -0,0 +1 @@
+export const THROTTLE_OPTIONS = 'THROTTLE_OPTIONS';
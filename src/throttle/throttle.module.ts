@@ -0,0 +1,70 @@
+import { DynamicModule, Module, Type } from '@nestjs/common';
+import { THROTTLE_OPTIONS } from '@throttle/throttle.constants';
+import {
+  ThrottleModuleAsyncOptions,
+  ThrottleOptions,
+} from '@throttle/interfaces/throttle-options.interface';
+import { ThrottleStore } from '@throttle/throttle.store';
+import { InMemoryThrottleStore } from '@throttle/in-memory-throttle.store';
+
+const defaults: ThrottleOptions = {
+  limit: 100,
+  ttl: 60,
+  strategy: 'token-bucket',
+};
+
+/**
+ * Provides the default limits and the store of the ThrottleGuard.
+ * The module is global, so there is a single store for the whole application
+ * and the ThrottleGuard can be bound in any module.
+ *
+ * Class providers: useClass
+ * The useClass syntax allows you to dynamically determine a class that a token should resolve to.
+ * The ThrottleGuard injects the abstract ThrottleStore, and the module decides which implementation it gets:
+ *
+ * ThrottleModule.forRoot({ limit: 10 }, RedisThrottleStore)
+ */
+@Module({})
+export class ThrottleModule {
+  static forRoot(
+    options: Partial<ThrottleOptions> = {},
+    store: Type<ThrottleStore> = InMemoryThrottleStore,
+  ): DynamicModule {
+    return {
+      module: ThrottleModule,
+      global: true,
+      providers: [
+        { provide: THROTTLE_OPTIONS, useValue: { ...defaults, ...options } },
+        { provide: ThrottleStore, useClass: store },
+      ],
+      exports: [THROTTLE_OPTIONS, ThrottleStore],
+    };
+  }
+
+  /**
+   * Same as forRoot(), but the options are resolved by a factory, e.g. from the AppConfig.
+   * @param options
+   */
+  static forRootAsync(options: ThrottleModuleAsyncOptions): DynamicModule {
+    return {
+      module: ThrottleModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: THROTTLE_OPTIONS,
+          useFactory: async (...args: unknown[]) => ({
+            ...defaults,
+            ...(await options.useFactory(...args)),
+          }),
+          inject: options.inject ?? [],
+        },
+        {
+          provide: ThrottleStore,
+          useClass: options.store ?? InMemoryThrottleStore,
+        },
+      ],
+      exports: [THROTTLE_OPTIONS, ThrottleStore],
+    };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Keeps the state of the throttling strategies (see THROTTLE_STRATEGIES) per client and route.
+ *
+ * The ThrottleGuard depends on this abstract class only, so the state can be moved to a shared backend
+ * (which all instances of the application use) by providing another implementation to the ThrottleModule.
+ */
+export abstract class ThrottleStore {
+  /**
+   * Replaces the state stored under the key by the result of change().
+   * The update has to be atomic: no other update of the same key may happen in between,
+   * otherwise concurrent requests could exceed the limit.
+   * Stores which can't lock a key may call change() again after a conflicting update.
+   * @param key
+   * @param ttl milliseconds after which the state is discarded
+   * @param change computes the new state from the current one, which is undefined for a new or expired key
+   * @returns the new state
+   */
+  abstract update<S>(
+    key: string,
+    ttl: number,
+    change: (state: S | undefined) => S,
+  ): Promise<S>;
+}
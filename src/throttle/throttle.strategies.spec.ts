@@ -0,0 +1,61 @@
+import { THROTTLE_STRATEGIES } from '@throttle/throttle.strategies';
+import { ThrottleOptions } from '@throttle/interfaces/throttle-options.interface';
+
+/**
+ * Sends a request at each of the given times and collects the results.
+ */
+function replay(options: ThrottleOptions, times: number[]) {
+  const strategy = THROTTLE_STRATEGIES[options.strategy];
+  let state: unknown;
+  return times.map((now) => {
+    const consumed = strategy.consume(state, options, now);
+    state = consumed.state;
+    return consumed.result;
+  });
+}
+
+describe('THROTTLE_STRATEGIES', () => {
+  describe('token-bucket', () => {
+    const options: ThrottleOptions = {
+      limit: 3,
+      ttl: 3,
+      strategy: 'token-bucket',
+    };
+
+    it('should allow a burst and refill one token per second', () => {
+      const results = replay(options, [0, 0, 0, 0, 1000]);
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+        true,
+      ]);
+      expect(results[2]).toMatchObject({ remaining: 0, resetAfter: 3000 });
+      expect(results[3].retryAfter).toBe(1000);
+    });
+  });
+
+  describe('sliding-window', () => {
+    const options: ThrottleOptions = {
+      limit: 2,
+      ttl: 10,
+      strategy: 'sliding-window',
+    };
+
+    it('should allow limit requests within any window', () => {
+      const results = replay(options, [0, 6000, 9000, 10000, 12000]);
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([
+        true,
+        true,
+        false,
+        true,
+        false,
+      ]);
+      expect(results[2]).toMatchObject({ remaining: 0, retryAfter: 1000 });
+      expect(results[4].retryAfter).toBe(4000);
+    });
+  });
+});
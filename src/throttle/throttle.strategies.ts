@@ -0,0 +1,84 @@
+import {
+  ThrottleOptions,
+  ThrottleStrategyName,
+} from '@throttle/interfaces/throttle-options.interface';
+import { ThrottleResult } from '@throttle/interfaces/throttle-result.interface';
+
+/**
+ * A strategy decides whether a request is allowed, based on the state it keeps per client and route.
+ * Strategies are pure functions of the state and the time, the state itself is kept by the ThrottleStore.
+ */
+export interface ThrottleStrategy<S> {
+  consume(
+    state: S | undefined,
+    options: ThrottleOptions,
+    now: number,
+  ): { state: S; result: ThrottleResult };
+}
+
+interface TokenBucket {
+  tokens: number;
+  refilledAt: number;
+}
+
+/**
+ * The bucket holds up to limit tokens and is refilled with limit tokens per ttl seconds.
+ * Each request takes a token, so a client may send a burst of limit requests
+ * and afterwards one request every ttl / limit seconds.
+ */
+const tokenBucket: ThrottleStrategy<TokenBucket> = {
+  consume(bucket, { limit, ttl }, now) {
+    const rate = limit / (ttl * 1000);
+    const available = bucket
+      ? Math.min(limit, bucket.tokens + (now - bucket.refilledAt) * rate)
+      : limit;
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    return {
+      state: { tokens, refilledAt: now },
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(tokens),
+        resetAfter: (limit - tokens) / rate,
+        retryAfter: allowed ? 0 : (1 - tokens) / rate,
+      },
+    };
+  },
+};
+
+/**
+ * Logs the times of the allowed requests and allows a request
+ * if there were less than limit requests within the last ttl seconds.
+ * Other than fixed windows, this doesn't allow twice the limit around the boundary of two windows.
+ */
+const slidingWindow: ThrottleStrategy<number[]> = {
+  consume(hits, { limit, ttl }, now) {
+    const window = ttl * 1000;
+    const recent = (hits ?? []).filter((hit) => hit > now - window);
+    const allowed = recent.length < limit;
+    if (allowed) {
+      recent.push(now);
+    }
+    return {
+      state: recent,
+      result: {
+        allowed,
+        limit,
+        remaining: limit - recent.length,
+        resetAfter: recent.length
+          ? recent[recent.length - 1] + window - now
+          : 0,
+        retryAfter: allowed ? 0 : recent[recent.length - limit] + window - now,
+      },
+    };
+  },
+};
+
+export const THROTTLE_STRATEGIES: Record<
+  ThrottleStrategyName,
+  ThrottleStrategy<unknown>
+> = {
+  'token-bucket': tokenBucket,
+  'sliding-window': slidingWindow,
+};
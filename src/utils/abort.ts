@@ -0,0 +1,19 @@
+/**
+ * Raised when work is cancelled through an AbortSignal, e.g. because the request timed out.
+ */
+export class AbortError extends Error {
+  constructor(message = 'The operation was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Long running operations call this between their steps, so they stop once the signal is aborted.
+ * @param signal optional, callers without a signal can't be cancelled
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
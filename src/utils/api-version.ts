@@ -0,0 +1,45 @@
+import { VersioningOptions, VersioningType } from '@nestjs/common';
+import { Request } from 'express';
+
+export const DEFAULT_API_VERSION = '1';
+export const API_VERSION_HEADER = 'X-API-Version';
+
+const URI_VERSION = /(?:^|\/)v(\d+)(?:\/|$)/;
+const MEDIA_TYPE_VERSION =
+  /application\/vnd\.cats\.v(\d+)\+json|;\s*version=(\d+)/;
+
+/**
+ * Clients select the API version in one of three ways, which are checked in this order:
+ * - the URI prefix: /v2/cats
+ * - the X-API-Version header: X-API-Version: 2
+ * - the media type in the Accept header: Accept: application/vnd.cats.v2+json or application/json;version=2
+ *
+ * Requests which don't ask for a version get the first version, so clients written before versioning keep working.
+ * @param request
+ * @returns the requested version
+ */
+export function extractApiVersion(request: Request): string {
+  const header = request.header(API_VERSION_HEADER)?.replace(/^v/i, '');
+  const mediaType = MEDIA_TYPE_VERSION.exec(request.header('accept') ?? '');
+  return (
+    URI_VERSION.exec(request.path)?.[1] ??
+    header ??
+    mediaType?.[1] ??
+    mediaType?.[2] ??
+    DEFAULT_API_VERSION
+  );
+}
+
+/**
+ * Versioning
+ * Nest supports one versioning type per application: URI, header, media type or a custom one.
+ * As the version may be sent in several ways, the custom type is used with extractApiVersion().
+ *
+ * Custom versioning doesn't strip a version prefix from the URI,
+ * so versioned controllers list the prefixed paths as well, e.g. @Controller({ path: ['cats', 'v1/cats', 'v2/cats'] }).
+ * Routes without a version (e.g. /auth/login) are available in every version.
+ */
+export const apiVersioning: VersioningOptions = {
+  type: VersioningType.CUSTOM,
+  extractor: (request: Request) => extractApiVersion(request),
+};
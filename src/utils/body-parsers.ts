@@ -0,0 +1,38 @@
+import { INestApplication } from '@nestjs/common';
+import {
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+  json,
+  urlencoded,
+} from 'express';
+
+/**
+ * Routes which read the request stream themselves, e.g. the bulk import of cats.
+ */
+const STREAMED_ROUTES = [/^\/(v\d+\/)?cats\/bulk\/?$/];
+
+/**
+ * Registers the JSON and URL-encoded body parsers Nest would register by default,
+ * except for the routes which read the request stream themselves.
+ * A body parser reads the whole body into memory (and rejects bodies larger than 100kb),
+ * which would defeat streaming an upload of any size.
+ *
+ * The application has to be created with { bodyParser: false }:
+ *
+ * const app = await NestFactory.create(AppModule, { bodyParser: false });
+ * useBodyParsers(app);
+ * @param app
+ */
+export function useBodyParsers(app: INestApplication): void {
+  app.use(skipStreamedRoutes(json()));
+  app.use(skipStreamedRoutes(urlencoded({ extended: true })));
+}
+
+function skipStreamedRoutes(parser: RequestHandler): RequestHandler {
+  return (request: Request, response: Response, next: NextFunction) =>
+    STREAMED_ROUTES.some((route) => route.test(request.path))
+      ? next()
+      : parser(request, response, next);
+}
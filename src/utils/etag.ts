@@ -0,0 +1,18 @@
+/**
+ * The ETag of a versioned resource is its version in quotes, e.g. "3".
+ * Other than the hash of the body (see CacheInterceptor), it changes exactly when the resource changes,
+ * so the client can send it back in If-Match to make sure it doesn't overwrite a newer version.
+ * @param version
+ */
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * @param etag
+ * @returns the version of a strong ETag created by versionETag(), or undefined for any other ETag
+ */
+export function parseVersionETag(etag: string): number | undefined {
+  const match = /^"(\d+)"$/.exec(etag.trim());
+  return match ? Number(match[1]) : undefined;
+}
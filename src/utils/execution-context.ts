@@ -0,0 +1,53 @@
+import { ArgumentsHost } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+
+/**
+ * A WebSocket client which keeps the request of its handshake (see CatFeedGateway.handleConnection()).
+ * The guards find the token there and attach the user to it, just like to an HTTP request.
+ */
+export interface WebSocketClient {
+  request: IncomingMessage;
+}
+
+/**
+ * Guards, interceptors and filters are shared by the controllers and the GraphQL resolvers.
+ * Resolvers are called with (parent, args, context, info) instead of (request, response, next),
+ * the request and response are part of the GraphQL context (see GraphQLApiModule).
+ * @param host
+ */
+export function isGraphQL(host: ArgumentsHost): boolean {
+  return host.getType<string>() === 'graphql';
+}
+
+/**
+ * The message handlers of gateways are called with (client, data), there is a request but no response.
+ * The request is the handshake, which Express hasn't seen: it has neither query nor params.
+ * @param host
+ * @returns the HTTP request, of a route handler, of a GraphQL operation or of a WebSocket handshake
+ */
+export function httpRequestOf<T extends Request = Request>(
+  host: ArgumentsHost,
+): T {
+  if (host.getType() === 'ws') {
+    return host.switchToWs().getClient<WebSocketClient>().request as T;
+  }
+  return isGraphQL(host)
+    ? host.getArgByIndex<{ req: T }>(2).req
+    : host.switchToHttp().getRequest<T>();
+}
+
+/**
+ * @param host
+ * @returns the HTTP response, of a route handler or of a GraphQL operation, undefined for WebSockets
+ */
+export function httpResponseOf<T extends Response = Response>(
+  host: ArgumentsHost,
+): T | undefined {
+  if (host.getType() === 'ws') {
+    return undefined;
+  }
+  return isGraphQL(host)
+    ? host.getArgByIndex<{ res: T }>(2).res
+    : host.switchToHttp().getResponse<T>();
+}
@@ -0,0 +1,37 @@
+import { ByteRange } from '@storage/interfaces/byte-range.interface';
+
+/**
+ * Parses the Range header of a request for a file of the given size (RFC 9110, section 14.2):
+ * - bytes=0-499: the first 500 bytes
+ * - bytes=500-: everything from byte 500
+ * - bytes=-500: the last 500 bytes
+ *
+ * Only a single range is supported. Since servers may ignore the Range header,
+ * other units and multiple ranges are answered with the whole file.
+ * @param header the Range header
+ * @param size the size of the file in bytes
+ * @returns the range to send, undefined to send the whole file, or null if the range can't be satisfied (416)
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number,
+): ByteRange | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() ?? '');
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+  const [first, last] = [match[1], match[2]];
+  if (first === '') {
+    const length = Number(last);
+    return length > 0 && size > 0
+      ? { start: Math.max(0, size - length), end: size - 1 }
+      : null;
+  }
+  const start = Number(first);
+  if (last !== '' && Number(last) < start) {
+    // not a valid range at all, which is ignored like an unsupported one
+    return undefined;
+  }
+  const end = last === '' ? size - 1 : Math.min(Number(last), size - 1);
+  return start < size ? { start, end } : null;
+}
@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  INestApplication,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { AuditModule } from '@audit/audit.module';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { LoggingModule } from '@logging/logging.module';
+import { LoggerMiddleware } from '@root/logger.middleware';
+import { apiVersioning } from '@root/utils/api-version';
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [
+        {
+          id: '1',
+          username: 'alice',
+          passwordHash: hashPassword('wonderland'),
+          roles: ['admin'],
+        },
+        {
+          id: '2',
+          username: 'dave',
+          passwordHash: hashPassword('editor'),
+          roles: ['editor'],
+        },
+      ],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot(),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    LoggingModule.forRoot({ level: 'error' }),
+    AuditModule.forRoot(),
+  ],
+})
+class TestModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(LoggerMiddleware)
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
+  }
+}
+
+describe('Audit (e2e)', () => {
+  let app: INestApplication;
+  const tokens: Record<string, string> = {};
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    app.enableVersioning(apiVersioning);
+    await app.init();
+
+    for (const [username, password] of [
+      ['alice', 'wonderland'],
+      ['dave', 'editor'],
+    ]) {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username, password });
+      tokens[username] = body.access_token;
+    }
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const audit = (query = '', token = tokens.alice) =>
+    request(app.getHttpServer())
+      .get(`/audit${query}`)
+      .set('Authorization', `Bearer ${token}`);
+
+  it('records who changed which cat, how and in which request', async () => {
+    await request(app.getHttpServer())
+      .post('/v2/cats')
+      .set('Authorization', `Bearer ${tokens.alice}`)
+      .set('X-Request-Id', 'create-tom')
+      .send({ name: 'Tom', age: 3, breed: { name: 'Tabby' } })
+      .expect(201);
+    await request(app.getHttpServer())
+      .patch('/v2/cats/1')
+      .set('Authorization', `Bearer ${tokens.alice}`)
+      .set('If-Match', '"1"')
+      .set('X-Request-Id', 'update-tom')
+      .send({ age: 4 })
+      .expect(200);
+    await request(app.getHttpServer())
+      .delete('/v2/cats/1')
+      .set('Authorization', `Bearer ${tokens.alice}`)
+      .set('If-Match', '"2"')
+      .expect(204);
+
+    const { body } = await audit().expect(200);
+    expect(body).toEqual([
+      expect.objectContaining({
+        id: 3,
+        actor: '1',
+        action: 'cat.deleted',
+        catId: 1,
+      }),
+      {
+        id: 2,
+        occurredAt: expect.any(String),
+        actor: '1',
+        action: 'cat.updated',
+        catId: 1,
+        changes: {
+          age: { before: 3, after: 4 },
+          version: { before: 1, after: 2 },
+        },
+        requestId: 'update-tom',
+      },
+      expect.objectContaining({
+        id: 1,
+        action: 'cat.created',
+        requestId: 'create-tom',
+        changes: expect.objectContaining({ name: { after: 'Tom' } }),
+      }),
+    ]);
+  });
+
+  it('filters by actor, cat and time range', async () => {
+    for (const [token, name] of [
+      [tokens.alice, 'Tom'],
+      [tokens.dave, 'Felix'],
+    ]) {
+      await request(app.getHttpServer())
+        .post('/v2/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name, age: 3, breed: { name: 'Tabby' } })
+        .expect(201);
+    }
+    const ids = async (query: string) =>
+      (await audit(query).expect(200)).body.map(({ catId }) => catId);
+
+    expect(await ids('?actor=2')).toEqual([2]);
+    expect(await ids('?catId=1')).toEqual([1]);
+    expect(await ids('?from=2000-01-01T00:00:00Z')).toEqual([2, 1]);
+    expect(await ids('?to=2000-01-01T00:00:00Z')).toEqual([]);
+    await audit('?from=yesterday').expect(400);
+  });
+
+  it('is restricted to admins', async () => {
+    await request(app.getHttpServer()).get('/audit').expect(401);
+    await audit('', tokens.dave).expect(403);
+  });
+});
@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { AuthModuleOptions } from '@auth/interfaces/auth-module-options.interface';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+
+describe('Authentication (e2e)', () => {
+  let app: INestApplication;
+  const options: AuthModuleOptions = {
+    keys: [
+      { kid: 'old', secret: 'old-secret' },
+      { kid: 'new', secret: 'new-secret' },
+    ],
+    activeKid: 'new',
+    issuer: 'cats-api',
+    audience: 'cats-api',
+    expiresIn: 60,
+    users: [
+      {
+        id: '1',
+        username: 'alice',
+        passwordHash: hashPassword('wonderland'),
+        roles: ['admin'],
+      },
+      {
+        id: '2',
+        username: 'bob',
+        passwordHash: hashPassword('builder'),
+        roles: ['editor'],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuthModule.forRoot(options),
+        CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+        ResponseCacheModule.forRoot(),
+        ThrottleModule.forRoot(),
+        StorageModule.forRoot(),
+        EventsModule.forRoot(),
+        IdempotencyModule.forRoot(),
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('/auth/login (POST) rejects wrong credentials', () => {
+    return request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wrong' })
+      .expect(401);
+  });
+
+  it('/cats (GET) requires a bearer token', () => {
+    return request(app.getHttpServer())
+      .get('/cats')
+      .expect(401)
+      .expect('WWW-Authenticate', 'Bearer realm="cats"');
+  });
+
+  it('/cats (GET) accepts a token issued by /auth/login', async () => {
+    const { body } = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wonderland' })
+      .expect(200);
+
+    return request(app.getHttpServer())
+      .get('/cats')
+      .set('Authorization', `Bearer ${body.access_token}`)
+      .expect(200)
+      .expect((response) => expect(response.body.items).toEqual([]));
+  });
+
+  it('/cats/:id (PATCH) is restricted to the owner of the cat', async () => {
+    const login = async (username: string, password: string) =>
+      (
+        await request(app.getHttpServer())
+          .post('/auth/login')
+          .send({ username, password })
+      ).body.access_token;
+    const bob = await login('bob', 'builder');
+    const alice = await login('alice', 'wonderland');
+
+    const { body: cat } = await request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${alice}`)
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .patch(`/cats/${cat.id}`)
+      .set('Authorization', `Bearer ${bob}`)
+      .send({ age: 4 })
+      .expect(403);
+  });
+
+  it('/cats (POST) lets editors create cats', async () => {
+    const { body } = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'bob', password: 'builder' })
+      .expect(200);
+
+    return request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${body.access_token}`)
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201)
+      .expect((response) =>
+        expect(response.body).toMatchObject({ name: 'Tom', owner: '2' }),
+      );
+  });
+
+  it('/cats (GET) accepts tokens signed with a rotated key', () => {
+    const token = new JwtService().sign(
+      { sub: '1', username: 'alice', roles: ['viewer'] },
+      {
+        secret: 'old-secret',
+        keyid: 'old',
+        issuer: 'cats-api',
+        audience: 'cats-api',
+        expiresIn: 60,
+      },
+    );
+
+    return request(app.getHttpServer())
+      .get('/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+  });
+
+  it('/cats (GET) rejects tokens for another audience', () => {
+    const token = new JwtService().sign(
+      { sub: '1', username: 'alice', roles: ['viewer'] },
+      {
+        secret: 'new-secret',
+        keyid: 'new',
+        issuer: 'cats-api',
+        audience: 'someone-else',
+        expiresIn: 60,
+      },
+    );
+
+    return request(app.getHttpServer())
+      .get('/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401)
+      .expect('WWW-Authenticate', /error="invalid_token"/);
+  });
+});
@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { apiVersioning } from '@root/utils/api-version';
+import { useBodyParsers } from '@root/utils/body-parsers';
+
+describe('Bulk import and export (e2e)', () => {
+  let app: INestApplication;
+  let token: string;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuthModule.forRoot({
+          keys: [{ kid: 'test', secret: 'secret' }],
+          activeKid: 'test',
+          issuer: 'cats-api',
+          audience: 'cats-api',
+          expiresIn: 60,
+          users: [
+            {
+              id: '1',
+              username: 'alice',
+              passwordHash: hashPassword('wonderland'),
+              roles: ['admin'],
+            },
+          ],
+        }),
+        CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+        ResponseCacheModule.forRoot(),
+        ThrottleModule.forRoot(),
+        StorageModule.forRoot(),
+        EventsModule.forRoot(),
+        IdempotencyModule.forRoot(),
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ bodyParser: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    useBodyParsers(app);
+    app.enableVersioning(apiVersioning);
+    await app.init();
+
+    const { body } = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wonderland' });
+    token = body.access_token;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const upload = (contentType: string, body: string, query = '') =>
+    request(app.getHttpServer())
+      .post(`/cats/bulk${query}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('Content-Type', contentType)
+      .send(body);
+
+  const download = (format: string) =>
+    request(app.getHttpServer())
+      .get(`/cats/export?format=${format}`)
+      .set('Authorization', `Bearer ${token}`)
+      .buffer(true)
+      .parse((response, callback) => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk) => (text += chunk));
+        response.on('end', () => callback(null, text));
+      })
+      .expect(200);
+
+  const countCats = async () =>
+    (
+      await request(app.getHttpServer())
+        .get('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200)
+    ).body.total;
+
+  describe('POST /cats/bulk', () => {
+    it('imports JSON Lines', async () => {
+      const response = await upload(
+        'application/x-ndjson',
+        '{"name":"Tom","age":3,"breed":"Tabby"}\n\n{"name":"Kitty","age":1,"breed":"Persian"}\n',
+      ).expect(200);
+
+      expect(response.body).toEqual({
+        mode: 'atomic',
+        rows: 2,
+        created: 2,
+        failed: 0,
+        errors: [],
+      });
+      expect(await countCats()).toBe(2);
+    });
+
+    it('imports CSV with quoted fields and converts the numbers', async () => {
+      const response = await upload(
+        'text/csv; charset=utf-8',
+        'name,age,breed\r\nTom,3,"Tabby, striped"\r\n"Mr. ""Whiskers""",4,Persian\r\n',
+      ).expect(200);
+
+      expect(response.body).toMatchObject({ rows: 2, created: 2 });
+      const csv = (await download('csv')).body;
+      expect(csv).toContain('"Tabby, striped"');
+      expect(csv).toContain('"Mr. ""Whiskers"""');
+    });
+
+    it('imports a JSON array larger than the limit of the body parser', async () => {
+      const cats = Array.from({ length: 1500 }, (_, index) => ({
+        name: `Cat ${index}`,
+        age: index % 20,
+        breed: 'European Shorthair with a rather long breed name',
+      }));
+      const body = JSON.stringify(cats);
+      expect(body.length).toBeGreaterThan(100 * 1024);
+
+      const response = await upload('application/json', body).expect(200);
+
+      expect(response.body).toMatchObject({ rows: 1500, created: 1500 });
+    });
+
+    it('reports the failed rows and imports the others in best-effort mode', async () => {
+      const response = await upload(
+        'application/x-ndjson',
+        [
+          '{"name":"Tom","age":3,"breed":"Tabby"}',
+          '{"name":"Kitty","age":"old","breed":"Persian"}',
+          'not json',
+          '{"name":"tom","age":5,"breed":"Siamese"}',
+          '[1,2]',
+        ].join('\n'),
+        '?mode=best-effort',
+      ).expect(200);
+
+      expect(response.body).toMatchObject({
+        mode: 'best-effort',
+        rows: 5,
+        created: 1,
+        failed: 4,
+      });
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({ row: 2, property: 'age', code: 'isInt' }),
+        expect.objectContaining({ row: 3, code: 'MALFORMED_ROW' }),
+        expect.objectContaining({ row: 4, code: 'DUPLICATE_CAT' }),
+        expect.objectContaining({ row: 5, code: 'MALFORMED_ROW' }),
+      ]);
+      expect(await countCats()).toBe(1);
+    });
+
+    it('rejects an atomic import with a failed row as a whole', async () => {
+      const response = await upload(
+        'text/csv',
+        'name,age,breed\nTom,3,Tabby\nKitty,,Persian\n',
+      )
+        .expect(422)
+        .expect('Content-Type', /application\/problem\+json/);
+
+      expect(response.body).toMatchObject({
+        code: 'IMPORT_REJECTED',
+        mode: 'atomic',
+        rows: 2,
+        created: 0,
+        failed: 1,
+        errors: [{ row: 2, property: 'age', code: 'isInt' }],
+      });
+      expect(await countCats()).toBe(0);
+    });
+
+    it('rejects duplicates within an atomic import', async () => {
+      await upload(
+        'application/json',
+        '[{"name":"Tom","age":3,"breed":"Tabby"},{"name":"TOM","age":4,"breed":"Tabby"}]',
+      ).expect(422);
+
+      expect(await countCats()).toBe(0);
+    });
+
+    it('rejects a broken upload', async () => {
+      const response = await upload(
+        'application/json',
+        '{"name":"Tom"}',
+      ).expect(400);
+
+      expect(response.body.code).toBe('INVALID_IMPORT');
+    });
+
+    it('rejects unsupported media types', async () => {
+      await upload('application/xml', '<cats/>').expect(415);
+    });
+  });
+
+  describe('GET /cats/export', () => {
+    beforeEach(async () => {
+      await upload(
+        'application/x-ndjson',
+        '{"name":"Tom","age":3,"breed":"Tabby"}\n{"name":"Kitty","age":1,"breed":"Persian"}',
+      ).expect(200);
+    });
+
+    it('streams JSON Lines by default', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/v2/cats/export')
+        .set('Authorization', `Bearer ${token}`)
+        .buffer(true)
+        .parse((response, callback) => {
+          let text = '';
+          response.on('data', (chunk) => (text += chunk));
+          response.on('end', () => callback(null, text));
+        })
+        .expect(200)
+        .expect('Content-Type', /application\/x-ndjson/)
+        .expect('Content-Disposition', 'attachment; filename="cats.jsonl"');
+
+      expect(
+        response.body
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line)),
+      ).toEqual([
+        { id: 1, name: 'Tom', age: 3, breed: 'Tabby', owner: '1', version: 1 },
+        {
+          id: 2,
+          name: 'Kitty',
+          age: 1,
+          breed: 'Persian',
+          owner: '1',
+          version: 1,
+        },
+      ]);
+    });
+
+    it('exports a JSON array', async () => {
+      const response = await download('json').expect(
+        'Content-Type',
+        /application\/json/,
+      );
+
+      expect(JSON.parse(response.body)).toHaveLength(2);
+    });
+
+    it('exports CSV, which can be imported again', async () => {
+      const response = await download('csv').expect(
+        'Content-Type',
+        /text\/csv/,
+      );
+      expect(response.body).toBe(
+        'id,name,age,breed,origin,owner\r\n1,Tom,3,Tabby,,1\r\n2,Kitty,1,Persian,,1\r\n',
+      );
+
+      const renamed = response.body
+        .replace('Tom', 'Tommy')
+        .replace('Kitty', 'Kit');
+      const reimport = await upload('text/csv', renamed).expect(200);
+      expect(reimport.body).toMatchObject({ created: 2, failed: 0 });
+    });
+
+    it('keeps the origin of the breed when an export is imported again', async () => {
+      await request(app.getHttpServer())
+        .post('/v2/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          name: 'Mia',
+          age: 2,
+          breed: { name: 'Siamese', origin: 'Thailand' },
+        })
+        .expect(201);
+
+      const csv = (await download('csv')).body;
+      const ndjson = (await download('ndjson')).body;
+      const rename = (body: string, suffix: string) =>
+        body.replace(/(Tom|Kitty|Mia)/g, `$1 ${suffix}`);
+      await upload('text/csv', rename(csv, '(CSV)')).expect(200);
+      await upload(
+        'application/x-ndjson',
+        rename(ndjson, '(JSON Lines)'),
+      ).expect(200);
+
+      const { body } = await request(app.getHttpServer())
+        .get('/v2/cats?limit=100')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(
+        body.items
+          .filter(({ name }) => name.startsWith('Mia'))
+          .map(({ name, breed }) => ({ name, breed })),
+      ).toEqual([
+        { name: 'Mia', breed: { name: 'Siamese', origin: 'Thailand' } },
+        { name: 'Mia (CSV)', breed: { name: 'Siamese', origin: 'Thailand' } },
+        {
+          name: 'Mia (JSON Lines)',
+          breed: { name: 'Siamese', origin: 'Thailand' },
+        },
+      ]);
+      expect(
+        body.items.find(({ name }) => name === 'Tom (CSV)').breed,
+      ).not.toHaveProperty('origin');
+    });
+
+    it('rejects unknown formats', async () => {
+      await request(app.getHttpServer())
+        .get('/cats/export?format=xml')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+
+describe('CatsController (e2e)', () => {
+  let app: INestApplication;
+  let token: string;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuthModule.forRoot({
+          keys: [{ kid: 'test', secret: 'secret' }],
+          activeKid: 'test',
+          issuer: 'cats-api',
+          audience: 'cats-api',
+          expiresIn: 60,
+          users: [
+            {
+              id: '1',
+              username: 'alice',
+              passwordHash: hashPassword('wonderland'),
+              roles: ['admin'],
+            },
+          ],
+        }),
+        CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+        ResponseCacheModule.forRoot(),
+        ThrottleModule.forRoot(),
+        StorageModule.forRoot(),
+        EventsModule.forRoot(),
+        IdempotencyModule.forRoot(),
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.init();
+
+    const { body } = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wonderland' });
+    token = body.access_token;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createCat = () =>
+    request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201);
+
+  describe('caching', () => {
+    it('answers 304 for a current ETag', async () => {
+      const { headers } = await request(app.getHttpServer())
+        .get('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-None-Match', headers.etag)
+        .expect(304);
+    });
+
+    it('invalidates cached responses when a cat is created', async () => {
+      await request(app.getHttpServer())
+        .get('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect((response) => expect(response.body.total).toBe(0));
+
+      await createCat();
+
+      await request(app.getHttpServer())
+        .get('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .expect((response) => expect(response.body.total).toBe(1));
+    });
+  });
+
+  describe('validation', () => {
+    it('validates the body of POST /cats', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 5, age: 3, breed: 'Tabby' })
+        .expect(400);
+
+      expect(response.body.errors).toEqual([
+        {
+          property: 'name',
+          constraint: 'isString',
+          message: 'name must be a string',
+        },
+      ]);
+    });
+  });
+
+  describe('domain exceptions', () => {
+    it('answers with the status and code of the mapping', async () => {
+      await createCat();
+
+      const duplicate = await request(app.getHttpServer())
+        .post('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'tom', age: 5, breed: 'Persian' })
+        .expect(409)
+        .expect('Content-Type', /application\/problem\+json/);
+      expect(duplicate.body).toMatchObject({
+        status: 409,
+        code: 'DUPLICATE_CAT',
+      });
+    });
+
+    it('maps exceptions raised by guards', async () => {
+      const response = await request(app.getHttpServer())
+        .delete('/cats/42')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+
+      expect(response.body).toMatchObject({
+        detail: 'Cat with id 42 not found',
+        code: 'CAT_NOT_FOUND',
+      });
+    });
+
+    it('rejects ids which are no integers before the policies look them up', () => {
+      return request(app.getHttpServer())
+        .delete('/cats/abc')
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-Match', '*')
+        .expect(400)
+        .expect((response) =>
+          expect(response.body.message).toBe(
+            'Validation failed (numeric string is expected)',
+          ),
+        );
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    const patch = (ifMatch?: string) => {
+      const req = request(app.getHttpServer())
+        .patch('/cats/1')
+        .set('Authorization', `Bearer ${token}`);
+      return (ifMatch ? req.set('If-Match', ifMatch) : req).send({ age: 4 });
+    };
+
+    it('sends the version of a cat as ETag', async () => {
+      await createCat();
+
+      await request(app.getHttpServer())
+        .get('/cats/1')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200)
+        .expect('ETag', '"1"');
+    });
+
+    it('requires If-Match to change a cat', async () => {
+      await createCat();
+
+      const response = await patch().expect(428);
+      expect(response.body.message).toBe(
+        'The request has to carry the If-Match header',
+      );
+      await request(app.getHttpServer())
+        .delete('/cats/1')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(428);
+    });
+
+    it('changes the current version and sends the next one', async () => {
+      await createCat();
+
+      const response = await patch('"1"').expect(200).expect('ETag', '"2"');
+      expect(response.body.age).toBe(4);
+      await request(app.getHttpServer())
+        .get('/cats/1')
+        .set('Authorization', `Bearer ${token}`)
+        .expect('ETag', '"2"');
+    });
+
+    it('rejects changes of an outdated version', async () => {
+      await createCat();
+      await patch('"1"').expect(200);
+
+      const response = await patch('"1"').expect(412);
+      expect(response.body).toMatchObject({
+        code: 'VERSION_CONFLICT',
+        detail:
+          'Cat with id 1 has been changed in the meantime, its current version is 2',
+      });
+      await patch('W/"2"').expect(412);
+      await request(app.getHttpServer())
+        .delete('/cats/1')
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-Match', '"1"')
+        .expect(412);
+    });
+
+    it('changes any version with If-Match: *', async () => {
+      await createCat();
+      await patch('"1"').expect(200);
+
+      await patch('*').expect(200).expect('ETag', '"3"');
+      await request(app.getHttpServer())
+        .delete('/cats/1')
+        .set('Authorization', `Bearer ${token}`)
+        .set('If-Match', '*')
+        .expect(204);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  INestApplication,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { LoggingModule } from '@logging/logging.module';
+import { TransformInterceptor } from '@interceptors/transform.interceptor';
+import { LoggerMiddleware } from '@root/logger.middleware';
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [
+        {
+          id: '1',
+          username: 'alice',
+          passwordHash: hashPassword('wonderland'),
+          roles: ['admin'],
+        },
+        {
+          id: '3',
+          username: 'carol',
+          passwordHash: hashPassword('secret'),
+          roles: ['viewer'],
+        },
+      ],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot(),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    LoggingModule.forRoot({ level: 'error' }),
+  ],
+  providers: [{ provide: APP_INTERCEPTOR, useClass: TransformInterceptor }],
+})
+class TestModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(LoggerMiddleware)
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
+  }
+}
+
+describe('Response envelope (e2e)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const login = async (username: string, password: string) =>
+    (
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username, password })
+        .expect(200)
+    ).body.access_token;
+
+  it('does not wrap routes marked with @RawResponse()', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wonderland' })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ token_type: 'Bearer' });
+  });
+
+  it('wraps a page with pagination metadata', async () => {
+    const token = await login('alice', 'wonderland');
+    await request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .get('/cats?limit=10')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body).toEqual({
+      data: [{ id: 1, name: 'Tom', age: 3, breed: 'Tabby', owner: '1' }],
+      meta: {
+        requestId: response.headers['x-request-id'],
+        apiVersion: '1',
+        pagination: {
+          total: 1,
+          limit: 10,
+          offset: 0,
+          nextCursor: null,
+          links: { next: null },
+        },
+      },
+    });
+  });
+
+  it('hides the owner from viewers', async () => {
+    const adminToken = await login('alice', 'wonderland');
+    await request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201);
+
+    const viewerToken = await login('carol', 'secret');
+    const response = await request(app.getHttpServer())
+      .get('/cats/1')
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(200);
+
+    expect(response.body.data).toEqual({
+      id: 1,
+      name: 'Tom',
+      age: 3,
+      breed: 'Tabby',
+    });
+  });
+
+  it('lets only editors sort by the owner', async () => {
+    const adminToken = await login('alice', 'wonderland');
+    await request(app.getHttpServer())
+      .get('/cats?sort=owner')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const viewerToken = await login('carol', 'secret');
+    const response = await request(app.getHttpServer())
+      .get('/cats?sort=owner')
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      {
+        property: 'sort',
+        constraint: 'isIn',
+        message:
+          'sort must be one of the following values: id, name, age, breed',
+      },
+    ]);
+  });
+});
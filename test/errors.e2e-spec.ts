@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  Controller,
+  Get,
+  INestApplication,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  NotFoundException,
+  RequestMethod,
+  RequestTimeoutException,
+} from '@nestjs/common';
+import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
+import * as request from 'supertest';
+import { ValidationFailedException } from '@exceptions/validation-failed.exception';
+import { ProblemDetailsFilter } from '@filters/problem-details.filter';
+import { ErrorsInterceptor } from '@interceptors/error.interceptor';
+import { ERROR_MAPPINGS } from '@interceptors/interceptors.constants';
+import { LoggingModule } from '@logging/logging.module';
+import { LoggerMiddleware } from '@root/logger.middleware';
+import { AbortError } from '@root/utils/abort';
+
+@Controller('errors')
+class ErrorsController {
+  @Get('not-found')
+  notFound() {
+    throw new NotFoundException('Cat with id 1 not found');
+  }
+
+  @Get('validation')
+  validation() {
+    throw new ValidationFailedException([
+      {
+        property: 'age',
+        constraint: 'isInt',
+        message: 'age must be an integer',
+      },
+    ]);
+  }
+
+  @Get('aborted')
+  aborted() {
+    throw new AbortError();
+  }
+
+  @Get('unexpected')
+  unexpected() {
+    throw new Error('Connection to 10.0.0.1 refused');
+  }
+}
+
+@Module({
+  imports: [LoggingModule.forRoot()],
+  controllers: [ErrorsController],
+  providers: [
+    {
+      provide: ERROR_MAPPINGS,
+      useValue: [
+        { error: AbortError, toException: () => new RequestTimeoutException() },
+      ],
+    },
+    { provide: APP_INTERCEPTOR, useClass: ErrorsInterceptor },
+    { provide: APP_FILTER, useClass: ProblemDetailsFilter },
+  ],
+})
+class TestModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(LoggerMiddleware)
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
+  }
+}
+
+describe('Problem details (e2e)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('renders HttpExceptions as problem details', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/errors/not-found')
+      .set('X-Request-Id', 'abc-123')
+      .expect(404)
+      .expect('Content-Type', /application\/problem\+json/);
+
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Cat with id 1 not found',
+      instance: '/errors/not-found',
+      requestId: 'abc-123',
+    });
+  });
+
+  it('keeps additional members of the exception', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/errors/validation')
+      .expect(400);
+
+    expect(response.body).toMatchObject({
+      title: 'Bad Request',
+      detail: 'Validation failed',
+      errors: [{ property: 'age', constraint: 'isInt' }],
+    });
+  });
+
+  it('maps errors by the mapping table', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/errors/aborted')
+      .expect(408);
+
+    expect(response.body).toMatchObject({ title: 'Request Timeout' });
+  });
+
+  it('hides the details of unexpected errors', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/errors/unexpected')
+      .expect(500);
+
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'An unexpected error occurred',
+      instance: '/errors/unexpected',
+      requestId: response.headers['x-request-id'],
+    });
+  });
+});
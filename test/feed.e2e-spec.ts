@@ -0,0 +1,501 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { get, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { apiVersioning } from '@root/utils/api-version';
+
+interface ServerSentEvent {
+  id?: string;
+  event?: string;
+  data?: any;
+}
+
+/**
+ * Opens an event stream and collects the events until the stream is closed by the test.
+ */
+function openEventStream(
+  url: string,
+  headers: Record<string, string> = {},
+): Promise<{
+  response: IncomingMessage;
+  events: ServerSentEvent[];
+  next: (count: number) => Promise<ServerSentEvent[]>;
+}> {
+  return new Promise((resolve, reject) => {
+    get(url, { headers }, (response) => {
+      const events: ServerSentEvent[] = [];
+      let pending = '';
+      let waiting: () => void = () => undefined;
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        const blocks = (pending + chunk).split('\n\n');
+        pending = blocks.pop();
+        for (const block of blocks) {
+          const event: ServerSentEvent = {};
+          for (const line of block.split('\n')) {
+            const [, field, value] = /^(\w+): ?(.*)$/.exec(line) ?? [];
+            if (field === 'data') {
+              event.data = /^[[{]/.test(value) ? JSON.parse(value) : value;
+            } else if (field === 'id' || field === 'event') {
+              event[field] = value;
+            }
+          }
+          if (event.data !== undefined) {
+            events.push(event);
+          }
+        }
+        waiting();
+      });
+      const next = (count: number) =>
+        new Promise<ServerSentEvent[]>((resolveEvents) => {
+          waiting = () => {
+            if (events.length >= count) {
+              waiting = () => undefined;
+              resolveEvents(events.slice(0, count));
+            }
+          };
+          waiting();
+        });
+      resolve({ response, events, next });
+    }).on('error', reject);
+  });
+}
+
+/**
+ * A WebSocket client which collects the messages of the server.
+ */
+class TestWebSocket {
+  readonly messages: any[] = [];
+  private waiting: () => void = () => undefined;
+  private readonly closeCode: Promise<number>;
+
+  private constructor(readonly socket: WebSocket) {
+    socket.on('message', (data) => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.waiting();
+    });
+    this.closeCode = new Promise((resolve) =>
+      socket.on('close', (code) => resolve(code)),
+    );
+  }
+
+  static connect(
+    url: string,
+    headers: Record<string, string> = {},
+  ): Promise<TestWebSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(url.replace(/^http/, 'ws'), { headers });
+      socket
+        .on('open', () => resolve(new TestWebSocket(socket)))
+        .on('error', reject);
+    });
+  }
+
+  send(message: unknown): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  next(count: number): Promise<any[]> {
+    return new Promise((resolve) => {
+      this.waiting = () => {
+        if (this.messages.length >= count) {
+          this.waiting = () => undefined;
+          resolve(this.messages.splice(0, count));
+        }
+      };
+      this.waiting();
+    });
+  }
+
+  closed(): Promise<number> {
+    return this.closeCode;
+  }
+
+  close(): void {
+    this.socket.close(1000);
+  }
+}
+
+describe('Cat change feed (e2e)', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+  const tokens: Record<string, string> = {};
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuthModule.forRoot({
+          keys: [{ kid: 'test', secret: 'secret' }],
+          activeKid: 'test',
+          issuer: 'cats-api',
+          audience: 'cats-api',
+          expiresIn: 60,
+          users: [
+            {
+              id: '1',
+              username: 'alice',
+              passwordHash: hashPassword('wonderland'),
+              roles: ['admin'],
+            },
+            {
+              id: '2',
+              username: 'bob',
+              passwordHash: hashPassword('builder'),
+              roles: ['viewer'],
+            },
+            {
+              id: '3',
+              username: 'carol',
+              passwordHash: hashPassword('singer'),
+              roles: [],
+            },
+          ],
+        }),
+        CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+        ResponseCacheModule.forRoot(),
+        ThrottleModule.forRoot(),
+        StorageModule.forRoot(),
+        EventsModule.forRoot(),
+        IdempotencyModule.forRoot(),
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    app.enableVersioning(apiVersioning);
+    await app.listen(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${
+      (app.getHttpServer().address() as AddressInfo).port
+    }`;
+
+    for (const [username, password] of [
+      ['alice', 'wonderland'],
+      ['bob', 'builder'],
+      ['carol', 'singer'],
+    ]) {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username, password });
+      tokens[username] = body.access_token;
+    }
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createCat = async (name: string, breed: string) =>
+    (
+      await request(app.getHttpServer())
+        .post('/cats')
+        .set('Authorization', `Bearer ${tokens.alice}`)
+        .send({ name, age: 3, breed })
+        .expect(201)
+    ).body;
+
+  describe('GET /cats/stream', () => {
+    it('streams the changes of the cats as Server-Sent Events', async () => {
+      const stream = await openEventStream(`${baseUrl}/cats/stream`, {
+        Authorization: `Bearer ${tokens.bob}`,
+      });
+      expect(stream.response.statusCode).toBe(200);
+      expect(stream.response.headers['content-type']).toMatch(
+        /^text\/event-stream/,
+      );
+
+      const cat = await createCat('Tom', 'Persian');
+      await request(app.getHttpServer())
+        .patch(`/cats/${cat.id}`)
+        .set('Authorization', `Bearer ${tokens.alice}`)
+        .set('If-Match', '"1"')
+        .send({ age: 4 })
+        .expect(200);
+      await request(app.getHttpServer())
+        .delete(`/cats/${cat.id}`)
+        .set('Authorization', `Bearer ${tokens.alice}`)
+        .set('If-Match', '"2"')
+        .expect(204);
+
+      const events = await stream.next(3);
+      stream.response.destroy();
+      expect(events).toEqual([
+        {
+          id: '1',
+          event: 'cat.created',
+          data: {
+            occurredAt: expect.any(String),
+            cat: { id: cat.id, name: 'Tom', age: 3, breed: 'Persian' },
+          },
+        },
+        {
+          id: '2',
+          event: 'cat.updated',
+          data: expect.objectContaining({
+            cat: expect.objectContaining({ age: 4 }),
+          }),
+        },
+        {
+          id: '3',
+          event: 'cat.deleted',
+          data: expect.objectContaining({
+            cat: expect.objectContaining({ id: cat.id }),
+          }),
+        },
+      ]);
+    });
+
+    it('filters the events by breed and type and serializes the cats for the API version', async () => {
+      const stream = await openEventStream(
+        `${baseUrl}/v2/cats/stream?breed=persian&types=cat.created`,
+        { Authorization: `Bearer ${tokens.alice}` },
+      );
+
+      await createCat('Felix', 'Siamese');
+      const tom = await createCat('Tom', 'Persian');
+      await request(app.getHttpServer())
+        .delete(`/cats/${tom.id}`)
+        .set('Authorization', `Bearer ${tokens.alice}`)
+        .set('If-Match', '"1"')
+        .expect(204);
+      await createCat('Garfield', 'Persian');
+
+      const events = await stream.next(2);
+      stream.response.destroy();
+      expect(events.map(({ event, data }) => [event, data.cat.name])).toEqual([
+        ['cat.created', 'Tom'],
+        ['cat.created', 'Garfield'],
+      ]);
+      expect(events[0].data.cat).toEqual({
+        id: tom.id,
+        name: 'Tom',
+        age: 3,
+        breed: { name: 'Persian' },
+        owner: '1',
+      });
+    });
+
+    it('resumes after the Last-Event-ID', async () => {
+      await createCat('Tom', 'Persian');
+      await createCat('Felix', 'Siamese');
+      await createCat('Garfield', 'Persian');
+
+      const stream = await openEventStream(`${baseUrl}/cats/stream`, {
+        Authorization: `Bearer ${tokens.bob}`,
+        'Last-Event-ID': '1',
+      });
+      const events = await stream.next(2);
+      stream.response.destroy();
+
+      expect(events.map(({ id, data }) => [id, data.cat.name])).toEqual([
+        ['2', 'Felix'],
+        ['3', 'Garfield'],
+      ]);
+    });
+
+    it('accepts the token as query parameter', async () => {
+      await request(app.getHttpServer()).get('/cats/stream').expect(401);
+      await request(app.getHttpServer())
+        .get(`/cats/stream?access_token=${tokens.carol}`)
+        .expect(403);
+
+      const stream = await openEventStream(
+        `${baseUrl}/cats/stream?access_token=${tokens.bob}`,
+      );
+      stream.response.destroy();
+      expect(stream.response.statusCode).toBe(200);
+    });
+
+    it('reports an invalid filter as error event', async () => {
+      // the stream is opened before the pipes run, so the error can't be a 400 anymore
+      const stream = await openEventStream(
+        `${baseUrl}/cats/stream?types=cat.created,cat.adopted`,
+        { Authorization: `Bearer ${tokens.bob}` },
+      );
+      const events = await stream.next(1);
+      stream.response.destroy();
+
+      expect(events).toEqual([
+        expect.objectContaining({ event: 'error', data: 'Validation failed' }),
+      ]);
+    });
+  });
+
+  describe('WebSocket /cats/feed', () => {
+    it('authenticates the client with the token of the handshake', async () => {
+      const anonymous = await TestWebSocket.connect(`${baseUrl}/cats/feed`);
+      anonymous.send({ event: 'subscribe' });
+      expect(await anonymous.next(1)).toEqual([
+        {
+          event: 'error',
+          data: expect.objectContaining({
+            status: 401,
+            instance: '/cats/feed',
+          }),
+        },
+      ]);
+      expect(await anonymous.closed()).toBe(1008);
+
+      const forbidden = await TestWebSocket.connect(`${baseUrl}/cats/feed`, {
+        Authorization: `Bearer ${tokens.carol}`,
+      });
+      forbidden.send({ event: 'subscribe' });
+      expect(await forbidden.next(1)).toEqual([
+        { event: 'error', data: expect.objectContaining({ status: 403 }) },
+      ]);
+      expect(await forbidden.closed()).toBe(1008);
+
+      await expect(
+        TestWebSocket.connect(`${baseUrl}/dogs/feed`, {
+          Authorization: `Bearer ${tokens.bob}`,
+        }),
+      ).rejects.toThrow();
+    });
+
+    it('sends the events matching the filter of the subscription', async () => {
+      const socket = await TestWebSocket.connect(
+        `${baseUrl}/cats/feed?access_token=${tokens.bob}`,
+      );
+
+      socket.send({
+        event: 'subscribe',
+        data: { filter: { breed: 'Persian' } },
+      });
+      expect(await socket.next(1)).toEqual([
+        { event: 'subscribed', data: { filter: { breed: 'Persian' } } },
+      ]);
+
+      await createCat('Felix', 'Siamese');
+      const tom = await createCat('Tom', 'Persian');
+      expect(await socket.next(1)).toEqual([
+        {
+          event: 'cat.created',
+          data: {
+            id: '2',
+            occurredAt: expect.any(String),
+            cat: { id: tom.id, name: 'Tom', age: 3, breed: 'Persian' },
+          },
+        },
+      ]);
+
+      socket.send({
+        event: 'subscribe',
+        data: { filter: { types: ['cat.deleted'] } },
+      });
+      expect(await socket.next(1)).toEqual([
+        expect.objectContaining({ event: 'subscribed' }),
+      ]);
+      await createCat('Garfield', 'Persian');
+      await request(app.getHttpServer())
+        .delete(`/cats/${tom.id}`)
+        .set('Authorization', `Bearer ${tokens.alice}`)
+        .set('If-Match', '"1"')
+        .expect(204);
+      expect(await socket.next(1)).toEqual([
+        {
+          event: 'cat.deleted',
+          data: expect.objectContaining({ id: '4' }),
+        },
+      ]);
+
+      socket.send({ event: 'unsubscribe' });
+      expect(await socket.next(1)).toEqual([{ event: 'unsubscribed' }]);
+      socket.close();
+      expect(await socket.closed()).toBe(1000);
+    });
+
+    it('resumes a subscription after the lastEventId', async () => {
+      await createCat('Tom', 'Persian');
+      await createCat('Felix', 'Siamese');
+
+      const socket = await TestWebSocket.connect(`${baseUrl}/v2/cats/feed`, {
+        Authorization: `Bearer ${tokens.bob}`,
+      });
+      socket.send({ event: 'subscribe', data: { lastEventId: '1' } });
+
+      const [subscribed, event] = await socket.next(2);
+      expect(subscribed).toEqual({ event: 'subscribed', data: { filter: {} } });
+      expect(event).toMatchObject({
+        event: 'cat.created',
+        data: { id: '2', cat: { name: 'Felix', breed: { name: 'Siamese' } } },
+      });
+      socket.close();
+      await socket.closed();
+    });
+
+    it('reports invalid subscriptions and ignores unknown messages', async () => {
+      const socket = await TestWebSocket.connect(`${baseUrl}/cats/feed`, {
+        Authorization: `Bearer ${tokens.bob}`,
+      });
+
+      socket.socket.send('{');
+      socket.send({ event: 'adopt' });
+      socket.send({
+        event: 'subscribe',
+        data: { filter: { types: ['cat.adopted'] } },
+      });
+      socket.send({ event: 'subscribe', data: { since: '1' } });
+      expect(await socket.next(2)).toEqual([
+        {
+          event: 'error',
+          data: expect.objectContaining({
+            status: 400,
+            errors: [expect.objectContaining({ property: 'filter.types' })],
+          }),
+        },
+        {
+          event: 'error',
+          data: expect.objectContaining({
+            status: 400,
+            errors: [expect.objectContaining({ property: 'since' })],
+          }),
+        },
+      ]);
+
+      // the connection stays open for the next subscription
+      socket.send({ event: 'subscribe' });
+      expect(await socket.next(1)).toEqual([
+        { event: 'subscribed', data: { filter: {} } },
+      ]);
+      socket.close();
+      await socket.closed();
+    });
+
+    it('closes the connection on messages exceeding the limit', async () => {
+      const socket = await TestWebSocket.connect(`${baseUrl}/cats/feed`, {
+        Authorization: `Bearer ${tokens.bob}`,
+      });
+
+      socket.send({
+        event: 'subscribe',
+        data: { lastEventId: 'x'.repeat(20000) },
+      });
+      expect(await socket.closed()).toBe(1009);
+    });
+
+    it('reassembles fragmented messages', async () => {
+      const socket = await TestWebSocket.connect(`${baseUrl}/cats/feed`, {
+        Authorization: `Bearer ${tokens.bob}`,
+      });
+
+      socket.socket.send('{"event":"sub', { fin: false });
+      socket.socket.ping();
+      socket.socket.send('scribe"}', { fin: true });
+      expect(await socket.next(1)).toEqual([
+        { event: 'subscribed', data: { filter: {} } },
+      ]);
+      socket.close();
+      await socket.closed();
+    });
+  });
+});
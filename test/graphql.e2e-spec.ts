@@ -0,0 +1,344 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { GraphQLApiModule } from '@graphql/graphql-api.module';
+import { GraphQLApiOptions } from '@graphql/interfaces/graphql-api-options.interface';
+
+const users = [
+  {
+    id: '1',
+    username: 'alice',
+    passwordHash: hashPassword('wonderland'),
+    roles: ['admin'],
+  },
+  {
+    id: '2',
+    username: 'bob',
+    passwordHash: hashPassword('builder'),
+    roles: ['viewer'],
+  },
+  {
+    id: '3',
+    username: 'dave',
+    passwordHash: hashPassword('editor'),
+    roles: ['editor'],
+  },
+];
+
+async function createApp(
+  options: Partial<GraphQLApiOptions>,
+): Promise<INestApplication> {
+  const moduleFixture: TestingModule = await Test.createTestingModule({
+    imports: [
+      AuthModule.forRoot({
+        keys: [{ kid: 'test', secret: 'secret' }],
+        activeKid: 'test',
+        issuer: 'cats-api',
+        audience: 'cats-api',
+        expiresIn: 60,
+        users,
+      }),
+      CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+      ResponseCacheModule.forRoot(),
+      ThrottleModule.forRoot(),
+      StorageModule.forRoot(),
+      EventsModule.forRoot(),
+      IdempotencyModule.forRoot(),
+      GraphQLApiModule.forRoot(options),
+    ],
+  }).compile();
+
+  const app = moduleFixture.createNestApplication({ logger: false });
+  app.useWebSocketAdapter(new WsAdapter(app));
+  return app.init();
+}
+
+describe('GraphQL (e2e)', () => {
+  let app: INestApplication;
+  const tokens: Record<string, string> = {};
+
+  const login = async () => {
+    for (const [username, password] of [
+      ['alice', 'wonderland'],
+      ['bob', 'builder'],
+      ['dave', 'editor'],
+    ]) {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username, password });
+      tokens[username] = body.access_token;
+    }
+  };
+
+  beforeEach(async () => {
+    app = await createApp({ maxComplexity: 100 });
+    await login();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const graphql = (
+    query: string,
+    variables: Record<string, unknown> = {},
+    token?: string,
+  ) => {
+    const req = request(app.getHttpServer()).post('/graphql');
+    if (token) {
+      req.set('Authorization', `Bearer ${token}`);
+    }
+    return req.send({ query, variables });
+  };
+
+  const createCat = async (name: string, token = tokens.alice) =>
+    (
+      await graphql(
+        `
+          mutation ($input: CreateCatInput!) {
+            createCat(input: $input) {
+              id
+              name
+              age
+              breed
+            }
+          }
+        `,
+        { input: { name, age: 3, breed: 'Persian' } },
+        token,
+      ).expect(200)
+    ).body.data.createCat;
+
+  describe('queries', () => {
+    it('reads a cat and pages through the cats with the filters of the REST API', async () => {
+      const tom = await createCat('Tom');
+      await createCat('Felix');
+      await createCat('Garfield');
+
+      const { body } = await graphql(
+        `
+          query ($id: Int!) {
+            cat(id: $id) {
+              id
+              name
+              age
+              breed
+              origin
+            }
+            cats(limit: 2, breed: "Persian", sort: "name") {
+              items {
+                name
+              }
+              total
+              limit
+              offset
+              nextCursor
+            }
+          }
+        `,
+        { id: tom.id },
+        tokens.bob,
+      ).expect(200);
+
+      expect(body.errors).toBeUndefined();
+      expect(body.data.cat).toEqual({
+        id: tom.id,
+        name: 'Tom',
+        age: 3,
+        breed: 'Persian',
+        origin: null,
+      });
+      expect(body.data.cats).toEqual({
+        items: [{ name: 'Felix' }, { name: 'Garfield' }],
+        total: 3,
+        limit: 2,
+        offset: 0,
+        nextCursor: expect.any(String),
+      });
+    });
+
+    it('only reveals the owner to editors', async () => {
+      const tom = await createCat('Tom');
+      const query = `query ($id: Int!) { cat(id: $id) { name owner } }`;
+
+      const viewer = await graphql(query, { id: tom.id }, tokens.bob);
+      const admin = await graphql(query, { id: tom.id }, tokens.alice);
+
+      expect(viewer.body.data.cat).toEqual({ name: 'Tom', owner: null });
+      expect(admin.body.data.cat).toEqual({ name: 'Tom', owner: '1' });
+    });
+
+    it('reports unknown cats with the status of the REST API', async () => {
+      const { body } = await graphql(
+        '{ cat(id: 42) { name } }',
+        {},
+        tokens.bob,
+      ).expect(200);
+
+      expect(body.data).toBeNull();
+      expect(body.errors).toEqual([
+        expect.objectContaining({
+          path: ['cat'],
+          extensions: expect.objectContaining({
+            code: 'NOT_FOUND',
+            status: 404,
+            domainCode: 'CAT_NOT_FOUND',
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe('authorization', () => {
+    it('requires a token and the permissions of the operation', async () => {
+      const anonymous = await graphql('{ cats { total } }').expect(200);
+      const viewer = await graphql(
+        'mutation { deleteCat(id: 1) }',
+        {},
+        tokens.bob,
+      ).expect(200);
+
+      expect(anonymous.body.errors[0].extensions).toMatchObject({
+        code: 'UNAUTHORIZED',
+        status: 401,
+      });
+      expect(viewer.body.errors[0].extensions).toMatchObject({
+        code: 'FORBIDDEN',
+        status: 403,
+      });
+    });
+
+    it('only lets the owner or an admin change a cat', async () => {
+      const tom = await createCat('Tom');
+      const felix = await createCat('Felix', tokens.dave);
+      const update = `mutation ($id: Int!) {
+        updateCat(id: $id, input: { age: 5 }) { name age }
+      }`;
+
+      const foreign = await graphql(update, { id: tom.id }, tokens.dave);
+      const own = await graphql(update, { id: felix.id }, tokens.dave);
+      const admin = await graphql(update, { id: felix.id }, tokens.alice);
+
+      expect(foreign.body.errors[0].extensions.status).toBe(403);
+      expect(own.body.data.updateCat).toEqual({ name: 'Felix', age: 5 });
+      expect(admin.body.errors).toBeUndefined();
+    });
+
+    it('deletes a cat', async () => {
+      const tom = await createCat('Tom');
+
+      const { body } = await graphql(
+        'mutation ($id: Int!) { deleteCat(id: $id) }',
+        { id: tom.id },
+        tokens.alice,
+      ).expect(200);
+
+      expect(body.data).toEqual({ deleteCat: true });
+      await graphql('{ cats { total } }', {}, tokens.bob).expect(200, {
+        data: { cats: { total: 0 } },
+      });
+    });
+
+    it('invalidates the cached responses of the REST API', async () => {
+      const tom = await createCat('Tom');
+      const get = () =>
+        request(app.getHttpServer())
+          .get(`/cats/${tom.id}`)
+          .set('Authorization', `Bearer ${tokens.bob}`)
+          .expect(200);
+      const cached = await get();
+
+      await graphql(
+        'mutation ($id: Int!) { updateCat(id: $id, input: { age: 5 }) { age } }',
+        { id: tom.id },
+        tokens.alice,
+      ).expect(200);
+
+      const { body, headers } = await get();
+      expect(body.age).toBe(5);
+      expect(headers.etag).not.toBe(cached.headers.etag);
+    });
+  });
+
+  describe('validation', () => {
+    it('validates the inputs with the rules of the DTOs', async () => {
+      const { body } = await graphql(
+        'query { cats(limit: 500) { total } }',
+        {},
+        tokens.bob,
+      ).expect(200);
+
+      expect(body.errors[0]).toMatchObject({
+        message: 'Validation failed',
+        extensions: {
+          code: 'BAD_REQUEST',
+          status: 400,
+          errors: [expect.objectContaining({ property: 'limit' })],
+        },
+      });
+    });
+
+    it('rejects operations nested deeper than the maximum depth', async () => {
+      await app.close();
+      app = await createApp({ maxDepth: 2 });
+      await login();
+
+      const shallow = await graphql(
+        '{ cats { total } }',
+        {},
+        tokens.bob,
+      ).expect(200);
+      const deep = await graphql(
+        `
+          {
+            cats {
+              ...page
+            }
+          }
+          fragment page on CatPage {
+            items {
+              name
+            }
+          }
+        `,
+        {},
+        tokens.bob,
+      ).expect(400);
+
+      expect(shallow.body.errors).toBeUndefined();
+      expect(deep.body.errors).toEqual([
+        expect.objectContaining({
+          message: 'The operation has a depth of 3, the maximum is 2',
+          extensions: expect.objectContaining({
+            code: 'GRAPHQL_VALIDATION_FAILED',
+          }),
+        }),
+      ]);
+    });
+
+    it('rejects operations which exceed the maximum complexity', async () => {
+      const { status, body } = await graphql(
+        '{ a: cats(limit: 40) { items { name age } } b: cats(limit: 40) { items { name } } }',
+        {},
+        tokens.bob,
+      );
+
+      expect(status).toBe(400);
+      expect(body.errors).toEqual([
+        expect.objectContaining({
+          message: expect.stringMatching(/the maximum is 100$/),
+          extensions: expect.objectContaining({ code: 'QUERY_TOO_COMPLEX' }),
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, Injectable, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { CatsPersistenceHealthIndicator } from '@cats/cats.health';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { HealthModule } from '@health/health.module';
+import { HealthIndicator } from '@health/health-indicator';
+import { HealthCheckResult } from '@health/interfaces/health-report.interface';
+import { LoggingInterceptor } from '@interceptors/logging.interceptor';
+import { MetricsModule } from '@metrics/metrics.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+
+@Injectable()
+class QueueHealthIndicator extends HealthIndicator {
+  readonly name = 'queue';
+  reachable = true;
+
+  async check(): Promise<HealthCheckResult> {
+    if (!this.reachable) {
+      throw new Error('Connection refused');
+    }
+    return { status: 'up' };
+  }
+}
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [
+        {
+          id: '1',
+          username: 'alice',
+          passwordHash: hashPassword('wonderland'),
+          roles: ['admin'],
+        },
+      ],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot(),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    HealthModule.forRoot({
+      readiness: [CatsPersistenceHealthIndicator, QueueHealthIndicator],
+    }),
+    MetricsModule.forRoot({ buckets: [0.1, 1] }),
+  ],
+  providers: [
+    QueueHealthIndicator,
+    { provide: APP_INTERCEPTOR, useClass: LoggingInterceptor },
+  ],
+})
+class TestModule {}
+
+describe('Health and metrics (e2e)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('reports the liveness checks', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/health/live')
+      .expect(200);
+
+    expect(response.body).toEqual({
+      status: 'up',
+      checks: {
+        eventLoop: expect.objectContaining({ status: 'up' }),
+        heap: expect.objectContaining({ status: 'up' }),
+      },
+    });
+  });
+
+  it('reports the readiness checks and fails if one of them is down', async () => {
+    const ready = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(200);
+    expect(Object.keys(ready.body.checks)).toEqual([
+      'eventLoop',
+      'heap',
+      'persistence',
+      'queue',
+    ]);
+
+    app.get(QueueHealthIndicator).reachable = false;
+    const notReady = await request(app.getHttpServer())
+      .get('/health/ready')
+      .expect(503);
+    expect(notReady.body).toMatchObject({
+      status: 'down',
+      checks: {
+        persistence: { status: 'up' },
+        queue: { status: 'down', error: 'Connection refused' },
+      },
+    });
+    await request(app.getHttpServer()).get('/health/live').expect(200);
+  });
+
+  it('exposes the request metrics per route', async () => {
+    const { access_token } = (
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'alice', password: 'wonderland' })
+    ).body;
+    for (const id of [1, 2]) {
+      await request(app.getHttpServer())
+        .get(`/cats/${id}`)
+        .set('Authorization', `Bearer ${access_token}`)
+        .expect(404);
+    }
+
+    const response = await request(app.getHttpServer())
+      .get('/metrics')
+      .expect(200)
+      .expect('Content-Type', /^text\/plain;.*version=0\.0\.4/);
+
+    expect(response.text).toContain(
+      'http_requests_total{method="GET",route="/cats/:id",status="404"} 2',
+    );
+    expect(response.text).toContain(
+      'http_request_duration_seconds_bucket{method="GET",route="/cats/:id",le="+Inf"} 2',
+    );
+    expect(response.text).toMatch(
+      /^http_request_duration_seconds_count\{method="GET",route="\/cats\/:id"\} 2$/m,
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  Body,
+  Controller,
+  INestApplication,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { request as httpRequest } from 'http';
+import { AddressInfo } from 'net';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { IdempotencyInterceptor } from '@interceptors/idempotency.interceptor';
+import { Idempotent } from '@decorators/idempotent.decorator';
+import { apiVersioning } from '@root/utils/api-version';
+
+/**
+ * A controller whose requests only complete when the test lets them, to send a retry in between.
+ */
+@Controller('jobs')
+@UseInterceptors(IdempotencyInterceptor)
+class JobsController {
+  static pending: (() => void)[] = [];
+  private started = 0;
+
+  @Post()
+  @Idempotent()
+  async start(@Body() job: { name: string }) {
+    await new Promise<void>((resolve) => JobsController.pending.push(resolve));
+    return { id: ++this.started, ...job };
+  }
+}
+
+describe('Idempotency (e2e)', () => {
+  let app: INestApplication;
+  const tokens: Record<string, string> = {};
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuthModule.forRoot({
+          keys: [{ kid: 'test', secret: 'secret' }],
+          activeKid: 'test',
+          issuer: 'cats-api',
+          audience: 'cats-api',
+          expiresIn: 60,
+          users: [
+            {
+              id: '1',
+              username: 'alice',
+              passwordHash: hashPassword('wonderland'),
+              roles: ['admin'],
+            },
+            {
+              id: '2',
+              username: 'dave',
+              passwordHash: hashPassword('editor'),
+              roles: ['editor'],
+            },
+          ],
+        }),
+        CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+        ResponseCacheModule.forRoot(),
+        ThrottleModule.forRoot(),
+        StorageModule.forRoot(),
+        EventsModule.forRoot(),
+        IdempotencyModule.forRoot(),
+      ],
+      controllers: [JobsController],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    app.enableVersioning(apiVersioning);
+    await app.init();
+
+    for (const [username, password] of [
+      ['alice', 'wonderland'],
+      ['dave', 'editor'],
+    ]) {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username, password });
+      tokens[username] = body.access_token;
+    }
+  });
+
+  afterEach(async () => {
+    JobsController.pending = [];
+    await app.close();
+  });
+
+  const tom = { name: 'Tom', age: 3, breed: { name: 'Persian' } };
+
+  const createCat = (key: string, body: object = tom, token = tokens.alice) =>
+    request(app.getHttpServer())
+      .post('/v2/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', key)
+      .send(body);
+
+  const countCats = async () =>
+    (
+      await request(app.getHttpServer())
+        .get('/v2/cats')
+        .set('Authorization', `Bearer ${tokens.alice}`)
+        .expect(200)
+    ).body.total;
+
+  it('replays the response of the first request to a retry', async () => {
+    const first = await createCat('a1b2c3').expect(201);
+    const retry = await createCat('a1b2c3').expect(201);
+
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+    expect(await countCats()).toBe(1);
+  });
+
+  it('ignores the order of the members of the payload', async () => {
+    await createCat('a1b2c3').expect(201);
+    await createCat('a1b2c3', {
+      breed: { name: 'Persian' },
+      age: 3,
+      name: 'Tom',
+    })
+      .expect(201)
+      .expect('Idempotent-Replayed', 'true');
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    await createCat('a1b2c3').expect(201);
+
+    const { body } = await createCat('a1b2c3', { ...tom, age: 4 }).expect(422);
+    expect(body.message).toMatch(/already been used for a different request/);
+    expect(await countCats()).toBe(1);
+  });
+
+  it('scopes the keys to the user', async () => {
+    await createCat('a1b2c3').expect(201);
+
+    const other = await createCat('a1b2c3', tom, tokens.dave).expect(201);
+    expect(other.headers['idempotent-replayed']).toBeUndefined();
+    expect(await countCats()).toBe(2);
+  });
+
+  it('releases the key of a failed request', async () => {
+    await createCat('a1b2c3', { ...tom, age: 'three' }).expect(400);
+
+    await createCat('a1b2c3').expect(201);
+    expect(await countCats()).toBe(1);
+  });
+
+  it('rejects invalid keys', async () => {
+    await createCat('').expect(400);
+    await createCat('x'.repeat(256)).expect(400);
+    expect(await countCats()).toBe(0);
+  });
+
+  it('answers a retry while the first request is still processed with 409', async () => {
+    const server = app.getHttpServer();
+    const first = request(server)
+      .post('/jobs')
+      .set('Idempotency-Key', 'job-1')
+      .send({ name: 'backup' })
+      .then((response) => response);
+    while (JobsController.pending.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    await request(server)
+      .post('/jobs')
+      .set('Idempotency-Key', 'job-1')
+      .send({ name: 'backup' })
+      .expect(409);
+
+    JobsController.pending.forEach((resolve) => resolve());
+    expect((await first).body).toEqual({ id: 1, name: 'backup' });
+    await request(server)
+      .post('/jobs')
+      .set('Idempotency-Key', 'job-1')
+      .send({ name: 'backup' })
+      .expect(201, { id: 1, name: 'backup' });
+  });
+
+  it('replays the response of a request whose client disconnected while it was processed', async () => {
+    const server = app.getHttpServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const wait = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+    const first = httpRequest({
+      port: (server.address() as AddressInfo).port,
+      method: 'POST',
+      path: '/jobs',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': 'job-2',
+      },
+    }).on('error', () => undefined);
+    first.end(JSON.stringify({ name: 'backup' }));
+    while (JobsController.pending.length === 0) {
+      await wait(10);
+    }
+
+    first.destroy();
+    await wait(50);
+    JobsController.pending.forEach((resolve) => resolve());
+    await wait(50);
+
+    const retry = await request(server)
+      .post('/jobs')
+      .set('Idempotency-Key', 'job-2')
+      .send({ name: 'backup' })
+      .expect(201, { id: 1, name: 'backup' });
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+  });
+});
@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  INestApplication,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { LoggingModule } from '@logging/logging.module';
+import { AppLogger } from '@logging/app-logger.service';
+import { LoggerMiddleware } from '@root/logger.middleware';
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [
+        {
+          id: '1',
+          username: 'alice',
+          passwordHash: hashPassword('wonderland'),
+          roles: ['admin'],
+        },
+      ],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot(),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    LoggingModule.forRoot({ level: 'log', format: 'json' }),
+  ],
+})
+class TestModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(LoggerMiddleware)
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
+  }
+}
+
+describe('Request logging (e2e)', () => {
+  let app: INestApplication;
+  let lines: string[];
+  let token: string;
+
+  beforeEach(async () => {
+    lines = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      lines.push(String(chunk));
+      return true;
+    });
+    jest.spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+      lines.push(String(chunk));
+      return true;
+    });
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ bufferLogs: true });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    app.useLogger(app.get(AppLogger));
+    await app.init();
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wonderland' });
+    token = login.body.access_token;
+    lines = [];
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await app.close();
+  });
+
+  function entries(): Record<string, any>[] {
+    return lines.map((line) => JSON.parse(line));
+  }
+
+  it('writes one access log entry with the route template', async () => {
+    const created = await request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .get(`/cats/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const access = entries().filter(({ context }) => context === 'HTTP');
+    expect(access).toHaveLength(2);
+    expect(access[1]).toMatchObject({
+      level: 'log',
+      requestId: response.headers['x-request-id'],
+      method: 'GET',
+      route: '/cats/:id',
+      url: `/cats/${created.body.id}`,
+      status: 200,
+      userId: '1',
+      responseSize: Number(response.headers['content-length']),
+    });
+    expect(typeof access[1].latency).toBe('number');
+  });
+
+  it('propagates the request id to the entries of the services', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .set('X-Request-Id', 'abc-123')
+      .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+      .expect(201);
+
+    expect(response.headers['x-request-id']).toBe('abc-123');
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        context: 'CatsService',
+        requestId: 'abc-123',
+        message: 'Cat created',
+      }),
+      expect.objectContaining({ context: 'HTTP', requestId: 'abc-123' }),
+    ]);
+  });
+
+  it('replaces an invalid request id and logs rejected requests', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/cats')
+      .set('X-Request-Id', 'not valid!')
+      .expect(401);
+
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        requestId: response.headers['x-request-id'],
+        route: '/cats',
+        status: 401,
+      }),
+    ]);
+  });
+});
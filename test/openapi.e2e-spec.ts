@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, Module } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { HealthModule } from '@health/health.module';
+import { OpenApiModule } from '@openapi/openapi.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { apiVersioning } from '@root/utils/api-version';
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot(),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    HealthModule.forRoot(),
+    OpenApiModule.forRoot({ title: 'Cats API', version: '1.2.3' }),
+  ],
+})
+class TestModule {}
+
+describe('OpenAPI (e2e)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    app.enableVersioning(apiVersioning);
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const getDocument = async () =>
+    (await request(app.getHttpServer()).get('/openapi.json').expect(200)).body;
+
+  it('lists the routes of every controller by API version', async () => {
+    const document = await getDocument();
+
+    expect(document).toMatchObject({
+      openapi: '3.0.3',
+      info: { title: 'Cats API', version: '1.2.3' },
+      tags: [
+        { name: 'Auth' },
+        { name: 'Cats' },
+        { name: 'CatPhotos' },
+        { name: 'Health' },
+      ],
+    });
+    expect(Object.keys(document.paths)).toEqual([
+      '/auth/login',
+      '/v1/cats',
+      '/v1/cats/bulk',
+      '/v2/cats/bulk',
+      '/v1/cats/export',
+      '/v2/cats/export',
+      '/v1/cats/stream',
+      '/v2/cats/stream',
+      '/v1/cats/{id}',
+      '/v2/cats/{id}',
+      '/v2/cats',
+      '/v1/cats/{id}/photos',
+      '/v2/cats/{id}/photos',
+      '/v1/cats/{id}/photos/{photoId}',
+      '/v2/cats/{id}/photos/{photoId}',
+      '/health/live',
+      '/health/ready',
+    ]);
+    expect(Object.keys(document.paths['/v1/cats/{id}'])).toEqual([
+      'get',
+      'put',
+      'patch',
+      'delete',
+    ]);
+    expect(document.paths['/v2/cats/{id}'].delete).toMatchObject({
+      operationId: 'Cats_remove_v2',
+      'x-api-version': '2',
+      responses: { '204': { description: 'No Content' } },
+    });
+  });
+
+  it('describes the parameters, bodies and responses with the DTOs', async () => {
+    const document = await getDocument();
+    const findOne = document.paths['/v1/cats/{id}'].get;
+    const create = document.paths['/v2/cats'].post;
+
+    expect(findOne.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+    ]);
+    expect(
+      findOne.responses['200'].content['application/json'].schema.properties,
+    ).toEqual({
+      data: { allOf: [{ $ref: '#/components/schemas/SendCatDTO' }] },
+      meta: { $ref: '#/components/schemas/EnvelopeMeta' },
+    });
+    expect(create.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/CreateCatV2Dto',
+    });
+    expect(document.paths['/v1/cats'].get.parameters).toContainEqual({
+      name: 'limit',
+      in: 'query',
+      required: false,
+      schema: { type: 'integer', minimum: 1, maximum: 100 },
+    });
+
+    expect(document.components.schemas.CreateCatDto).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        breed: { type: 'string' },
+      },
+      required: ['name', 'age', 'breed'],
+    });
+    expect(document.components.schemas.SendCatDTO).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        breed: { type: 'string' },
+        owner: {
+          type: 'string',
+          description: 'Only sent to the roles: editor',
+        },
+      },
+      required: ['id', 'name', 'age', 'breed'],
+    });
+    expect(document.components.schemas.BreedDto.required).toEqual(['name']);
+    expect(
+      document.paths['/v1/cats/{id}/photos'].post.requestBody.content,
+    ).toEqual({
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: { file: { type: 'string', format: 'binary' } },
+          required: ['file'],
+        },
+      },
+    });
+  });
+
+  it('describes the security and the required roles', async () => {
+    const document = await getDocument();
+
+    expect(document.components.securitySchemes).toEqual({
+      bearer: expect.objectContaining({ type: 'http', scheme: 'bearer' }),
+    });
+    expect(document.paths['/v1/cats'].post).toMatchObject({
+      operationId: 'Cats_create',
+      security: [{ bearer: [] }],
+      'x-permissions': ['cats:create'],
+      responses: {
+        '401': { $ref: '#/components/responses/Unauthorized' },
+        '403': { $ref: '#/components/responses/Forbidden' },
+        '429': { $ref: '#/components/responses/TooManyRequests' },
+      },
+    });
+    expect(document.paths['/v1/cats/{id}'].get['x-permissions']).toEqual([
+      'cats:read',
+    ]);
+    expect(document.paths['/v2/cats'].post.parameters).toContainEqual(
+      expect.objectContaining({ name: 'Idempotency-Key', in: 'header' }),
+    );
+    expect(document.paths['/v2/cats'].post.responses).toMatchObject({
+      '409': { $ref: '#/components/responses/Conflict' },
+      '422': { $ref: '#/components/responses/UnprocessableEntity' },
+    });
+    expect(document.paths['/v2/cats/{id}'].patch.parameters).toContainEqual(
+      expect.objectContaining({
+        name: 'If-Match',
+        in: 'header',
+        required: true,
+      }),
+    );
+    expect(document.paths['/v2/cats/{id}'].patch.responses).toMatchObject({
+      '412': { $ref: '#/components/responses/PreconditionFailed' },
+      '428': { $ref: '#/components/responses/PreconditionRequired' },
+    });
+    expect(document.paths['/auth/login'].post.security).toBeUndefined();
+    expect(document.paths['/health/live'].get.security).toBeUndefined();
+  });
+
+  it('serves the interactive documentation', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/docs')
+      .expect(200)
+      .expect('Content-Type', /text\/html/);
+
+    expect(response.text).toContain('<title>Cats API</title>');
+    expect(response.text).toContain('fetch("/openapi.json")');
+  });
+});
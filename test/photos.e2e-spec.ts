@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+
+/**
+ * A PNG header of the given dimensions, followed by bytes 0, 1, 2, ... up to the size.
+ */
+function png(width: number, height: number, size = 100): Buffer {
+  const data = Buffer.alloc(size);
+  for (let index = 0; index < size; index++) {
+    data[index] = index % 256;
+  }
+  Buffer.from('89504e470d0a1a0a', 'hex').copy(data);
+  data.writeUInt32BE(13, 8);
+  data.write('IHDR', 12, 'latin1');
+  data.writeUInt32BE(width, 16);
+  data.writeUInt32BE(height, 20);
+  return data;
+}
+
+const binary = (response, callback) => {
+  const chunks: Buffer[] = [];
+  response.on('data', (chunk: Buffer) => chunks.push(chunk));
+  response.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Cat photos (e2e)', () => {
+  let app: INestApplication;
+  let directory: string;
+  let token: string;
+  let catId: number;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'photos-'));
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuthModule.forRoot({
+          keys: [{ kid: 'test', secret: 'secret' }],
+          activeKid: 'test',
+          issuer: 'cats-api',
+          audience: 'cats-api',
+          expiresIn: 60,
+          users: [
+            {
+              id: '1',
+              username: 'alice',
+              passwordHash: hashPassword('wonderland'),
+              roles: ['admin'],
+            },
+          ],
+        }),
+        CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+        ResponseCacheModule.forRoot(),
+        ThrottleModule.forRoot(),
+        StorageModule.forRoot({ directory }),
+        EventsModule.forRoot(),
+        IdempotencyModule.forRoot(),
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.init();
+
+    const { body } = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username: 'alice', password: 'wonderland' });
+    token = body.access_token;
+
+    catId = (
+      await request(app.getHttpServer())
+        .post('/cats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Tom', age: 3, breed: 'Tabby' })
+        .expect(201)
+    ).body.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const upload = (data: Buffer, contentType = 'image/png', id = catId) =>
+    request(app.getHttpServer())
+      .post(`/cats/${id}/photos`)
+      .set('Authorization', `Bearer ${token}`)
+      .attach('file', data, { filename: 'tom.png', contentType });
+
+  const download = (path: string) =>
+    request(app.getHttpServer())
+      .get(path)
+      .set('Authorization', `Bearer ${token}`)
+      .buffer(true)
+      .parse(binary);
+
+  it('stores a photo with its dimensions and lists it', async () => {
+    const { body: photo } = await upload(png(1024, 768)).expect(201);
+
+    expect(photo).toEqual({
+      id: expect.any(String),
+      catId,
+      filename: 'tom.png',
+      mimeType: 'image/png',
+      size: 100,
+      width: 1024,
+      height: 768,
+      thumbnail: { width: 256, height: 192 },
+      createdAt: expect.any(String),
+    });
+    await request(app.getHttpServer())
+      .get(`/cats/${catId}/photos`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200)
+      .expect(({ body }) => expect(body).toEqual([photo]));
+  });
+
+  it('streams the photo as a whole or by range', async () => {
+    const data = png(10, 10);
+    const { body: photo } = await upload(data).expect(201);
+    const path = `/cats/${catId}/photos/${photo.id}`;
+
+    const whole = await download(path)
+      .expect(200)
+      .expect('Content-Type', 'image/png')
+      .expect('Accept-Ranges', 'bytes');
+    expect(whole.body).toEqual(data);
+
+    const part = await download(path)
+      .set('Range', 'bytes=10-19')
+      .expect(206)
+      .expect('Content-Range', 'bytes 10-19/100')
+      .expect('Content-Length', '10');
+    expect(part.body).toEqual(data.subarray(10, 20));
+
+    const suffix = await download(path)
+      .set('Range', 'bytes=-5')
+      .expect(206)
+      .expect('Content-Range', 'bytes 95-99/100');
+    expect(suffix.body).toEqual(data.subarray(95));
+
+    await download(path)
+      .set('Range', 'bytes=100-')
+      .expect(416)
+      .expect('Content-Range', 'bytes */100');
+  });
+
+  it('validates the size, the media type and the content', async () => {
+    await upload(Buffer.from('hello'), 'text/plain').expect(400);
+    await upload(png(10, 10, 6 * 1024 * 1024)).expect(413);
+
+    const mismatch = await upload(png(10, 10), 'image/jpeg').expect(422);
+    expect(mismatch.body.code).toBe('INVALID_PHOTO');
+    await upload(Buffer.from('not a png'), 'image/png').expect(422);
+  });
+
+  it('answers 404 for unknown cats and photos', async () => {
+    await upload(png(10, 10), 'image/png', 42).expect(404);
+    await request(app.getHttpServer())
+      .get(`/cats/${catId}/photos/00000000-0000-4000-8000-000000000000`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404)
+      .expect(({ body }) => expect(body.code).toBe('PHOTO_NOT_FOUND'));
+  });
+
+  it('deletes single photos', async () => {
+    const { body: photo } = await upload(png(10, 10)).expect(201);
+
+    await request(app.getHttpServer())
+      .delete(`/cats/${catId}/photos/${photo.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(204);
+    await download(`/cats/${catId}/photos/${photo.id}`).expect(404);
+  });
+
+  it('deletes the photos of a removed cat', async () => {
+    await upload(png(10, 10)).expect(201);
+    await upload(png(20, 20)).expect(201);
+    expect(
+      await readdir(join(directory, 'cats', String(catId), 'photos')),
+    ).toHaveLength(4);
+
+    await request(app.getHttpServer())
+      .delete(`/cats/${catId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-Match', '"1"')
+      .expect(204);
+
+    expect(
+      await readdir(join(directory, 'cats', String(catId), 'photos')),
+    ).toEqual([]);
+  });
+});
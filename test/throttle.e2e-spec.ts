@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, Module } from '@nestjs/common';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [
+        {
+          id: '1',
+          username: 'alice',
+          passwordHash: hashPassword('wonderland'),
+          roles: ['admin'],
+        },
+        {
+          id: '2',
+          username: 'bob',
+          passwordHash: hashPassword('builder'),
+          roles: ['admin'],
+        },
+      ],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot({ limit: 3, ttl: 60 }),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+  ],
+})
+class TestModule {}
+
+describe('Rate limiting (e2e)', () => {
+  let app: INestApplication;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const login = (username: string, password: string) =>
+    request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ username, password });
+
+  it('limits the requests per user and route', async () => {
+    const alice = (await login('alice', 'wonderland')).body.access_token;
+    const bob = (await login('bob', 'builder')).body.access_token;
+    const list = (token: string) =>
+      request(app.getHttpServer())
+        .get('/cats')
+        .set('Authorization', `Bearer ${token}`);
+
+    const first = await list(alice).expect(200);
+    expect(first.headers).toMatchObject({
+      'ratelimit-limit': '3',
+      'ratelimit-remaining': '2',
+      'ratelimit-policy': '3;w=60',
+    });
+    await list(alice).expect(200);
+    await list(alice).expect(200);
+
+    const rejected = await list(alice).expect(429);
+    expect(rejected.headers['retry-after']).toBe('20');
+    expect(rejected.body).toMatchObject({ statusCode: 429, retryAfter: 20 });
+
+    await list(bob).expect(200);
+    await request(app.getHttpServer())
+      .get('/cats/1')
+      .set('Authorization', `Bearer ${alice}`)
+      .expect(404);
+  });
+
+  it('applies the limits of @Throttle() and identifies anonymous clients by IP', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await login('alice', 'wrong').expect(401);
+    }
+
+    const rejected = await login('alice', 'wonderland').expect(429);
+    expect(rejected.headers['ratelimit-policy']).toBe('5;w=60');
+    expect(Number(rejected.headers['retry-after'])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  INestApplication,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { WsAdapter } from '@nestjs/platform-ws';
+import * as request from 'supertest';
+import { AuthModule } from '@auth/auth.module';
+import { hashPassword } from '@auth/users.service';
+import { CatsModule } from '@cats/cats.module';
+import { ResponseCacheModule } from '@cache/response-cache.module';
+import { ThrottleModule } from '@throttle/throttle.module';
+import { StorageModule } from '@storage/storage.module';
+import { EventsModule } from '@events/events.module';
+import { IdempotencyModule } from '@idempotency/idempotency.module';
+import { LoggingModule } from '@logging/logging.module';
+import { DeprecationInterceptor } from '@interceptors/deprecation.interceptor';
+import { DEPRECATED_API_VERSIONS } from '@interceptors/interceptors.constants';
+import { TransformInterceptor } from '@interceptors/transform.interceptor';
+import { LoggerMiddleware } from '@root/logger.middleware';
+import { apiVersioning } from '@root/utils/api-version';
+
+@Module({
+  imports: [
+    AuthModule.forRoot({
+      keys: [{ kid: 'test', secret: 'test-secret' }],
+      activeKid: 'test',
+      issuer: 'cats-api',
+      audience: 'cats-api',
+      expiresIn: 60,
+      users: [
+        {
+          id: '1',
+          username: 'alice',
+          passwordHash: hashPassword('wonderland'),
+          roles: ['admin'],
+        },
+      ],
+    }),
+    CatsModule.forRoot({ persistence: { driver: 'memory' } }),
+    ResponseCacheModule.forRoot(),
+    ThrottleModule.forRoot(),
+    StorageModule.forRoot(),
+    EventsModule.forRoot(),
+    IdempotencyModule.forRoot(),
+    LoggingModule.forRoot({ level: 'error' }),
+  ],
+  providers: [
+    { provide: APP_INTERCEPTOR, useClass: TransformInterceptor },
+    {
+      provide: DEPRECATED_API_VERSIONS,
+      useValue: { '1': { sunset: new Date('2027-06-30T00:00:00Z') } },
+    },
+    { provide: APP_INTERCEPTOR, useClass: DeprecationInterceptor },
+  ],
+})
+class TestModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(LoggerMiddleware)
+      .forRoutes({ path: '*', method: RequestMethod.ALL });
+  }
+}
+
+describe('API versioning (e2e)', () => {
+  let app: INestApplication;
+  let token: string;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [TestModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    app.enableVersioning(apiVersioning);
+    await app.init();
+
+    token = (
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ username: 'alice', password: 'wonderland' })
+        .expect(200)
+    ).body.access_token;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createV2 = () =>
+    request(app.getHttpServer())
+      .post('/v2/cats')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Tom', age: 3, breed: { name: 'Siamese', origin: 'TH' } })
+      .expect(201);
+
+  it('creates and reads cats with a structured breed in version 2', async () => {
+    const created = await createV2();
+    expect(created.body.data).toEqual({
+      id: 1,
+      name: 'Tom',
+      age: 3,
+      breed: { name: 'Siamese', origin: 'TH' },
+      owner: '1',
+    });
+    expect(created.body.meta.apiVersion).toBe('2');
+    expect(created.headers['deprecation']).toBeUndefined();
+
+    const response = await request(app.getHttpServer())
+      .get('/v2/cats/1')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(response.body.data.breed).toEqual({
+      name: 'Siamese',
+      origin: 'TH',
+    });
+  });
+
+  it('selects the version by header and by media type', async () => {
+    await createV2();
+
+    const byHeader = await request(app.getHttpServer())
+      .get('/cats/1')
+      .set('Authorization', `Bearer ${token}`)
+      .set('X-API-Version', '2')
+      .expect(200);
+    expect(byHeader.body.data.breed).toEqual({
+      name: 'Siamese',
+      origin: 'TH',
+    });
+
+    const byMediaType = await request(app.getHttpServer())
+      .get('/cats/1')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Accept', 'application/vnd.cats.v2+json')
+      .expect(200);
+    expect(byMediaType.body.data.breed).toEqual({
+      name: 'Siamese',
+      origin: 'TH',
+    });
+  });
+
+  it('serves version 1 by default and announces its sunset', async () => {
+    await createV2();
+
+    for (const path of ['/cats/1', '/v1/cats/1']) {
+      const response = await request(app.getHttpServer())
+        .get(path)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        id: 1,
+        name: 'Tom',
+        age: 3,
+        breed: 'Siamese',
+        owner: '1',
+      });
+      expect(response.body.meta.apiVersion).toBe('1');
+      expect(response.headers['deprecation']).toBe('true');
+      expect(response.headers['sunset']).toBe('Wed, 30 Jun 2027 00:00:00 GMT');
+    }
+  });
+
+  it('keeps the origin when a version 1 client replaces a cat', async () => {
+    await createV2();
+
+    await request(app.getHttpServer())
+      .put('/v1/cats/1')
+      .set('Authorization', `Bearer ${token}`)
+      .set('If-Match', '"1"')
+      .send({ name: 'Tom', age: 4, breed: 'Siamese' })
+      .expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get('/v2/cats/1')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(response.body.data).toMatchObject({
+      age: 4,
+      breed: { name: 'Siamese', origin: 'TH' },
+    });
+  });
+
+  it('does not version routes outside of the cats API', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .set('X-API-Version', '2')
+      .send({ username: 'alice', password: 'wonderland' })
+      .expect(200);
+
+    expect(response.headers['deprecation']).toBeUndefined();
+  });
+});